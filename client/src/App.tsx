@@ -11,6 +11,7 @@ import { ViewportScaler } from "@/components/ViewportScaler";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { useCatalogSync } from "@/hooks/use-catalog-sync";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
@@ -22,6 +23,16 @@ import StreamFormPage from "@/pages/admin/stream-form";
 import StudiosListPage from "@/pages/admin/studios-list";
 import StudioFormPage from "@/pages/admin/studio-form";
 import ApkManagement from "@/pages/admin/apk-management";
+import ProgramsListPage from "@/pages/admin/programs-list";
+import CategoriesListPage from "@/pages/admin/categories-list";
+import CategoryFormPage from "@/pages/admin/category-form";
+import AnalyticsPage from "@/pages/admin/analytics";
+import RecordingsPage from "@/pages/admin/recordings";
+import ClipsPage from "@/pages/admin/clips";
+import VideosPage from "@/pages/admin/videos";
+import AlertsPage from "@/pages/admin/alerts";
+import WallsListPage from "@/pages/admin/walls-list";
+import WallFormPage from "@/pages/admin/wall-form";
 
 // Protected wrapper for streaming interface (Android TV style)
 const ProtectedStreamingInterface = () => {
@@ -64,6 +75,42 @@ function Router() {
       <Route path="/admin/apk">
         {() => <AdminRoute component={ApkManagement} />}
       </Route>
+      <Route path="/admin/categories">
+        {() => <AdminRoute component={CategoriesListPage} />}
+      </Route>
+      <Route path="/admin/categories/new">
+        {() => <AdminRoute component={CategoryFormPage} />}
+      </Route>
+      <Route path="/admin/categories/edit/:id">
+        {() => <AdminRoute component={CategoryFormPage} />}
+      </Route>
+      <Route path="/admin/programs">
+        {() => <AdminRoute component={ProgramsListPage} />}
+      </Route>
+      <Route path="/admin/analytics">
+        {() => <AdminRoute component={AnalyticsPage} />}
+      </Route>
+      <Route path="/admin/recordings">
+        {() => <AdminRoute component={RecordingsPage} />}
+      </Route>
+      <Route path="/admin/clips">
+        {() => <AdminRoute component={ClipsPage} />}
+      </Route>
+      <Route path="/admin/videos">
+        {() => <AdminRoute component={VideosPage} />}
+      </Route>
+      <Route path="/admin/alerts">
+        {() => <AdminRoute component={AlertsPage} />}
+      </Route>
+      <Route path="/admin/walls">
+        {() => <AdminRoute component={WallsListPage} />}
+      </Route>
+      <Route path="/admin/walls/new">
+        {() => <AdminRoute component={WallFormPage} />}
+      </Route>
+      <Route path="/admin/walls/edit/:id">
+        {() => <AdminRoute component={WallFormPage} />}
+      </Route>
       
       {/* Protected Main Routes - Android TV Style */}
       <Route path="/">{() => <ProtectedStreamingInterface />}</Route>
@@ -106,6 +153,13 @@ function AppHeader() {
   );
 }
 
+// Keeps cached catalog queries fresh while someone is signed in
+function CatalogSync() {
+  const { user } = useAuth();
+  useCatalogSync(!!user);
+  return null;
+}
+
 function App() {
   const [location] = useLocation();
   
@@ -124,6 +178,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <CatalogSync />
         <TooltipProvider>
           {isAuthRoute ? (
             // Auth page renders without scaling or sidebar
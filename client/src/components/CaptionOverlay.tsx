@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Caption size as a share of the player height, with a floor so small tiles stay readable
+const CAPTION_HEIGHT_RATIO = 0.045;
+const MIN_CAPTION_FONT_PX = 12;
+
+/**
+ * Captions drawn by the app rather than the browser, so they look the same on every TV:
+ * white on a solid dark box, sized to the player, kept inside the 10% title-safe margin.
+ */
+export default function CaptionOverlay({ lines }: { lines: string[] }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [fontSize, setFontSize] = useState(MIN_CAPTION_FONT_PX);
+
+  useEffect(() => {
+    const container = containerRef.current?.parentElement;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setFontSize(Math.max(MIN_CAPTION_FONT_PX, Math.round(entry.contentRect.height * CAPTION_HEIGHT_RATIO)));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-x-[10%] bottom-[10%] flex flex-col items-center gap-1 pointer-events-none text-center"
+      style={{ fontSize }}
+      aria-live="off"
+      data-testid="caption-overlay"
+    >
+      {lines.map((line, index) => (
+        <span
+          key={`${index}-${line}`}
+          className="bg-black/80 text-white font-medium leading-snug px-[0.4em] py-[0.1em] rounded-sm whitespace-pre-wrap"
+        >
+          {line}
+        </span>
+      ))}
+    </div>
+  );
+}
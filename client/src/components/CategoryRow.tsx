@@ -16,7 +16,7 @@ interface CategoryRowProps {
   streams: StreamData[];
   featured?: boolean;
   variant?: 'poster' | 'compact';
-  onStreamSelect?: (streamId: string, url: string) => void;
+  onStreamSelect?: (streamId: string, url: string, lineup?: string[]) => void;
   className?: string;
   sectionId: string;
   onBackToStudios?: () => void;
@@ -164,7 +164,7 @@ export default function CategoryRow({
                   metaLeft={metaLeft}
                   metaRight={metaRight}
                   tabIndex={index === focusedIndex ? 0 : -1}
-                  onSelect={() => onStreamSelect?.(stream.streamId, stream.url)}
+                  onSelect={() => onStreamSelect?.(stream.streamId, stream.url, streams.map(s => s.streamId))}
                   onFocus={() => updateFocusedIndex(index)}
                   className="flex-shrink-0"
                 />
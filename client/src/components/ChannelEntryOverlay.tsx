@@ -0,0 +1,34 @@
+import { cn } from '@/lib/utils';
+import { MAX_CHANNEL_NUMBER } from '@shared/schema';
+import type { ChannelEntryState } from '@/hooks/use-channel-entry';
+
+const MAX_DIGITS = String(MAX_CHANNEL_NUMBER).length;
+
+/**
+ * Channel number being typed on the remote, shown above everything including the player
+ */
+export default function ChannelEntryOverlay({ digits, notFound }: ChannelEntryState) {
+  if (!digits) return null;
+
+  return (
+    <div
+      className="fixed top-8 right-8 z-[60] bg-black/85 border border-white/10 rounded-lg px-6 py-4 pointer-events-none"
+      data-testid="channel-entry-overlay"
+    >
+      {notFound ? (
+        <div className="text-center">
+          <div className="text-red-400 font-mono text-4xl">{digits}</div>
+          <div className="text-gray-300 text-sm mt-1">No such channel</div>
+        </div>
+      ) : (
+        <div className="flex gap-1 font-mono text-4xl">
+          {Array.from({ length: MAX_DIGITS }, (_, index) => (
+            <span key={index} className={cn(index < digits.length ? "text-white" : "text-gray-600")}>
+              {digits[index] ?? '-'}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Volume2, VolumeX, AlertCircle, Wifi, Play, Settings, ChevronDown } from 'lucide-react';
+import { Volume2, VolumeX, AlertCircle, Wifi, Play, Settings, ChevronDown, AudioLines, Captions, Radio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
+import { useViewerSession } from '@/hooks/use-viewer-counts';
+import { usePlaybackPreferences, useUpdatePlaybackPreferences } from '@/hooks/use-playback-preferences';
+import { createHlsStatsSampler, STATS_SAMPLE_INTERVAL_MS } from '@/lib/playbackStats';
+import { DVR_SEEK_STEP_SECONDS, LIVE_EDGE_TOLERANCE_SECONDS, formatBehindLive, formatPlaybackTime, getDvrRange, type DvrRange } from '@/lib/dvr';
+import { CAPTIONS_OFF, findPreferredTrack, getActiveCaptionLines, getCaptionChannelLanguage, getTrackPreference, pruneCaptionCues, type MediaTrackOption } from '@/lib/mediaTracks';
+import CaptionOverlay from '@/components/CaptionOverlay';
+import type { PlaybackStats } from '@shared/schema';
 import Hls from 'hls.js';
 
 interface HLSPlayerProps {
@@ -15,6 +23,15 @@ interface HLSPlayerProps {
   onError?: (error: string) => void;
   onLoadStart?: () => void;
   onCanPlay?: () => void;
+  onStats?: (stats: PlaybackStats) => void;
+  maxRetries?: number; // lower it when there is another source to fail over to
+  onRetriesExhausted?: () => void;
+  dvrWindowSeconds?: number; // how far back a live stream may be rewound, 0 for live only
+  mediaKeys?: boolean; // handle the remote's Play/Pause, Rewind and Fast Forward keys
+  vod?: boolean; // on-demand video: seek bar over the whole video, not counted as a live viewer
+  countViewer?: boolean; // false for players that aren't a viewer of a catalog stream (e.g. admin previews)
+  startPosition?: number; // seconds into an on-demand video to start from
+  onPositionChange?: (position: number) => void; // playhead of an on-demand video, as it plays
   className?: string;
 }
 
@@ -35,6 +52,15 @@ export default function HLSPlayer({
   onError,
   onLoadStart,
   onCanPlay,
+  onStats,
+  maxRetries = 5,
+  onRetriesExhausted,
+  dvrWindowSeconds = 0,
+  mediaKeys = false,
+  vod = false,
+  countViewer = true,
+  startPosition = 0,
+  onPositionChange,
   className = ''
 }: HLSPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -50,10 +76,48 @@ export default function HLSPlayer({
   const [availableQualityLevels, setAvailableQualityLevels] = useState<Array<{ level: number; height?: number; bitrate?: number; width?: number }>>([]);
   const [currentBandwidth, setCurrentBandwidth] = useState<number>(0);
   const [isAutoQuality, setIsAutoQuality] = useState(true);
+  const [audioTracks, setAudioTracks] = useState<MediaTrackOption[]>([]);
+  const [currentAudioTrack, setCurrentAudioTrack] = useState<string | null>(null);
+  const [captionTracks, setCaptionTracks] = useState<MediaTrackOption[]>([]);
+  const [activeCaption, setActiveCaption] = useState(CAPTIONS_OFF);
+  const [captionLines, setCaptionLines] = useState<string[]>([]);
+  const activeCaptionRef = useRef(activeCaption);
+  activeCaptionRef.current = activeCaption;
+  const captionCuesRef = useRef<VTTCue[]>([]);
+  const { data: preferences } = usePlaybackPreferences();
+  const updatePreferences = useUpdatePlaybackPreferences();
   const retryTimeoutRef = useRef<NodeJS.Timeout>();
   const retryCountRef = useRef(0);
-  const maxRetries = 5;
+  const maxRetriesRef = useRef(maxRetries);
+  maxRetriesRef.current = maxRetries;
+  const onRetriesExhaustedRef = useRef(onRetriesExhausted);
+  onRetriesExhaustedRef.current = onRetriesExhausted;
   const globalAutoplayUnlockedRef = useRef(false);
+  const loadedUrlRef = useRef<string | null>(null);
+  // Retry timers and hls.js error handlers outlive channel changes, so they reconnect
+  // through these refs rather than the closure that created them
+  const streamUrlRef = useRef(streamUrl);
+  streamUrlRef.current = streamUrl;
+  const connectToHLSStreamRef = useRef<() => Promise<(() => void) | undefined>>();
+  const onStatsRef = useRef(onStats);
+  onStatsRef.current = onStats;
+  const [dvrRange, setDvrRange] = useState<DvrRange | null>(null);
+  const [dvrPosition, setDvrPosition] = useState(0);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const dvrWindowRef = useRef(dvrWindowSeconds);
+  dvrWindowRef.current = dvrWindowSeconds;
+  const configuredMaxLatencyRef = useRef<number | null>(null);
+  const userPausedRef = useRef(false);
+  const [vodDuration, setVodDuration] = useState(0);
+  const [vodPosition, setVodPosition] = useState(0);
+  const startPositionRef = useRef(startPosition);
+  startPositionRef.current = startPosition;
+  const onPositionChangeRef = useRef(onPositionChange);
+  onPositionChangeRef.current = onPositionChange;
+  
+  // Count as a viewer while mounted - shared with StreamModal's registration, so counted once.
+  // On-demand videos and admin previews aren't channels, so they have no viewer count.
+  useViewerSession(streamId, countViewer && !vod);
   
   // Fire TV device detection
   const isFireTV = /AFT|AmazonWebAppPlatform|Silk/i.test(navigator.userAgent);
@@ -178,9 +242,16 @@ export default function HLSPlayer({
     retryCountRef.current = 0;
   }, [streamId]);
 
+  // hls.js jumps back to the live edge once playback falls liveMaxLatencyDurationCount
+  // segments behind - lifted while the stream allows rewinding
+  const applyDvrLatency = (hls: any) => {
+    if (configuredMaxLatencyRef.current === null) return;
+    hls.config.liveMaxLatencyDurationCount = dvrWindowRef.current > 0 ? Infinity : configuredMaxLatencyRef.current;
+  };
+
   // Retry connection with exponential backoff
   const retryConnection = useCallback(() => {
-    if (retryCountRef.current >= maxRetries) {
+    if (retryCountRef.current >= maxRetriesRef.current) {
       console.log(`HLSPlayer[${streamId}]: Max retries reached, giving up`);
       setConnectionStatus('failed');
       setHlsError({
@@ -188,28 +259,32 @@ export default function HLSPlayer({
         message: 'Maximum retry attempts exceeded',
         suggestion: 'Please check the stream URL and try again later'
       });
+      onRetriesExhaustedRef.current?.();
       return;
     }
 
     retryCountRef.current += 1;
     const delay = Math.min(1000 * Math.pow(2, retryCountRef.current - 1), 10000); // Max 10s delay
     
-    console.log(`HLSPlayer[${streamId}]: Retrying connection in ${delay}ms (attempt ${retryCountRef.current}/${maxRetries})`);
+    console.log(`HLSPlayer[${streamId}]: Retrying connection in ${delay}ms (attempt ${retryCountRef.current}/${maxRetriesRef.current})`);
     
     retryTimeoutRef.current = setTimeout(() => {
-      connectToHLSStream();
+      retryTimeoutRef.current = undefined;
+      connectToHLSStreamRef.current?.();
     }, delay);
   }, [streamId]);
 
   // Connect to HLS stream
   const connectToHLSStream = useCallback(async (): Promise<(() => void) | undefined> => {
     const video = videoRef.current;
+    const streamUrl = streamUrlRef.current;
     if (!video || !streamUrl || !isHlsSupported) {
       console.log(`HLSPlayer[${streamId}]: Cannot connect - missing video element or unsupported HLS`);
       return undefined;
     }
 
     console.log(`HLSPlayer[${streamId}]: Connecting to HLS stream: ${streamUrl}`);
+    loadedUrlRef.current = streamUrl;
     setIsLoading(true);
     setConnectionStatus('connecting');
     setHlsError(null);
@@ -328,7 +403,8 @@ export default function HLSPlayer({
           maxStarvationDelay: 4,           // Max starvation before quality switch
           maxLoadingDelay: 4,              // Max loading delay before switch
           minAutoBitrate: 150000,          // Set minimum bitrate (150kbps) instead of 0
-          emeEnabled: false                // Disable encrypted media extensions
+          emeEnabled: false,               // Disable encrypted media extensions
+          renderTextTracksNatively: false  // Captions are drawn by CaptionOverlay
         } : {
           // Standard configuration for other devices
           debug: false,
@@ -359,13 +435,16 @@ export default function HLSPlayer({
           maxStarvationDelay: 4,         // Max starvation before quality switch
           maxLoadingDelay: 4,            // Max loading delay before switch
           minAutoBitrate: 0,             // Minimum auto bitrate (0 = no limit)
-          emeEnabled: true               // Enable encrypted media extensions
+          emeEnabled: true,              // Enable encrypted media extensions
+          renderTextTracksNatively: false // Captions are drawn by CaptionOverlay
         };
 
         console.log(`HLSPlayer[${streamId}]: Creating hls.js instance with ${isFireTV ? 'Fire TV-optimized' : 'standard'} configuration`);
         const hls = new Hls(hlsConfig);
 
         hlsRef.current = hls;
+        configuredMaxLatencyRef.current = hls.config.liveMaxLatencyDurationCount;
+        applyDvrLatency(hls);
 
         // HLS.js event handlers
         hls.on(Hls.Events.MANIFEST_PARSED, (event, data) => {
@@ -444,6 +523,51 @@ export default function HLSPlayer({
           }
         });
 
+        // Alternate audio and captions. Subtitle and CEA-608 cues are handed to us instead of
+        // the browser (renderTextTracksNatively: false) so CaptionOverlay can style them
+        hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, (event, data) => {
+          setAudioTracks(data.audioTracks.map((track, index) => ({
+            id: String(index),
+            label: track.name || track.lang || `Track ${index + 1}`,
+            language: track.lang || null,
+          })));
+          setCurrentAudioTrack(String(hls.audioTrack));
+        });
+
+        hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, (event, data) => {
+          setCurrentAudioTrack(String(data.id));
+        });
+
+        hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, (event, data) => {
+          const subtitles = data.subtitleTracks.map((track, index) => ({
+            id: `subtitles:${index}`,
+            label: track.name || track.lang || `Subtitles ${index + 1}`,
+            language: track.lang || null,
+          }));
+          setCaptionTracks(current => [...current.filter(track => !track.id.startsWith('subtitles:')), ...subtitles]);
+        });
+
+        // CEA-608 channels are reported as they're first seen in the video
+        hls.on(Hls.Events.NON_NATIVE_TEXT_TRACKS_FOUND, (event, data) => {
+          const captions = data.tracks
+            .filter(track => track.kind === 'captions' && track._id)
+            .map(track => ({
+              id: `captions:${track._id}`,
+              label: String(track.label),
+              language: track.closedCaptions?.lang || getCaptionChannelLanguage(hls.config, track._id!),
+            }));
+          if (captions.length === 0) return;
+          setCaptionTracks(current => [...current.filter(track => !captions.some(caption => caption.id === track.id)), ...captions]);
+        });
+
+        hls.on(Hls.Events.CUES_PARSED, (event, data) => {
+          const selected = activeCaptionRef.current;
+          const isSelected = data.type === 'captions' ? selected === `captions:${data.track}` : selected.startsWith('subtitles:');
+          if (isSelected) {
+            captionCuesRef.current = pruneCaptionCues([...captionCuesRef.current, ...data.cues], video.currentTime);
+          }
+        });
+
         hls.on(Hls.Events.ERROR, (event: any, data: any) => {
           console.error(`HLSPlayer[${streamId}]: HLS.js error:`, data);
           
@@ -518,9 +642,11 @@ export default function HLSPlayer({
       retryConnection();
       return undefined;
     }
-  }, [streamUrl, streamId, isMuted, isHlsSupported, useNativeHls, analyzeHLSError, onLoadStart, onCanPlay, onError, retryConnection]);
+  }, [streamId, isMuted, isHlsSupported, useNativeHls, analyzeHLSError, onLoadStart, onCanPlay, onError, retryConnection]);
+  connectToHLSStreamRef.current = connectToHLSStream;
 
-  // Effect to handle stream connection
+  // Effect to handle stream connection - channel changes are handled below without a rebuild
+  const hasStreamUrl = !!streamUrl;
   useEffect(() => {
     console.log(`HLSPlayer[${streamId}]: Connection effect triggered. streamUrl=${streamUrl}, isHlsSupported=${isHlsSupported}`);
     
@@ -538,12 +664,174 @@ export default function HLSPlayer({
           cleanupFunction();
         }
         cleanup();
+        loadedUrlRef.current = null;
       };
     } else {
       console.log(`HLSPlayer[${streamId}]: Cannot connect - streamUrl="${streamUrl}", isHlsSupported=${isHlsSupported}`);
       cleanup();
     }
-  }, [streamUrl, isHlsSupported, streamId]);
+  }, [hasStreamUrl, isHlsSupported]);
+
+  // Channel change - point the existing hls.js instance (or native player) at the new URL
+  // instead of tearing it down, which keeps switches fast on TV hardware
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!streamUrl || !video || !loadedUrlRef.current || loadedUrlRef.current === streamUrl) return;
+
+    console.log(`HLSPlayer[${streamId}]: Switching source to ${streamUrl}`);
+    loadedUrlRef.current = streamUrl;
+
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = undefined;
+    }
+    retryCountRef.current = 0;
+    setIsLoading(true);
+    setConnectionStatus('connecting');
+    setHlsError(null);
+    setAvailableQualityLevels([]);
+    setCurrentQuality(null);
+    setIsAutoQuality(true);
+    setAudioTracks([]);
+    setCurrentAudioTrack(null);
+    setCaptionTracks([]);
+    setActiveCaption(CAPTIONS_OFF);
+    setDvrRange(null);
+    setScrubPosition(null);
+    userPausedRef.current = false;
+    onLoadStart?.();
+
+    if (hlsRef.current) {
+      hlsRef.current.stopLoad();
+      hlsRef.current.loadSource(streamUrl);
+    } else if (useNativeHls) {
+      video.src = streamUrl;
+    } else {
+      // The previous source never got an hls.js instance up - build one for the new URL
+      connectToHLSStreamRef.current?.();
+    }
+  }, [streamUrl, streamId]);
+
+  // Channel changes keep the hls.js instance, so the new stream's rewind setting is applied here
+  useEffect(() => {
+    if (hlsRef.current) applyDvrLatency(hlsRef.current);
+  }, [dvrWindowSeconds]);
+
+  // Track the rewind window and playhead for the scrub bar. A viewer who paused past the
+  // start of the window resumes at the oldest position still allowed.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || dvrWindowSeconds <= 0 || connectionStatus !== 'connected') {
+      setDvrRange(null);
+      return;
+    }
+
+    const update = () => {
+      const range = getDvrRange(video, hlsRef.current, dvrWindowSeconds);
+      if (range && !video.paused && video.currentTime < range.start) {
+        video.currentTime = range.start;
+      }
+      setDvrRange(range);
+      setDvrPosition(video.currentTime);
+    };
+
+    update();
+    const dvrTimer = setInterval(update, 1000);
+    return () => clearInterval(dvrTimer);
+  }, [dvrWindowSeconds, connectionStatus, streamUrl]);
+
+  // On-demand videos start from the resume point and report the playhead as they play
+  useEffect(() => {
+    const video = videoRef.current;
+    setVodDuration(0);
+    setVodPosition(0);
+    if (!video || !vod) return;
+
+    let pendingStart = startPositionRef.current;
+    const handleLoadedMetadata = () => {
+      if (pendingStart > 0 && pendingStart < video.duration) {
+        console.log(`HLSPlayer[${streamId}]: Resuming at ${formatPlaybackTime(pendingStart)}`);
+        video.currentTime = pendingStart;
+      }
+      pendingStart = 0;
+    };
+    const handleDurationChange = () => {
+      setVodDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    };
+    const handleTimeUpdate = () => {
+      setVodPosition(video.currentTime);
+      onPositionChangeRef.current?.(video.currentTime);
+    };
+
+    video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('durationchange', handleDurationChange);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => {
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('durationchange', handleDurationChange);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+    };
+  }, [vod, streamUrl, streamId]);
+
+  // Follow the user's saved audio language whenever a stream offers it
+  useEffect(() => {
+    const hls = hlsRef.current;
+    const preferred = findPreferredTrack(audioTracks, preferences?.audioLanguage);
+    if (hls && preferred && String(hls.audioTrack) !== preferred.id) {
+      console.log(`HLSPlayer[${streamId}]: Selecting preferred audio track ${preferred.label}`);
+      hls.audioTrack = Number(preferred.id);
+    }
+  }, [audioTracks, preferences?.audioLanguage, streamId]);
+
+  // Same for captions - a track already showing in the preferred language is left alone
+  useEffect(() => {
+    if (!preferences) return;
+    setActiveCaption(current => {
+      const currentTrack = captionTracks.find(track => track.id === current);
+      if (currentTrack && getTrackPreference(currentTrack) === preferences.captionLanguage) return current;
+      return findPreferredTrack(captionTracks, preferences.captionLanguage)?.id ?? CAPTIONS_OFF;
+    });
+  }, [captionTracks, preferences?.captionLanguage]);
+
+  // Subtitle playlists only load while selected; CEA-608 is always decoded, so picking
+  // a caption channel just filters the parsed cues
+  useEffect(() => {
+    const hls = hlsRef.current;
+    const subtitleTrack = activeCaption.startsWith('subtitles:') ? Number(activeCaption.split(':')[1]) : -1;
+    if (hls && hls.subtitleTrack !== subtitleTrack) {
+      hls.subtitleTrack = subtitleTrack;
+    }
+  }, [activeCaption, captionTracks]);
+
+  // Show the selected track's cues as the video plays
+  useEffect(() => {
+    const video = videoRef.current;
+    captionCuesRef.current = [];
+    setCaptionLines([]);
+    if (!video || activeCaption === CAPTIONS_OFF) return;
+
+    const handleTimeUpdate = () => {
+      const lines = getActiveCaptionLines(captionCuesRef.current, video.currentTime);
+      setCaptionLines(current => (current.join('\n') === lines.join('\n') ? current : lines));
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => video.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [activeCaption]);
+
+  // Sample playback stats for the stats overlay while connected
+  const hasStatsListener = !!onStats;
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!hasStatsListener || connectionStatus !== 'connected' || !video) return;
+
+    const sample = createHlsStatsSampler(video, hlsRef.current);
+    const report = () => onStatsRef.current?.(sample());
+    report();
+    const statsTimer = setInterval(report, STATS_SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(statsTimer);
+  }, [hasStatsListener, connectionStatus, streamUrl]);
 
   // Handle mute changes - but keep muted for autoplay
   useEffect(() => {
@@ -553,9 +841,9 @@ export default function HLSPlayer({
     }
   }, [isMuted, isPlaying]);
 
-  // Ultra-aggressive autoplay when connected
+  // Ultra-aggressive autoplay when connected - but never over a viewer's own pause
   useEffect(() => {
-    if (connectionStatus === 'connected' && videoRef.current) {
+    if (connectionStatus === 'connected' && videoRef.current && !userPausedRef.current) {
       const video = videoRef.current;
       
       console.log(`HLSPlayer[${streamId}]: Starting ultra autoplay sequence`);
@@ -695,8 +983,10 @@ export default function HLSPlayer({
     if (!video) return;
 
     if (isPlaying) {
+      userPausedRef.current = true;
       video.pause();
     } else {
+      userPausedRef.current = false;
       setNeedsUserInteraction(false);
       video.play().catch((error) => {
         console.error(`HLSPlayer[${streamId}]: Play error:`, error);
@@ -704,6 +994,63 @@ export default function HLSPlayer({
     }
   };
 
+  const handleDvrSeek = (position: number) => {
+    const video = videoRef.current;
+    setScrubPosition(null);
+    if (!video || !dvrRange) return;
+
+    video.currentTime = Math.min(Math.max(position, dvrRange.start), dvrRange.liveEdge);
+    setDvrPosition(video.currentTime);
+    console.log(`HLSPlayer[${streamId}]: DVR seek to ${formatBehindLive(dvrRange.liveEdge - video.currentTime)}`);
+  };
+
+  const handleVodSeek = (position: number) => {
+    const video = videoRef.current;
+    setScrubPosition(null);
+    if (!video || vodDuration <= 0) return;
+
+    video.currentTime = Math.min(Math.max(position, 0), vodDuration);
+    setVodPosition(video.currentTime);
+  };
+
+  const handleJumpToLive = () => {
+    const video = videoRef.current;
+    if (!video || !dvrRange) return;
+
+    video.currentTime = dvrRange.liveEdge;
+    setDvrPosition(video.currentTime);
+    userPausedRef.current = false;
+    video.play().catch((error) => {
+      console.error(`HLSPlayer[${streamId}]: Play error:`, error);
+    });
+  };
+
+  // Remote transport keys - Rewind and Fast Forward skip through the DVR window, or the whole
+  // of an on-demand video
+  const mediaKeyHandlersRef = useRef({ handleTogglePlay, handleDvrSeek, handleVodSeek, dvrRange, dvrPosition, vodDuration, vodPosition });
+  mediaKeyHandlersRef.current = { handleTogglePlay, handleDvrSeek, handleVodSeek, dvrRange, dvrPosition, vodDuration, vodPosition };
+  useEffect(() => {
+    if (!mediaKeys) return;
+
+    const handleMediaKeyDown = (e: KeyboardEvent) => {
+      const { handleTogglePlay, handleDvrSeek, handleVodSeek, dvrRange, dvrPosition, vodDuration, vodPosition } = mediaKeyHandlersRef.current;
+      const skip = e.key === 'MediaRewind' ? -DVR_SEEK_STEP_SECONDS * 3 : DVR_SEEK_STEP_SECONDS * 3;
+      if (e.key === 'MediaPlayPause') {
+        e.preventDefault();
+        handleTogglePlay();
+      } else if ((e.key === 'MediaRewind' || e.key === 'MediaFastForward') && dvrRange) {
+        e.preventDefault();
+        handleDvrSeek(dvrPosition + skip);
+      } else if ((e.key === 'MediaRewind' || e.key === 'MediaFastForward') && vodDuration > 0) {
+        e.preventDefault();
+        handleVodSeek(vodPosition + skip);
+      }
+    };
+
+    window.addEventListener('keydown', handleMediaKeyDown);
+    return () => window.removeEventListener('keydown', handleMediaKeyDown);
+  }, [mediaKeys]);
+
   const handleToggleMute = () => {
     onMutedChange(!isMuted);
   };
@@ -726,6 +1073,22 @@ export default function HLSPlayer({
     }
   };
 
+  const handleAudioTrackChange = (id: string) => {
+    const hls = hlsRef.current;
+    const track = audioTracks.find(audioTrack => audioTrack.id === id);
+    if (!hls || !track) return;
+
+    hls.audioTrack = Number(id);
+    updatePreferences.mutate({ audioLanguage: getTrackPreference(track) });
+    console.log(`HLSPlayer[${streamId}]: Switched audio track to ${track.label}`);
+  };
+
+  const handleCaptionChange = (id: string) => {
+    const track = captionTracks.find(captionTrack => captionTrack.id === id);
+    setActiveCaption(track ? track.id : CAPTIONS_OFF);
+    updatePreferences.mutate({ captionLanguage: track ? getTrackPreference(track) : null });
+  };
+
   const formatBitrate = (bitrate: number): string => {
     if (bitrate >= 1000000) {
       return `${(bitrate / 1000000).toFixed(1)}Mbps`;
@@ -742,6 +1105,9 @@ export default function HLSPlayer({
     }
   };
 
+  // Seconds behind live at the playhead, or at the thumb while scrubbing
+  const dvrBehindLive = dvrRange ? dvrRange.liveEdge - (scrubPosition ?? dvrPosition) : 0;
+
   const getConnectionStatusIcon = () => {
     switch (connectionStatus) {
       case 'connecting':
@@ -786,6 +1152,9 @@ export default function HLSPlayer({
         onLoadedMetadata={handleVideoReady}
       />
       
+      {/* Captions sit under the controls so the menus stay reachable */}
+      {activeCaption !== CAPTIONS_OFF && captionLines.length > 0 && <CaptionOverlay lines={captionLines} />}
+      
       {/* Loading overlay */}
       {isLoading && (
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
@@ -799,7 +1168,7 @@ export default function HLSPlayer({
       {/* Control overlay - always visible when needs user interaction or on hover */}
       <div className={cn(
         "absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-black/50 transition-opacity duration-300",
-        needsUserInteraction || !isPlaying ? "opacity-100" : "opacity-0 hover:opacity-100"
+        needsUserInteraction || !isPlaying ? "opacity-100" : "opacity-0 hover:opacity-100 focus-within:opacity-100"
       )}>
         <div className="absolute top-4 left-4">
           <Badge variant="secondary" className="bg-black/70 text-white">
@@ -827,6 +1196,64 @@ export default function HLSPlayer({
         )}
 
         <div className="absolute bottom-4 left-4 right-4">
+          {/* Seek bar for on-demand videos */}
+          {vod && vodDuration > 0 && (
+            <div className="flex items-center gap-3 mb-3 text-white" data-testid={`vod-controls-${streamId}`}>
+              <Slider
+                min={0}
+                max={vodDuration}
+                step={DVR_SEEK_STEP_SECONDS}
+                value={[Math.min(scrubPosition ?? vodPosition, vodDuration)]}
+                onValueChange={([position]) => setScrubPosition(position)}
+                onValueCommit={([position]) => handleVodSeek(position)}
+                aria-label="Seek"
+                className="flex-1"
+                data-testid={`slider-vod-${streamId}`}
+              />
+              <span className="text-xs font-mono text-white/80 whitespace-nowrap" data-testid={`text-vod-time-${streamId}`}>
+                {formatPlaybackTime(scrubPosition ?? vodPosition)} / {formatPlaybackTime(vodDuration)}
+              </span>
+            </div>
+          )}
+
+          {/* DVR scrub bar - left/right on the remote steps through the rewind window */}
+          {dvrRange && dvrRange.liveEdge - dvrRange.start > DVR_SEEK_STEP_SECONDS && (
+            <div className="flex items-center gap-3 mb-3 text-white" data-testid={`dvr-controls-${streamId}`}>
+              <Slider
+                min={dvrRange.start}
+                max={dvrRange.liveEdge}
+                step={DVR_SEEK_STEP_SECONDS}
+                value={[Math.min(Math.max(scrubPosition ?? dvrPosition, dvrRange.start), dvrRange.liveEdge)]}
+                onValueChange={([position]) => setScrubPosition(position)}
+                onValueCommit={([position]) => handleDvrSeek(position)}
+                aria-label="Rewind"
+                className="flex-1"
+                data-testid={`slider-dvr-${streamId}`}
+              />
+              {dvrBehindLive < LIVE_EDGE_TOLERANCE_SECONDS ? (
+                <Badge className="bg-red-600 text-white hover:bg-red-600" data-testid={`badge-dvr-live-${streamId}`}>
+                  LIVE
+                </Badge>
+              ) : (
+                <>
+                  <span className="text-xs font-mono text-white/80 min-w-[4rem] text-right" data-testid={`text-dvr-behind-${streamId}`}>
+                    {formatBehindLive(dvrBehindLive)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={handleJumpToLive}
+                    className="h-7 text-xs"
+                    data-testid={`button-dvr-live-${streamId}`}
+                  >
+                    <Radio className="w-3 h-3 mr-1" />
+                    Jump to Live
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="flex items-center justify-between text-white">
             <div className="flex items-center space-x-3">
               <Button
@@ -875,6 +1302,51 @@ export default function HLSPlayer({
                   </SelectContent>
                 </Select>
               )}
+
+              {/* Audio track selection - only when the stream carries alternate audio */}
+              {audioTracks.length > 1 && !useNativeHls && (
+                <Select value={currentAudioTrack ?? undefined} onValueChange={handleAudioTrackChange}>
+                  <SelectTrigger
+                    className="w-32 h-8 text-xs bg-black/50 border-white/20 text-white hover:bg-white/20"
+                    aria-label="Audio track"
+                    data-testid={`select-hls-audio-${streamId}`}
+                  >
+                    <AudioLines className="w-3 h-3 mr-1 flex-shrink-0" />
+                    <SelectValue placeholder="Audio" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/20">
+                    {audioTracks.map((track) => (
+                      <SelectItem key={track.id} value={track.id} className="text-white hover:bg-white/20">
+                        {track.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {/* Captions - subtitle playlists and CEA-608 channels */}
+              {captionTracks.length > 0 && !useNativeHls && (
+                <Select value={activeCaption} onValueChange={handleCaptionChange}>
+                  <SelectTrigger
+                    className="w-32 h-8 text-xs bg-black/50 border-white/20 text-white hover:bg-white/20"
+                    aria-label="Captions"
+                    data-testid={`select-hls-captions-${streamId}`}
+                  >
+                    <Captions className="w-3 h-3 mr-1 flex-shrink-0" />
+                    <SelectValue placeholder="Captions" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/20">
+                    <SelectItem value={CAPTIONS_OFF} className="text-white hover:bg-white/20">
+                      Off
+                    </SelectItem>
+                    {captionTracks.map((track) => (
+                      <SelectItem key={track.id} value={track.id} className="text-white hover:bg-white/20">
+                        {track.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             <div className="flex flex-col items-end text-xs text-white/80">
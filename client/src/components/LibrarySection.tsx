@@ -0,0 +1,127 @@
+import { Film } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPlaybackTime } from '@/lib/dvr';
+import { useLibraryVideos, getVideoPosterUrl, getResumePosition } from '@/hooks/use-videos';
+import type { LibraryVideo } from '@shared/schema';
+
+interface LibrarySectionProps {
+  onVideoSelect: (video: LibraryVideo) => void;
+  className?: string;
+}
+
+const COLUMNS = 3;
+
+/**
+ * Library section - on-demand videos uploaded by admins, with the user's resume points
+ */
+export default function LibrarySection({ onVideoSelect, className }: LibrarySectionProps) {
+  const { data: videos, isLoading } = useLibraryVideos();
+
+  const focusVideo = (index: number) => {
+    const card = document.querySelector(`[data-video-index="${index}"]`) as HTMLElement | null;
+    card?.focus();
+    card?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (!videos) return;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        if (index % COLUMNS > 0) focusVideo(index - 1);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (index % COLUMNS < COLUMNS - 1 && index + 1 < videos.length) focusVideo(index + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (index >= COLUMNS) {
+          focusVideo(index - COLUMNS);
+        } else {
+          const activeNavButton = document.querySelector('[data-active="true"]') as HTMLElement | null;
+          activeNavButton?.focus();
+        }
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (index + COLUMNS < videos.length) focusVideo(index + COLUMNS);
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        onVideoSelect(videos[index]);
+        break;
+    }
+  };
+
+  return (
+    <div className={cn("relative w-full px-8", className)} data-testid="section-library">
+      <h2 className="text-white font-semibold text-2xl mb-4">Library</h2>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-white text-lg">Loading library...</div>
+        </div>
+      ) : !videos || videos.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-white/60 text-lg" data-testid="text-no-videos">
+            No videos yet - ask an admin to upload some
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-6" style={{ gridTemplateColumns: `repeat(${COLUMNS}, minmax(0, 1fr))` }}>
+          {videos.map((video, index) => {
+            const resumePosition = getResumePosition(video);
+            return (
+              <div
+                key={video.id}
+                className="stream-tile rounded-lg bg-gray-900 overflow-hidden cursor-pointer outline-none focus-visible:ring-4 focus-visible:ring-blue-500 hover:bg-gray-800"
+                tabIndex={0}
+                onClick={() => onVideoSelect(video)}
+                onKeyDown={(e) => handleKeyDown(e, index)}
+                data-video-index={index}
+                data-testid={`video-card-${video.id}`}
+              >
+                <div className="relative aspect-video bg-gray-950">
+                  {/* Shows through if the poster can't be loaded */}
+                  <Film className="absolute inset-0 m-auto w-10 h-10 text-gray-700" />
+                  <img
+                    src={getVideoPosterUrl(video.id)}
+                    alt=""
+                    className="absolute inset-0 w-full h-full object-cover"
+                    onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+                  />
+                  <span className="absolute bottom-2 right-2 rounded bg-black/80 px-1.5 py-0.5 text-xs text-white">
+                    {formatPlaybackTime(video.durationSeconds)}
+                  </span>
+                  {resumePosition > 0 && (
+                    <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20" data-testid={`progress-video-${video.id}`}>
+                      <div
+                        className="h-full bg-red-600"
+                        style={{ width: `${Math.min(100, (resumePosition / video.durationSeconds) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="p-4">
+                  <div className="text-white font-medium truncate">{video.title}</div>
+                  {video.description && (
+                    <div className="text-xs text-gray-400 line-clamp-2 mt-1">{video.description}</div>
+                  )}
+                  {resumePosition > 0 && (
+                    <div className="text-xs text-gray-400 mt-1">
+                      Resume from {formatPlaybackTime(resumePosition)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
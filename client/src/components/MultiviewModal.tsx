@@ -0,0 +1,395 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { X, Volume2, VolumeX, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import PreviewManager from '@/lib/PreviewManager';
+import HLSPlayer from '@/components/HLSPlayer';
+import { useViewerSession } from '@/hooks/use-viewer-counts';
+import { detectStreamType } from '@shared/streamUrls';
+import type { Stream } from '@shared/schema';
+
+export type MultiviewLayout = '2x2' | '3x3';
+
+export const MULTIVIEW_LAYOUTS: Record<MultiviewLayout, { columns: number; tiles: number }> = {
+  '2x2': { columns: 2, tiles: 4 },
+  '3x3': { columns: 3, tiles: 9 },
+};
+
+// Where a feed sits in the grid, in cells; stream is null for a feed deleted since a wall was saved
+export interface MultiviewPlacement {
+  key: string;
+  stream: Stream | null;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface MultiviewModalProps {
+  isOpen: boolean;
+  title: string;
+  columns: number;
+  rows: number;
+  tiles: MultiviewPlacement[];
+  initialAudioKey?: string | null; // defaults to the first tile
+  onClose: () => void;
+}
+
+interface MultiviewTileProps {
+  stream: Stream;
+  index: number;
+  isPlaying: boolean;
+  hasAudio: boolean;
+  onSelectAudio: () => void;
+}
+
+/**
+ * Fill a fixed layout with streams in reading order, one cell each
+ */
+export function getGridPlacements(streams: Stream[], layout: MultiviewLayout): MultiviewPlacement[] {
+  const { columns, tiles } = MULTIVIEW_LAYOUTS[layout];
+  return streams.slice(0, tiles).map((stream, index) => ({
+    key: stream.id,
+    stream,
+    label: stream.title,
+    x: index % columns,
+    y: Math.floor(index / columns),
+    width: 1,
+    height: 1,
+  }));
+}
+
+// Next tile in an arrow key's direction - nearest along that axis, then closest across it
+function findTileInDirection(tiles: MultiviewPlacement[], from: number, key: string): number {
+  const center = (tile: MultiviewPlacement) => ({ x: tile.x + tile.width / 2, y: tile.y + tile.height / 2 });
+  const origin = center(tiles[from]);
+  let best = -1;
+  let bestScore = Infinity;
+
+  tiles.forEach((tile, index) => {
+    if (index === from) return;
+    const { x, y } = center(tile);
+    const along = key === 'ArrowLeft' ? origin.x - x : key === 'ArrowRight' ? x - origin.x : key === 'ArrowUp' ? origin.y - y : y - origin.y;
+    const across = key === 'ArrowLeft' || key === 'ArrowRight' ? Math.abs(y - origin.y) : Math.abs(x - origin.x);
+    if (along <= 0) return;
+
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = index;
+    }
+  });
+
+  return best;
+}
+
+const isBackKey = (e: { key: string; keyCode: number; code: string }) =>
+  e.key === 'Escape' ||
+  e.key === 'Backspace' ||
+  e.key === 'Back' ||
+  e.key === 'BrowserBack' ||
+  e.keyCode === 8 ||
+  e.keyCode === 166 ||
+  e.code === 'BrowserBack';
+
+/**
+ * One multiview cell - WebRTC through the SRS WHEP SDK, HLS through HLSPlayer.
+ * Tiles over the device budget keep showing their thumbnail instead of playing.
+ */
+function MultiviewTile({ stream, index, isPlaying, hasAudio, onSelectAudio }: MultiviewTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'failed'>('idle');
+  const streamType = stream.streamType === 'hls' || detectStreamType(stream.url) === 'hls' ? 'hls' : 'webrtc';
+
+  // Live "N watching" counts
+  useViewerSession(stream.streamId, isPlaying);
+
+  useEffect(() => {
+    if (!isPlaying || streamType !== 'webrtc') return;
+
+    if (typeof SrsRtcWhipWhepAsync === 'undefined') {
+      console.error(`Multiview[${stream.streamId}]: SRS SDK not loaded`);
+      setStatus('failed');
+      return;
+    }
+
+    const sdk = SrsRtcWhipWhepAsync();
+    let closed = false;
+    setStatus('connecting');
+
+    if (videoRef.current) {
+      videoRef.current.srcObject = sdk.stream;
+    }
+
+    sdk.pc.onconnectionstatechange = () => {
+      if (sdk.pc.connectionState === 'connected') {
+        setStatus('connected');
+        videoRef.current?.play().catch((error) => {
+          console.log(`Multiview[${stream.streamId}]: Autoplay blocked:`, error);
+        });
+      } else if (sdk.pc.connectionState === 'failed') {
+        setStatus('failed');
+      }
+    };
+
+    sdk.play(stream.url, { videoOnly: false, audioOnly: false }).catch((error) => {
+      if (closed) return;
+      console.error(`Multiview[${stream.streamId}]: WebRTC connection failed:`, error);
+      setStatus('failed');
+    });
+
+    return () => {
+      closed = true;
+      sdk.close();
+      if (videoRef.current) {
+        videoRef.current.srcObject = null;
+      }
+      setStatus('idle');
+    };
+  }, [isPlaying, streamType, stream.url, stream.streamId]);
+
+  // The video element is always muted in markup; audio follows the selected tile
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.muted = !hasAudio;
+    }
+  }, [hasAudio, status]);
+
+  return (
+    <div
+      className={cn(
+        "multiview-tile flex-1 relative bg-black overflow-hidden outline-none cursor-pointer",
+        "border-2 focus-visible:ring-4 focus-visible:ring-blue-500 focus-visible:z-10",
+        hasAudio ? "border-green-500" : "border-gray-900"
+      )}
+      tabIndex={0}
+      data-multiview-index={index}
+      onClick={onSelectAudio}
+      data-testid={`multiview-tile-${stream.streamId}`}
+    >
+      {!isPlaying ? (
+        <>
+          <img src={stream.thumbnail} alt="" className="w-full h-full object-cover opacity-50" />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-gray-300 text-sm bg-black/70 px-3 py-1 rounded" data-testid={`text-multiview-paused-${stream.streamId}`}>
+              Not playing - device limit reached
+            </span>
+          </div>
+        </>
+      ) : streamType === 'hls' ? (
+        <HLSPlayer
+          streamUrl={stream.url}
+          streamId={stream.streamId}
+          streamTitle={stream.title}
+          isMuted={!hasAudio}
+          onMutedChange={(muted) => {
+            if (!muted) onSelectAudio();
+          }}
+          className="w-full h-full rounded-none"
+        />
+      ) : (
+        <>
+          <video
+            ref={videoRef}
+            className="w-full h-full object-contain bg-black"
+            autoPlay
+            playsInline
+            muted
+            data-testid={`multiview-video-${stream.streamId}`}
+          />
+          {status === 'connecting' && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          )}
+          {status === 'failed' && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-center">
+              <AlertCircle className="w-8 h-8 text-red-500" />
+              <span className="text-gray-300 text-sm">Connection failed</span>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Label */}
+      <div className="absolute top-0 left-0 right-0 bg-gradient-to-b from-black/80 to-transparent px-3 py-2 flex items-center gap-2 pointer-events-none">
+        <span className="text-white text-sm font-medium truncate">{stream.title}</span>
+        <span className="text-gray-400 text-xs">#{stream.streamId}</span>
+        <span className="ml-auto">
+          {hasAudio ? <Volume2 className="w-4 h-4 text-green-400" /> : <VolumeX className="w-4 h-4 text-gray-500" />}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Multiview - several feeds side by side, either a 2x2 / 3x3 grid or a saved wall with larger tiles.
+ * Arrow keys move between tiles, OK/Enter gives the focused tile the audio, Back closes.
+ */
+export default function MultiviewModal({ isOpen, title, columns, rows, tiles, initialAudioKey, onClose }: MultiviewModalProps) {
+  const budget = PreviewManager.getInstance().getMultiviewBudget();
+  const [audioKey, setAudioKey] = useState<string | null>(
+    initialAudioKey !== undefined ? initialAudioKey : tiles.find(tile => tile.stream)?.key ?? null
+  );
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Only the first feeds within the device budget play; missing feeds do not use a slot
+  const playingKeys = new Set(tiles.filter(tile => tile.stream).slice(0, budget).map(tile => tile.key));
+  const feedCount = tiles.filter(tile => tile.stream).length;
+
+  // Exclusive playback - stop tile snapshots while the grid is running (same as StreamModal)
+  useEffect(() => {
+    if (!isOpen) return;
+    PreviewManager.getInstance().suspendAll();
+    return () => PreviewManager.getInstance().resumeSnapshots();
+  }, [isOpen]);
+
+  // Focus the first tile on open
+  useEffect(() => {
+    if (!isOpen) return;
+    const firstTile = modalRef.current?.querySelector('[data-multiview-index="0"]') as HTMLElement | null;
+    firstTile?.focus();
+  }, [isOpen]);
+
+  // Fire TV back button - consume the history entry instead of leaving the app
+  useEffect(() => {
+    if (!isOpen) return;
+
+    history.pushState({ multiview: true }, '');
+    const handlePopState = () => onClose();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [isOpen, onClose]);
+
+  // Block the Fire TV system exit; the modal's own handler closes it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleNativeKeyDown = (e: KeyboardEvent) => {
+      if (isBackKey(e)) e.preventDefault();
+    };
+    document.addEventListener('keydown', handleNativeKeyDown, { capture: true });
+    return () => document.removeEventListener('keydown', handleNativeKeyDown, { capture: true });
+  }, [isOpen]);
+
+  const focusTile = (index: number) => {
+    const tile = modalRef.current?.querySelector(`[data-multiview-index="${index}"]`) as HTMLElement | null;
+    tile?.focus();
+  };
+
+  const toggleAudio = useCallback((key: string) => {
+    setAudioKey(current => (current === key ? null : key));
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isBackKey(e)) {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+
+    const focused = (document.activeElement as HTMLElement | null)?.closest('[data-multiview-index]') as HTMLElement | null;
+    const index = focused ? Number(focused.dataset.multiviewIndex) : -1;
+    if (index === -1) return;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight':
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        e.preventDefault();
+        const next = findTileInDirection(tiles, index, e.key);
+        if (next !== -1) focusTile(next);
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        if (tiles[index].stream) toggleAudio(tiles[index].key);
+        break;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      ref={modalRef}
+      className="fixed inset-0 bg-black z-50 flex flex-col outline-none"
+      onKeyDownCapture={handleKeyDown}
+      tabIndex={-1}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Multiview"
+      data-testid="multiview-modal"
+    >
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-950">
+        <div className="flex items-center gap-3">
+          <span className="text-white font-medium">{title}</span>
+          <Badge variant="outline" className="text-gray-300">{columns}x{rows}</Badge>
+          {feedCount > budget && (
+            <span className="text-yellow-400 text-sm" data-testid="text-multiview-budget">
+              This device plays {budget} feeds at once
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-400">OK selects audio, Back to close</span>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onClose}
+            className="text-white hover:bg-white/20 focus-visible:ring-4 focus-visible:ring-primary"
+            data-testid="button-close-multiview"
+          >
+            <X className="w-6 h-6" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className="flex-1 grid gap-1 p-1 min-h-0"
+        style={{
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+        }}
+      >
+        {tiles.map((tile, index) => (
+          <div
+            key={tile.key}
+            className="min-w-0 min-h-0 flex"
+            style={{
+              gridColumn: `${tile.x + 1} / span ${tile.width}`,
+              gridRow: `${tile.y + 1} / span ${tile.height}`,
+            }}
+          >
+            {tile.stream ? (
+              <MultiviewTile
+                stream={tile.stream}
+                index={index}
+                isPlaying={playingKeys.has(tile.key)}
+                hasAudio={audioKey === tile.key}
+                onSelectAudio={() => toggleAudio(tile.key)}
+              />
+            ) : (
+              <div
+                className="multiview-tile flex-1 flex flex-col items-center justify-center gap-2 bg-gray-950 border-2 border-dashed border-gray-800 outline-none focus-visible:ring-4 focus-visible:ring-blue-500"
+                tabIndex={0}
+                data-multiview-index={index}
+                data-testid={`multiview-missing-${tile.key}`}
+              >
+                <AlertCircle className="w-8 h-8 text-yellow-500" />
+                <span className="text-gray-300 text-sm">Feed no longer available</span>
+                {tile.label && <span className="text-gray-500 text-xs">{tile.label}</span>}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
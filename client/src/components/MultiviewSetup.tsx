@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { Check, LayoutGrid, Play, Save } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import PreviewManager from '@/lib/PreviewManager';
+import { MULTIVIEW_LAYOUTS, type MultiviewLayout } from './MultiviewModal';
+import type { Stream } from '@shared/schema';
+
+interface MultiviewSetupProps {
+  streams: Stream[];
+  layout: MultiviewLayout;
+  selectedStreamIds: string[];
+  onLayoutChange: (layout: MultiviewLayout) => void;
+  onToggleStream: (streamId: string) => void;
+  onStart: () => void;
+  onSaveWall: (name: string) => void;
+  isSavingWall?: boolean;
+  className?: string;
+}
+
+const COLUMNS = 4;
+
+/**
+ * Multiview section - pick a layout and the feeds to put in it, in grid order
+ */
+export default function MultiviewSetup({
+  streams,
+  layout,
+  selectedStreamIds,
+  onLayoutChange,
+  onToggleStream,
+  onStart,
+  onSaveWall,
+  isSavingWall,
+  className,
+}: MultiviewSetupProps) {
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [wallName, setWallName] = useState('');
+  const { tiles } = MULTIVIEW_LAYOUTS[layout];
+  const budget = PreviewManager.getInstance().getMultiviewBudget();
+  const isFull = selectedStreamIds.length >= tiles;
+
+  const controls: { id: string; label: string; icon: typeof LayoutGrid; disabled?: boolean; active?: boolean; onSelect: () => void }[] = [
+    ...(Object.keys(MULTIVIEW_LAYOUTS) as MultiviewLayout[]).map(option => ({
+      id: `layout-${option}`,
+      label: option,
+      icon: LayoutGrid,
+      active: layout === option,
+      onSelect: () => onLayoutChange(option),
+    })),
+    {
+      id: 'start',
+      label: `Start Multiview (${Math.min(selectedStreamIds.length, tiles)}/${tiles})`,
+      icon: Play,
+      disabled: selectedStreamIds.length === 0,
+      onSelect: onStart,
+    },
+    {
+      id: 'save',
+      label: 'Save as Wall',
+      icon: Save,
+      disabled: selectedStreamIds.length === 0,
+      onSelect: () => setIsSaveOpen(true),
+    },
+  ];
+
+  const handleSaveWall = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wallName.trim()) return;
+    onSaveWall(wallName.trim());
+    setIsSaveOpen(false);
+    setWallName('');
+  };
+
+  const focusControl = (index: number) => {
+    (document.querySelector(`[data-multiview-control="${index}"]`) as HTMLElement | null)?.focus();
+  };
+
+  const focusStream = (index: number) => {
+    const tile = document.querySelector(`[data-multiview-pick="${index}"]`) as HTMLElement | null;
+    tile?.focus();
+    tile?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const focusNavigation = () => {
+    (document.querySelector('[data-active="true"]') as HTMLElement | null)?.focus();
+  };
+
+  const handleControlKeyDown = (e: React.KeyboardEvent, index: number) => {
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        if (index > 0) focusControl(index - 1);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (index < controls.length - 1) focusControl(index + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        focusNavigation();
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (streams.length > 0) focusStream(0);
+        break;
+    }
+  };
+
+  const handleStreamKeyDown = (e: React.KeyboardEvent, index: number) => {
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        if (index % COLUMNS > 0) focusStream(index - 1);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (index % COLUMNS < COLUMNS - 1 && index + 1 < streams.length) focusStream(index + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (index >= COLUMNS) {
+          focusStream(index - COLUMNS);
+        } else {
+          focusControl(0);
+        }
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (index + COLUMNS < streams.length) focusStream(index + COLUMNS);
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        onToggleStream(streams[index].streamId);
+        break;
+    }
+  };
+
+  return (
+    <div className={cn("relative w-full px-8", className)} data-testid="section-multiview">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-white font-semibold text-2xl">Multiview</h2>
+          <p className="text-gray-400 text-sm mt-1">
+            Choose up to {tiles} feeds to watch at once
+            {budget < tiles && ` - this device plays ${budget}, the rest show their thumbnail`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {controls.map((control, index) => {
+            const Icon = control.icon;
+            return (
+              <button
+                key={control.id}
+                type="button"
+                className={cn(
+                  "flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium outline-none transition-colors",
+                  "focus-visible:ring-4 focus-visible:ring-blue-500 disabled:opacity-50",
+                  control.active || control.id === 'start' ? "bg-primary text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                )}
+                disabled={control.disabled}
+                onClick={control.onSelect}
+                onKeyDown={(e) => handleControlKeyDown(e, index)}
+                data-multiview-control={index}
+                data-testid={`button-multiview-${control.id}`}
+              >
+                <Icon className="w-4 h-4" />
+                {control.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {streams.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-white/60 text-lg">No streams available</div>
+        </div>
+      ) : (
+        <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${COLUMNS}, minmax(0, 1fr))` }}>
+          {streams.map((stream, index) => {
+            const position = selectedStreamIds.indexOf(stream.streamId);
+            const isSelected = position !== -1;
+            return (
+              <div
+                key={stream.id}
+                className={cn(
+                  "stream-tile relative rounded-lg overflow-hidden cursor-pointer outline-none border-2",
+                  "focus-visible:ring-4 focus-visible:ring-blue-500",
+                  isSelected ? "border-primary" : "border-transparent",
+                  !isSelected && isFull && "opacity-50"
+                )}
+                tabIndex={0}
+                onClick={() => onToggleStream(stream.streamId)}
+                onKeyDown={(e) => handleStreamKeyDown(e, index)}
+                data-multiview-pick={index}
+                aria-pressed={isSelected}
+                data-testid={`multiview-pick-${stream.streamId}`}
+              >
+                <img src={stream.thumbnail} alt="" className="w-full aspect-video object-cover" />
+                <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent px-3 py-2">
+                  <div className="text-white text-sm font-medium truncate">{stream.title}</div>
+                  <div className="text-gray-400 text-xs font-mono">{stream.streamId}</div>
+                </div>
+                {isSelected && (
+                  <div className="absolute top-2 right-2 w-7 h-7 rounded-full bg-primary text-white text-sm font-bold flex items-center justify-center">
+                    {position < tiles ? position + 1 : <Check className="w-4 h-4" />}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Save the current picks as a personal wall */}
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <form onSubmit={handleSaveWall}>
+            <DialogHeader>
+              <DialogTitle>Save as Wall</DialogTitle>
+              <DialogDescription>
+                Keep this {layout} layout under Walls. The first feed starts with audio.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              className="my-4"
+              placeholder="e.g., Morning shows"
+              value={wallName}
+              onChange={(e) => setWallName(e.target.value)}
+              autoFocus
+              data-testid="input-wall-name"
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!wallName.trim() || isSavingWall} data-testid="button-confirm-save-wall">
+                {isSavingWall ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import type { PlaybackStats } from '@shared/schema';
+
+interface PlaybackStatsPanelProps {
+  stats: PlaybackStats | null;
+  streamType: 'webrtc' | 'hls';
+  sessionId: string | null;
+}
+
+const formatValue = (value: number | null, unit = '') => (value === null ? '—' : `${value}${unit}`);
+
+export function formatBitrate(kbps: number | null): string {
+  if (kbps === null) return '—';
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(2)} Mbps` : `${Math.round(kbps)} kbps`;
+}
+
+/**
+ * "Stats for nerds" overlay - toggled with the remote's Info key. The session id is what
+ * a viewer quotes in a ticket so an admin can look up the samples sent to the server.
+ */
+export default function PlaybackStatsPanel({ stats, streamType, sessionId }: PlaybackStatsPanelProps) {
+  const rows: Array<[string, string]> = [
+    ['Resolution', stats?.width && stats?.height ? `${stats.width}x${stats.height}` : '—'],
+    ['Frame rate', formatValue(stats?.fps ?? null, ' fps')],
+    ['Bitrate', formatBitrate(stats?.bitrateKbps ?? null)],
+  ];
+
+  if (streamType === 'webrtc') {
+    rows.push(
+      ['Packet loss', formatValue(stats?.packetLossPercent ?? null, '%')],
+      ['Jitter', formatValue(stats?.jitterMs ?? null, ' ms')],
+      ['Round trip', formatValue(stats?.rttMs ?? null, ' ms')],
+    );
+  } else {
+    rows.push(
+      ['Buffer', formatValue(stats?.bufferSeconds ?? null, ' s')],
+      ['Quality level', stats?.qualityLevel == null || stats.qualityLevel < 0 ? 'Auto' : String(stats.qualityLevel)],
+    );
+  }
+  rows.push(['Dropped frames', formatValue(stats?.droppedFrames ?? null)]);
+
+  return (
+    <div
+      className="absolute top-24 right-6 w-72 bg-black/85 border border-white/10 rounded-lg p-4 text-xs pointer-events-none"
+      data-testid="playback-stats-panel"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-white font-semibold text-sm">Playback Stats</span>
+        <span className="text-gray-400 uppercase">{streamType}</span>
+      </div>
+      <div className="grid grid-cols-1 gap-1">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-gray-400">{label}</span>
+            <span className="text-gray-100 font-mono">{value}</span>
+          </div>
+        ))}
+      </div>
+      {sessionId && (
+        <div className="mt-3 pt-3 border-t border-white/10">
+          <div className="text-gray-400 mb-1">Session ID</div>
+          <code className="text-gray-200 font-mono break-all" data-testid="text-stats-session-id">{sessionId}</code>
+        </div>
+      )}
+      {!stats && <div className="text-gray-500 mt-3">Waiting for the first sample...</div>}
+    </div>
+  );
+}
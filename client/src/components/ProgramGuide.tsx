@@ -0,0 +1,223 @@
+import { useMemo, useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { cn } from '@/lib/utils';
+import { apiRequest } from '@/lib/queryClient';
+import { formatProgramTime } from '@/hooks/use-programs';
+import type { Program, Stream } from '@shared/schema';
+
+interface ProgramGuideProps {
+  streams: Stream[];
+  onStreamSelect?: (streamId: string, url: string, lineup?: string[]) => void;
+  className?: string;
+}
+
+interface GuideCell {
+  key: string;
+  title: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  isPlaceholder: boolean;
+}
+
+const GUIDE_HOURS = 3;
+const SLOT_MINUTES = 30;
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+
+// Guide starts at the current half hour so "now" is always the first column
+const getWindowStart = () => Math.floor(Date.now() / SLOT_MS) * SLOT_MS;
+
+export default function ProgramGuide({ streams, onStreamSelect, className }: ProgramGuideProps) {
+  const [windowStart, setWindowStart] = useState(getWindowStart);
+  const [now, setNow] = useState(Date.now());
+  const windowEnd = windowStart + GUIDE_HOURS * 60 * 60 * 1000;
+
+  // Keep the "now" marker moving and roll the window forward every half hour
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      setWindowStart(getWindowStart());
+    }, 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const from = new Date(windowStart).toISOString();
+  const to = new Date(windowEnd).toISOString();
+
+  const { data: programs, isLoading } = useQuery<Program[]>({
+    queryKey: ['/api/programs', from, to],
+    queryFn: () => apiRequest(`/api/programs?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`),
+  });
+
+  const timeSlots = useMemo(() => {
+    const slots: number[] = [];
+    for (let t = windowStart; t < windowEnd; t += SLOT_MS) {
+      slots.push(t);
+    }
+    return slots;
+  }, [windowStart, windowEnd]);
+
+  // One row per channel; channels without guide data still get a selectable placeholder cell
+  const rows = useMemo(() => streams.map(stream => {
+    const streamPrograms = (programs || []).filter(p => p.streamId === stream.id);
+    const cells: GuideCell[] = streamPrograms.length > 0
+      ? streamPrograms.map(program => ({
+          key: program.id,
+          title: program.title,
+          description: program.description,
+          startTime: program.startTime,
+          endTime: program.endTime,
+          isPlaceholder: false,
+        }))
+      : [{
+          key: `${stream.id}-placeholder`,
+          title: 'No program information',
+          startTime: from,
+          endTime: to,
+          isPlaceholder: true,
+        }];
+    return { stream, cells };
+  }), [streams, programs, from, to]);
+
+  // Position a program inside the visible window as percentages of the timeline width
+  const getCellStyle = (cell: GuideCell) => {
+    const total = windowEnd - windowStart;
+    const start = Math.max(new Date(cell.startTime).getTime(), windowStart);
+    const end = Math.min(new Date(cell.endTime).getTime(), windowEnd);
+    return {
+      left: `${((start - windowStart) / total) * 100}%`,
+      width: `${(Math.max(end - start, 0) / total) * 100}%`,
+    };
+  };
+
+  const focusCell = (row: number, col: number) => {
+    const cell = document.querySelector(`[data-guide-row="${row}"][data-guide-col="${col}"]`) as HTMLElement;
+    if (cell) {
+      cell.focus();
+      cell.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }
+  };
+
+  // Moving between channels keeps roughly the same point in time
+  const findClosestCell = (rowIndex: number, time: number) => {
+    const cells = rows[rowIndex].cells;
+    const index = cells.findIndex(cell => new Date(cell.endTime).getTime() > time);
+    return index === -1 ? cells.length - 1 : index;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, rowIndex: number, colIndex: number) => {
+    const cell = rows[rowIndex].cells[colIndex];
+    const cellTime = Math.max(new Date(cell.startTime).getTime(), windowStart);
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        if (colIndex > 0) focusCell(rowIndex, colIndex - 1);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (colIndex < rows[rowIndex].cells.length - 1) focusCell(rowIndex, colIndex + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (rowIndex > 0) {
+          focusCell(rowIndex - 1, findClosestCell(rowIndex - 1, cellTime));
+        } else {
+          // Exit guide to top navigation
+          const activeNavButton = document.querySelector('[data-active="true"]') as HTMLElement;
+          activeNavButton?.focus();
+        }
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (rowIndex < rows.length - 1) {
+          focusCell(rowIndex + 1, findClosestCell(rowIndex + 1, cellTime));
+        }
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        onStreamSelect?.(rows[rowIndex].stream.streamId, rows[rowIndex].stream.url, streams.map(s => s.streamId));
+        break;
+    }
+  };
+
+  const nowOffset = ((now - windowStart) / (windowEnd - windowStart)) * 100;
+
+  return (
+    <div className={cn("relative w-full px-8", className)} data-testid="section-guide">
+      <h2 className="text-white font-semibold text-2xl mb-4">Guide</h2>
+
+      {/* Time header */}
+      <div className="flex border-b border-gray-800 pb-2 mb-2">
+        <div className="w-56 flex-shrink-0" />
+        <div className="relative flex-1 flex">
+          {timeSlots.map(slot => (
+            <div key={slot} className="flex-1 text-gray-400 text-sm" data-testid={`guide-slot-${slot}`}>
+              {formatProgramTime(new Date(slot).toISOString())}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-white text-lg">Loading guide...</div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(({ stream, cells }, rowIndex) => (
+            <div key={stream.id} className="flex items-stretch h-16" data-testid={`guide-row-${stream.streamId}`}>
+              {/* Channel */}
+              <div className="w-56 flex-shrink-0 flex items-center gap-3 pr-4">
+                <img src={stream.thumbnail} alt="" className="w-16 h-9 object-cover rounded" />
+                <div className="min-w-0">
+                  <div className="text-white text-sm font-medium truncate">{stream.title}</div>
+                  <div className="text-gray-500 text-xs font-mono">{stream.streamId}</div>
+                </div>
+              </div>
+
+              {/* Timeline */}
+              <div className="relative flex-1 bg-gray-900/60 rounded">
+                {nowOffset >= 0 && nowOffset <= 100 && (
+                  <div className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 pointer-events-none" style={{ left: `${nowOffset}%` }} />
+                )}
+                {cells.map((cell, colIndex) => {
+                  const isAiring = !cell.isPlaceholder &&
+                    new Date(cell.startTime).getTime() <= now && new Date(cell.endTime).getTime() > now;
+                  return (
+                    <div
+                      key={cell.key}
+                      className={cn(
+                        "stream-tile absolute top-0 bottom-0 px-3 py-2 border-r border-black overflow-hidden cursor-pointer outline-none",
+                        "focus-visible:ring-4 focus-visible:ring-blue-500 focus-visible:z-20 hover:bg-gray-700",
+                        cell.isPlaceholder ? "bg-gray-800/40" : isAiring ? "bg-blue-900/70" : "bg-gray-800"
+                      )}
+                      style={getCellStyle(cell)}
+                      tabIndex={rowIndex === 0 && colIndex === 0 ? 0 : -1}
+                      data-guide-row={rowIndex}
+                      data-guide-col={colIndex}
+                      onClick={() => onStreamSelect?.(stream.streamId, stream.url, streams.map(s => s.streamId))}
+                      onKeyDown={(e) => handleKeyDown(e, rowIndex, colIndex)}
+                      title={cell.description || cell.title}
+                      data-testid={`guide-cell-${cell.key}`}
+                    >
+                      <div className={cn("text-sm truncate", cell.isPlaceholder ? "text-gray-500" : "text-white")}>
+                        {cell.title}
+                      </div>
+                      {!cell.isPlaceholder && (
+                        <div className="text-xs text-gray-400 truncate">
+                          {formatProgramTime(cell.startTime)} - {formatProgramTime(cell.endTime)}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { Images } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useSnapshotHistory } from '@/hooks/use-snapshot-history';
+import type { Stream } from '@shared/schema';
+
+interface SnapshotHistoryDialogProps {
+  stream: Stream | null;
+  onClose: () => void;
+}
+
+// Frames are at least 30s apart, so the minute is enough to tell them apart in a row
+const formatTakenAt = (isoTime: string) =>
+  new Date(isoTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Contact sheet of a stream's archived snapshots, oldest to newest like a timeline
+ */
+export default function SnapshotHistoryDialog({ stream, onClose }: SnapshotHistoryDialogProps) {
+  const { data: history, isLoading, error } = useSnapshotHistory(stream?.id);
+  const snapshots = history ? [...history.snapshots].reverse() : [];
+
+  return (
+    <Dialog open={!!stream} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Snapshot History - {stream?.title}</DialogTitle>
+          <DialogDescription>
+            {history?.enabled
+              ? `One frame every ${history.intervalSeconds >= 60 ? `${history.intervalSeconds / 60} min` : `${history.intervalSeconds}s`}, last ${history.maxCount} kept. Frames are only taken while the feed's tile is on someone's screen, so quiet periods show as gaps.`
+              : 'A rolling archive of snapshots for each stream.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8" data-testid="text-loading-snapshot-history">Loading snapshots...</div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-400" data-testid="text-error-snapshot-history">
+            Failed to load snapshots: {(error as any).message || 'Unknown error'}
+          </div>
+        ) : !history?.enabled ? (
+          <div className="text-center py-8 text-muted-foreground" data-testid="text-snapshot-history-disabled">
+            Snapshot history is turned off. Set SNAPSHOT_HISTORY_COUNT on the server to keep past snapshots.
+          </div>
+        ) : snapshots.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Images className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            No snapshots archived yet
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 lg:grid-cols-6 gap-2 max-h-[70vh] overflow-auto" data-testid="snapshot-contact-sheet">
+            {snapshots.map(snapshot => (
+              <a
+                key={snapshot.url}
+                href={snapshot.url}
+                target="_blank"
+                rel="noreferrer"
+                className="group block rounded overflow-hidden border hover:border-primary"
+                title={new Date(snapshot.takenAt).toLocaleString()}
+              >
+                <img src={snapshot.url} alt="" loading="lazy" className="w-full aspect-video object-cover bg-muted" />
+                <div className="text-xs text-center py-1 font-mono text-muted-foreground group-hover:text-foreground">
+                  {formatTakenAt(snapshot.takenAt)}
+                </div>
+              </a>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
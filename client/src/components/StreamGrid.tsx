@@ -13,7 +13,7 @@ interface StreamData {
 interface StreamGridProps {
   title: string;
   streams: StreamData[];
-  onStreamSelect?: (streamId: string, url: string) => void;
+  onStreamSelect?: (streamId: string, url: string, lineup?: string[]) => void;
   className?: string;
   sectionId: string;
 }
@@ -128,7 +128,7 @@ export default function StreamGrid({
                     variant="poster"
                     textPosition="below"
                     tabIndex={isActive ? 0 : -1}
-                    onSelect={() => onStreamSelect?.(stream.streamId, stream.url)}
+                    onSelect={() => onStreamSelect?.(stream.streamId, stream.url, streams.map(s => s.streamId))}
                     className="w-[220px] flex-shrink-0"
                   />
                 );
@@ -1,10 +1,29 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { X, Volume2, VolumeX, Maximize, Minimize, AlertCircle, Wifi } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { X, Volume2, VolumeX, Maximize, Minimize, AlertCircle, Wifi, ChevronUp, ChevronDown, PictureInPicture2, Maximize2, Scissors } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
 import PreviewManager from '@/lib/PreviewManager';
 import HLSPlayer from '@/components/HLSPlayer';
+import PlaybackStatsPanel from '@/components/PlaybackStatsPanel';
+import { createWebRTCStatsSampler, STATS_SAMPLE_INTERVAL_MS } from '@/lib/playbackStats';
+import { useNowNext, formatProgramTime } from '@/hooks/use-programs';
+import { useRecordWatch } from '@/hooks/use-watch-history';
+import { usePlaybackAnalytics } from '@/hooks/use-playback-analytics';
+import { useViewerSession } from '@/hooks/use-viewer-counts';
+import { useAuth } from '@/hooks/use-auth';
+import { useCreateClip } from '@/hooks/use-clips';
+import { buildPlaybackSources, describePlaybackSource } from '@/hooks/use-stream-sources';
+import { PRIMARY_SOURCE_LABEL, type PlaybackStats, type StreamSource } from '@shared/schema';
+
+// How long WebRTC gets to connect before falling back to HLS
+const WEBRTC_CONNECT_TIMEOUT_MS = 10000;
+// HLS retries on a source before failing over, when there is somewhere to fail over to
+const HLS_FAILOVER_RETRIES = 2;
+const NO_SOURCES: StreamSource[] = [];
+// Clip lengths offered to admins, in seconds
+const CLIP_DURATIONS = [30, 60, 120, 300];
 
 // Declare global SRS SDK types
 declare global {
@@ -23,6 +42,15 @@ interface StreamModalProps {
   streamUrl: string;
   streamTitle: string;
   streamType?: 'webrtc' | 'hls';
+  channelNumber?: number | null;
+  fallbackUrl?: string | null; // explicit HLS fallback; WHEP streams derive one otherwise
+  dvrWindowSeconds?: number; // rewind window for HLS playback, 0 for live only
+  sources?: StreamSource[]; // backup sources, tried in order once the primary fails
+  channelPosition?: { index: number; total: number };
+  onChannelChange?: (direction: 1 | -1) => void;
+  isMinimized?: boolean; // mini player in the corner while browsing - playback keeps running
+  onMinimize?: () => void;
+  onExpand?: () => void;
   onClose: () => void;
 }
 
@@ -45,6 +73,15 @@ export default function StreamModal({
   streamUrl, 
   streamTitle, 
   streamType,
+  channelNumber,
+  fallbackUrl,
+  dvrWindowSeconds = 0,
+  sources = NO_SOURCES,
+  channelPosition,
+  onChannelChange,
+  isMinimized = false,
+  onMinimize,
+  onExpand,
   onClose 
 }: StreamModalProps) {
   const [isLoading, setIsLoading] = useState(false);
@@ -63,13 +100,37 @@ export default function StreamModal({
   const [isSDKLoaded, setIsSDKLoaded] = useState(false);
   const [sdkLoadError, setSDKLoadError] = useState<string | null>(null);
   const [isClosing, setIsClosing] = useState(false);
-  const [detectedStreamType, setDetectedStreamType] = useState<'webrtc' | 'hls'>('webrtc');
+  const [showChannelBanner, setShowChannelBanner] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [stats, setStats] = useState<PlaybackStats | null>(null);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  // Failover can be triggered from player callbacks before the next render - read the index from here
+  const sourceIndexRef = useRef(0);
+  sourceIndexRef.current = sourceIndex;
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
   const srsPlayerRef = useRef<any>(null);
   const previouslyFocusedElement = useRef<HTMLElement | null>(null);
+  const bannerTimeoutRef = useRef<NodeJS.Timeout>();
+  const connectTimeoutRef = useRef<NodeJS.Timeout>();
+  // Set while switching channels so the teardown keeps previews suspended
+  const isChangingChannelRef = useRef(false);
+
+  // Program guide - Now / Next overlay
+  const { data: nowNext } = useNowNext();
+  const currentPrograms = nowNext?.[streamId];
+
+  // Watch history - one entry per open, with its duration once closed
+  useRecordWatch(streamId, isOpen);
+
+  // Live "N watching" counts
+  useViewerSession(streamId, isOpen);
+
+  // Admins can clip the last moments of the stream
+  const { user } = useAuth();
+  const createClipMutation = useCreateClip();
 
   // Stream type detection logic
   const detectStreamType = useCallback((url: string): 'webrtc' | 'hls' => {
@@ -86,15 +147,65 @@ export default function StreamModal({
     return 'webrtc';
   }, []);
 
-  // Update detected stream type when URL changes
+  // Use provided streamType or fall back to detected type. Detected during render,
+  // so a channel change never runs the previous stream's player against the new URL
+  const finalStreamType = streamType || detectStreamType(streamUrl);
+
+  useEffect(() => {
+    console.log(`StreamModal[${streamId}]: Detected stream type: ${finalStreamType} for URL: ${streamUrl}`);
+  }, [streamUrl, streamId, finalStreamType]);
+
+  // Failover list - the primary, its HLS fallback for when ICE fails or never connects (UDP blocked),
+  // then the backup sources. Match the page's scheme so fallbacks are not blocked as mixed content
+  const playbackSources = useMemo(() => buildPlaybackSources(
+    { url: streamUrl, streamType: finalStreamType, fallbackUrl },
+    sources,
+    streamId,
+    window.location.protocol === 'https:' ? 'https' : 'http',
+  ), [streamUrl, finalStreamType, fallbackUrl, sources, streamId]);
+  const currentSource = playbackSources[Math.min(sourceIndex, playbackSources.length - 1)];
+  const playbackType = currentSource.streamType;
+  const playbackUrl = currentSource.url;
+  const hasNextSource = sourceIndex < playbackSources.length - 1;
+
+  // Every stream (and every reopen) starts again from the primary
   useEffect(() => {
-    const detected = detectStreamType(streamUrl);
-    setDetectedStreamType(detected);
-    console.log(`StreamModal[${streamId}]: Detected stream type: ${detected} for URL: ${streamUrl}`);
-  }, [streamUrl, streamId, detectStreamType]);
+    setSourceIndex(0);
+  }, [streamUrl, isOpen]);
 
-  // Use provided streamType or fall back to detected type
-  const finalStreamType = streamType || detectedStreamType;
+  // Viewer analytics
+  const sessionId = usePlaybackAnalytics({
+    streamId,
+    streamType: finalStreamType,
+    isOpen,
+    error: connectionError,
+    stats,
+    source: connectionStatus === 'connected'
+      ? { streamType: playbackType, label: describePlaybackSource(currentSource) }
+      : null,
+  });
+
+  // Stats belong to the stream and transport they were measured on
+  useEffect(() => {
+    setStats(null);
+  }, [playbackUrl]);
+
+  // WebRTC stats - HLSPlayer samples its own and reports them through onStats
+  useEffect(() => {
+    const pc: RTCPeerConnection | undefined = srsPlayerRef.current?.pc;
+    if (!isOpen || playbackType !== 'webrtc' || connectionStatus !== 'connected' || !pc) return;
+
+    const sample = createWebRTCStatsSampler(pc);
+    const report = () => {
+      sample()
+        .then(setStats)
+        .catch((error) => console.warn(`StreamModal[${streamId}]: Failed to read WebRTC stats:`, error));
+    };
+    report();
+    const statsTimer = setInterval(report, STATS_SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(statsTimer);
+  }, [isOpen, playbackType, connectionStatus, playbackUrl, streamId]);
 
   // Robust multi-frame focus restoration with retry logic
   const restoreFocus = () => {
@@ -217,13 +328,18 @@ export default function StreamModal({
 
   // SRS WebRTC connection management - only for WebRTC streams
   useEffect(() => {
-    // CRITICAL: Only handle WebRTC streams, completely skip HLS streams
-    if (finalStreamType !== 'webrtc') {
-      console.log(`StreamModal[${streamId}]: Stream type is ${finalStreamType}, skipping all WebRTC logic`);
+    // CRITICAL: Only handle WebRTC streams, completely skip HLS streams (and WebRTC streams on their HLS fallback)
+    if (playbackType !== 'webrtc') {
+      console.log(`StreamModal[${streamId}]: Stream type is ${playbackType}, skipping all WebRTC logic`);
+      // Switched channels away from WebRTC - the previews it suspended can come back
+      if (isChangingChannelRef.current) {
+        isChangingChannelRef.current = false;
+        PreviewManager.getInstance().resumeSnapshots();
+      }
       return;
     }
 
-    if (isOpen && streamUrl && isSDKLoaded) {
+    if (isOpen && playbackUrl && isSDKLoaded) {
       console.log(`StreamModal[${streamId}]: Initiating WebRTC connection for WebRTC stream`);
       connectToWebRTCStream();
     } else {
@@ -236,7 +352,7 @@ export default function StreamModal({
       console.log(`StreamModal[${streamId}]: Cleanup - disconnecting WebRTC stream`);
       disconnectStream();
     };
-  }, [isOpen, streamUrl, isSDKLoaded, finalStreamType, streamId]);
+  }, [isOpen, playbackUrl, isSDKLoaded, playbackType, streamId]);
 
   // Clean up controls timeout on unmount
   useEffect(() => {
@@ -244,6 +360,9 @@ export default function StreamModal({
       if (controlsTimeoutRef.current) {
         clearTimeout(controlsTimeoutRef.current);
       }
+      if (bannerTimeoutRef.current) {
+        clearTimeout(bannerTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -318,6 +437,26 @@ export default function StreamModal({
     };
   };
 
+  // Move on to the next source when this one cannot play; false when there is none left
+  const failOver = (reason: string): boolean => {
+    const lastIndex = playbackSources.length - 1;
+    const index = Math.min(sourceIndexRef.current, lastIndex);
+    if (index >= lastIndex) return false;
+
+    const nextIndex = index + 1;
+    const next = playbackSources[nextIndex];
+    console.warn(`StreamModal[${streamId}]: ${describePlaybackSource(playbackSources[index])} ${reason}, failing over to ${describePlaybackSource(next)}: ${next.url}`);
+    if (connectTimeoutRef.current) {
+      clearTimeout(connectTimeoutRef.current);
+      connectTimeoutRef.current = undefined;
+    }
+    setConnectionError(null);
+    setDetailedError(null);
+    sourceIndexRef.current = nextIndex;
+    setSourceIndex(i => Math.min(i + 1, lastIndex));
+    return true;
+  };
+
   const connectToWebRTCStream = async () => {
     try {
       setIsLoading(true);
@@ -325,6 +464,7 @@ export default function StreamModal({
       setDetailedError(null);
       setConnectionStatus('connecting');
       setIsConnected(false);
+      isChangingChannelRef.current = false;
       
       // CRITICAL: Suspend all preview activity for exclusive playback mode (prevents Firestick crashes)
       console.log('StreamModal: Suspending all preview activity for exclusive playback mode');
@@ -337,11 +477,11 @@ export default function StreamModal({
         iceGatheringState: 'new'
       });
       
-      console.log(`Connecting to stream: ${streamUrl}`);
+      console.log(`Connecting to stream: ${playbackUrl}`);
       console.log('Connection state before:', connectionState);
       
       // Basic URL validation - allow HTTP, HTTPS, and WebRTC URLs
-      if (!streamUrl.match(/^(https?|webrtc):\/\/.+/)) {
+      if (!playbackUrl.match(/^(https?|webrtc):\/\/.+/)) {
         throw new Error('Invalid stream URL format. Supported: http://, https://, or webrtc://');
       }
 
@@ -352,6 +492,16 @@ export default function StreamModal({
 
       const sdk = SrsRtcWhipWhepAsync();
       srsPlayerRef.current = sdk;
+
+      // ICE that never completes (UDP silently dropped) never reports failed, so give up after a while
+      if (connectTimeoutRef.current) {
+        clearTimeout(connectTimeoutRef.current);
+      }
+      connectTimeoutRef.current = setTimeout(() => {
+        if (srsPlayerRef.current === sdk && sdk.pc?.connectionState !== 'connected') {
+          failOver(`did not connect within ${WEBRTC_CONNECT_TIMEOUT_MS / 1000}s`);
+        }
+      }, WEBRTC_CONNECT_TIMEOUT_MS);
       
       // Set video source to the SDK stream
       if (videoRef.current) {
@@ -365,6 +515,10 @@ export default function StreamModal({
           console.log('ICE connection state changed:', iceState);
           setConnectionState(prev => ({ ...prev, iceConnectionState: iceState }));
           
+          if (iceState === 'failed' && failOver('ICE failed')) {
+            return;
+          }
+
           if (iceState === 'failed' || iceState === 'disconnected') {
             console.error('ICE connection failed/disconnected');
             setDetailedError({
@@ -384,6 +538,10 @@ export default function StreamModal({
           console.log('Peer connection state changed:', connState);
           setConnectionState(prev => ({ ...prev, connectionState: connState }));
           
+          if (connState === 'failed' && failOver('peer connection failed')) {
+            return;
+          }
+
           if (connState === 'failed') {
             console.error('Peer connection failed');
             setDetailedError({
@@ -395,6 +553,10 @@ export default function StreamModal({
             setConnectionStatus('failed');
           } else if (connState === 'connected') {
             console.log('Peer connection established successfully');
+            if (connectTimeoutRef.current) {
+              clearTimeout(connectTimeoutRef.current);
+              connectTimeoutRef.current = undefined;
+            }
             setIsConnected(true);
             setConnectionStatus('connected');
             
@@ -435,7 +597,7 @@ export default function StreamModal({
 
       // Connect to the WebRTC stream with enhanced error handling
       console.log('Initiating WebRTC connection...');
-      const session = await sdk.play(streamUrl, {
+      const session = await sdk.play(playbackUrl, {
         videoOnly: false,
         audioOnly: false
       });
@@ -447,6 +609,10 @@ export default function StreamModal({
     } catch (error) {
       console.error('WebRTC connection failed:', error);
       console.log('Error details:', { error, connectionState });
+
+      if (failOver('connection failed')) {
+        return;
+      }
       
       // CRITICAL: Resume preview activity if connection fails (restore Firestick stability)
       console.log('StreamModal: Resuming preview activity after connection failure');
@@ -462,6 +628,11 @@ export default function StreamModal({
   };
 
   const disconnectStream = () => {
+    if (connectTimeoutRef.current) {
+      clearTimeout(connectTimeoutRef.current);
+      connectTimeoutRef.current = undefined;
+    }
+
     if (srsPlayerRef.current) {
       console.log('Disconnecting WebRTC stream');
       srsPlayerRef.current.close();
@@ -478,8 +649,11 @@ export default function StreamModal({
     }
     
     // CRITICAL: Resume preview activity after exclusive playback ends (restore Firestick stability)
-    console.log('StreamModal: Resuming preview activity after exclusive playback ended');
-    PreviewManager.getInstance().resumeSnapshots();
+    // A channel change goes straight to the next stream, so previews stay suspended
+    if (!isChangingChannelRef.current) {
+      console.log('StreamModal: Resuming preview activity after exclusive playback ended');
+      PreviewManager.getInstance().resumeSnapshots();
+    }
     
     setIsLoading(false);
     setIsConnected(false);
@@ -494,7 +668,10 @@ export default function StreamModal({
   };
 
   const retryConnection = () => {
-    if (streamUrl && finalStreamType === 'webrtc') {
+    if (sourceIndex > 0) {
+      // Start over from the primary - it fails over again if it is still down
+      setSourceIndex(0);
+    } else if (streamUrl && playbackType === 'webrtc') {
       connectToWebRTCStream();
     }
   };
@@ -602,7 +779,7 @@ export default function StreamModal({
 
   // Fire TV history management - push dummy state to consume back press
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || isMinimized) return;
 
     // Push dummy history state when modal opens
     history.pushState({ modal: true }, '');
@@ -621,11 +798,11 @@ export default function StreamModal({
     return () => {
       window.removeEventListener('popstate', handlePopState);
     };
-  }, [isOpen, isClosing, handleModalClose]);
+  }, [isOpen, isMinimized, isClosing, handleModalClose]);
 
   // Fire TV native key prevention - capture phase, preventDefault only
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || isMinimized) return;
     
     const handleNativeKeyDown = (e: KeyboardEvent) => {
       const isBackButton = 
@@ -646,12 +823,17 @@ export default function StreamModal({
 
     document.addEventListener('keydown', handleNativeKeyDown, { capture: true });
     return () => document.removeEventListener('keydown', handleNativeKeyDown, { capture: true });
-  }, [isOpen]);
+  }, [isOpen, isMinimized]);
 
   // Simplified keyboard handling - scoped to modal, no global interference
   const handleModalKeyDown = (e: React.KeyboardEvent) => {
     console.log('StreamModal: Key pressed:', e.key, e.keyCode, e.code);
-    
+
+    // An open player menu (quality, audio, captions) owns the keys - Back closes the menu, not the player
+    if ((e.target as HTMLElement).closest?.('[role="listbox"]')) {
+      return;
+    }
+
     // Handle multiple Fire TV back button variations
     const isBackButton = 
       e.key === 'Escape' ||
@@ -670,6 +852,17 @@ export default function StreamModal({
       return;
     }
 
+    // Channel up/down - remote channel keys always, arrows only while the controls are hidden
+    const isChannelUp = e.key === 'ChannelUp' || e.key === 'PageUp' || (e.key === 'ArrowUp' && !showControls);
+    const isChannelDown = e.key === 'ChannelDown' || e.key === 'PageDown' || (e.key === 'ArrowDown' && !showControls);
+
+    if (onChannelChange && (isChannelUp || isChannelDown)) {
+      e.preventDefault();
+      e.stopPropagation();
+      changeChannel(isChannelUp ? 1 : -1);
+      return;
+    }
+
     // Only preventDefault for keys we actually handle
     switch (e.key) {
       case 'f':
@@ -690,6 +883,19 @@ export default function StreamModal({
           retryConnection();
         }
         break;
+      case 'p':
+      case 'P':
+        if (onMinimize) {
+          e.preventDefault();
+          handleMinimize();
+        }
+        break;
+      case 'Info':
+      case 'i':
+      case 'I':
+        e.preventDefault();
+        setShowStats(prev => !prev);
+        break;
       // Let arrow keys and other keys pass through normally - no preventDefault
     }
   };
@@ -714,7 +920,7 @@ export default function StreamModal({
 
   const toggleMute = () => {
     const newMutedState = !isMuted;
-    if (finalStreamType === 'hls') {
+    if (playbackType === 'hls') {
       // HLS player handles mute state internally via onMutedChange callback
       setIsMuted(newMutedState);
     } else if (videoRef.current) {
@@ -749,27 +955,104 @@ export default function StreamModal({
     }, 3000);
   };
 
+  // Shrink to the mini player - the connection stays up, focus goes back to the rows
+  const handleMinimize = () => {
+    if (!onMinimize) return;
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(err => {
+        console.error('Failed to exit fullscreen:', err);
+      });
+    }
+    onMinimize();
+    restoreFocus();
+  };
+
+  // Mini player keys work from anywhere, since focus stays with the rows:
+  // P / Play-Pause expands, X / Stop closes
+  useEffect(() => {
+    if (!isOpen || !isMinimized) return;
+
+    const handleMiniPlayerKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      if (e.key === 'p' || e.key === 'P' || e.key === 'MediaPlayPause') {
+        e.preventDefault();
+        onExpand?.();
+      } else if (e.key === 'x' || e.key === 'X' || e.key === 'MediaStop') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleMiniPlayerKeyDown);
+    return () => window.removeEventListener('keydown', handleMiniPlayerKeyDown);
+  }, [isOpen, isMinimized, onExpand, onClose]);
+
+  // Back to full screen - remember where browsing left off and take focus so the player keys work again
+  useEffect(() => {
+    const modal = modalRef.current;
+    if (!isOpen || isMinimized || !modal) return;
+
+    if (!modal.contains(document.activeElement)) {
+      previouslyFocusedElement.current = document.activeElement as HTMLElement;
+    }
+    modal.focus();
+  }, [isOpen, isMinimized]);
+
+  const changeChannel = (direction: 1 | -1) => {
+    if (!onChannelChange) return;
+    console.log(`StreamModal[${streamId}]: Channel ${direction > 0 ? 'up' : 'down'}`);
+    isChangingChannelRef.current = true;
+    onChannelChange(direction);
+  };
+
+  // Hide the controls a few seconds after opening so the arrow keys can zap on a remote
+  useEffect(() => {
+    if (isOpen) {
+      handleMouseMove();
+    }
+  }, [isOpen]);
+
+  // Channel banner - shown briefly whenever the stream changes while the player is open
+  useEffect(() => {
+    if (!isOpen || (!channelPosition && !channelNumber)) return;
+
+    setShowChannelBanner(true);
+    if (bannerTimeoutRef.current) {
+      clearTimeout(bannerTimeoutRef.current);
+    }
+    bannerTimeoutRef.current = setTimeout(() => {
+      setShowChannelBanner(false);
+    }, 3000);
+  }, [isOpen, streamId]);
+
   if (!isOpen) return null;
 
   return (
     <div 
       ref={modalRef}
-      className="fixed inset-0 bg-black z-50 flex items-center justify-center outline-none"
-      onClick={(e) => e.target === e.currentTarget && handleModalClose()}
-      onMouseMove={handleMouseMove}
-      onKeyDownCapture={handleModalKeyDown}
-      tabIndex={-1}
-      role="dialog"
-      aria-modal="true"
+      className={cn(
+        "fixed bg-black flex items-center justify-center outline-none",
+        isMinimized
+          ? "bottom-6 right-6 w-80 aspect-video z-40 rounded-lg overflow-hidden border border-white/20 shadow-2xl"
+          : "inset-0 z-50"
+      )}
+      onClick={(e) => !isMinimized && e.target === e.currentTarget && handleModalClose()}
+      onMouseMove={isMinimized ? undefined : handleMouseMove}
+      onKeyDownCapture={isMinimized ? undefined : handleModalKeyDown}
+      tabIndex={isMinimized ? undefined : -1}
+      role={isMinimized ? 'region' : 'dialog'}
+      aria-modal={isMinimized ? undefined : 'true'}
       aria-label={`Streaming ${streamTitle}`}
-      data-testid="stream-modal"
+      data-testid={isMinimized ? 'mini-player' : 'stream-modal'}
     >
       {/* Video Container */}
       <div className="relative w-full h-full flex items-center justify-center">
         {/* Conditional Player Rendering */}
-        {finalStreamType === 'hls' ? (
+        {playbackType === 'hls' ? (
           <HLSPlayer
-            streamUrl={streamUrl}
+            streamUrl={playbackUrl}
             streamId={streamId}
             streamTitle={streamTitle}
             isMuted={isMuted}
@@ -790,6 +1073,11 @@ export default function StreamModal({
               setConnectionStatus('connected');
               setIsConnected(true);
             }}
+            onStats={setStats}
+            maxRetries={hasNextSource ? HLS_FAILOVER_RETRIES : undefined}
+            onRetriesExhausted={() => failOver('kept failing')}
+            dvrWindowSeconds={dvrWindowSeconds}
+            mediaKeys={!isMinimized}
             className={cn(
               "w-full h-full",
               isConnected ? "block" : "hidden"
@@ -811,19 +1099,24 @@ export default function StreamModal({
         )}
 
         {/* Loading State */}
-        {isLoading && (
+        {isLoading && isMinimized && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+        {isLoading && !isMinimized && (
           <div className="flex flex-col items-center gap-4">
             <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
             <p className="text-white text-lg">Connecting to stream...</p>
             <div className="flex items-center gap-2 text-gray-400 text-sm">
               <Wifi className="w-4 h-4" />
-              <span>{streamUrl}</span>
+              <span>{playbackUrl}</span>
             </div>
           </div>
         )}
 
         {/* SDK Loading Error */}
-        {sdkLoadError && (
+        {sdkLoadError && !isMinimized && (
           <div className="flex flex-col items-center gap-4 text-center max-w-md">
             <AlertCircle className="w-16 h-16 text-yellow-500" />
             <h3 className="text-white text-xl font-bold">SDK Loading Error</h3>
@@ -839,7 +1132,7 @@ export default function StreamModal({
         )}
 
         {/* Enhanced Connection Error State */}
-        {connectionError && connectionStatus === 'failed' && !sdkLoadError && (
+        {connectionError && connectionStatus === 'failed' && !sdkLoadError && !isMinimized && (
           <div className="flex flex-col items-center gap-6 text-center max-w-2xl">
             <AlertCircle className="w-16 h-16 text-red-500" />
             <div className="space-y-2">
@@ -869,7 +1162,7 @@ export default function StreamModal({
               <div className="grid grid-cols-1 gap-2 text-xs">
                 <div className="flex justify-between">
                   <span className="text-gray-400">Stream URL:</span>
-                  <code className="text-gray-300 bg-gray-800 px-1 rounded break-all text-right max-w-xs">{streamUrl}</code>
+                  <code className="text-gray-300 bg-gray-800 px-1 rounded break-all text-right max-w-xs">{playbackUrl}</code>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-400">ICE State:</span>
@@ -938,7 +1231,8 @@ export default function StreamModal({
         <div 
           className={cn(
             "absolute inset-0 transition-opacity duration-300 pointer-events-none",
-            showControls || isLoading || connectionError ? "opacity-100" : "opacity-0"
+            showControls || isLoading || connectionError ? "opacity-100" : "opacity-0",
+            isMinimized && "hidden"
           )}
         >
           {/* Top Controls */}
@@ -963,20 +1257,86 @@ export default function StreamModal({
                     FAILED
                   </Badge>
                 )}
+                <Badge
+                  variant="outline"
+                  className={cn("text-white", sourceIndex > 0 ? "border-yellow-500" : "border-white/40")}
+                  title={sourceIndex > 0 ? `Playing ${describePlaybackSource(currentSource)} - earlier sources failed` : undefined}
+                  data-testid="badge-transport"
+                >
+                  {playbackType === 'hls' ? 'HLS' : 'WebRTC'}
+                  {currentSource.label !== PRIMARY_SOURCE_LABEL && ` · ${currentSource.label}`}
+                  {currentSource.isFallback && ' · FALLBACK'}
+                </Badge>
                 <span className="text-white font-medium">{streamTitle}</span>
                 <span className="text-gray-400">#{streamId}</span>
               </div>
               
-              <Button
-                size="icon"
-                variant="ghost"
-                onClick={handleModalClose}
-                className="text-white hover:bg-white/20 pointer-events-auto focus-visible:ring-4 focus-visible:ring-primary"
-                data-testid="button-close-modal"
-              >
-                <X className="w-6 h-6" />
-              </Button>
+              <div className="flex items-center gap-2">
+                {user?.role === 'admin' && (
+                  <Select
+                    value=""
+                    onValueChange={(value) => createClipMutation.mutate({ streamId, durationSeconds: Number(value) })}
+                    disabled={createClipMutation.isPending}
+                  >
+                    <SelectTrigger
+                      className="w-28 h-9 text-xs bg-black/50 border-white/20 text-white hover:bg-white/20 pointer-events-auto"
+                      aria-label="Clip the last moments"
+                      data-testid="select-create-clip"
+                    >
+                      <Scissors className="w-4 h-4 mr-1 flex-shrink-0" />
+                      <SelectValue placeholder="Clip" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-black/90 border-white/20">
+                      {CLIP_DURATIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)} className="text-white hover:bg-white/20">
+                          Last {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {onMinimize && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={handleMinimize}
+                    className="text-white hover:bg-white/20 pointer-events-auto focus-visible:ring-4 focus-visible:ring-primary"
+                    data-testid="button-minimize-modal"
+                  >
+                    <PictureInPicture2 className="w-6 h-6" />
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={handleModalClose}
+                  className="text-white hover:bg-white/20 pointer-events-auto focus-visible:ring-4 focus-visible:ring-primary"
+                  data-testid="button-close-modal"
+                >
+                  <X className="w-6 h-6" />
+                </Button>
+              </div>
             </div>
+
+            {/* Now / Next from the program guide */}
+            {currentPrograms && (
+              <div className="mt-3 flex flex-col gap-1 text-sm" data-testid="stream-now-next">
+                {currentPrograms.now && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-red-400">Now</span>
+                    <span className="text-white">{currentPrograms.now.title}</span>
+                    <span className="text-gray-400">until {formatProgramTime(currentPrograms.now.endTime)}</span>
+                  </div>
+                )}
+                {currentPrograms.next && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">Next</span>
+                    <span className="text-gray-200">{currentPrograms.next.title}</span>
+                    <span className="text-gray-400">at {formatProgramTime(currentPrograms.next.startTime)}</span>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Bottom Controls */}
@@ -1004,7 +1364,9 @@ export default function StreamModal({
                   {connectionError ? (
                     <span className="text-sm text-gray-300">Press R to retry, ESC to close</span>
                   ) : (
-                    <span className="text-sm text-gray-300">Press ESC to close, F for fullscreen, M to mute</span>
+                    <span className="text-sm text-gray-300">
+                      Press ESC to close, F for fullscreen, M to mute, I for stats{onMinimize && ', P for mini player'}{onChannelChange && ', CH+/CH- to change channel'}
+                    </span>
                   )}
                   
                   <Button
@@ -1021,6 +1383,68 @@ export default function StreamModal({
             </div>
           )}
         </div>
+
+        {/* Mini player bar */}
+        {isMinimized && (
+          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent px-3 py-2 flex items-center gap-2">
+            {connectionStatus === 'failed' && <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+            <span className="text-white text-sm font-medium truncate">{streamTitle}</span>
+            <span className="text-gray-400 text-xs flex-shrink-0">P to expand</span>
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                size="icon"
+                variant="ghost"
+                tabIndex={-1}
+                onClick={onExpand}
+                className="h-7 w-7 text-white hover:bg-white/20"
+                data-testid="button-expand-mini-player"
+              >
+                <Maximize2 className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                tabIndex={-1}
+                onClick={onClose}
+                className="h-7 w-7 text-white hover:bg-white/20"
+                data-testid="button-close-mini-player"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Stats overlay */}
+        {showStats && !isMinimized && (
+          <PlaybackStatsPanel stats={stats} streamType={playbackType} sessionId={sessionId} />
+        )}
+
+        {/* Channel banner */}
+        {showChannelBanner && !isMinimized && (channelPosition || channelNumber) && (
+          <div
+            className="absolute bottom-28 left-8 flex items-center gap-4 bg-black/80 border border-white/10 rounded-lg px-5 py-3 pointer-events-none"
+            data-testid="channel-banner"
+          >
+            <div className="flex flex-col items-center text-gray-400">
+              {channelPosition && <ChevronUp className="w-4 h-4" />}
+              <span className="text-white font-mono text-lg">{channelNumber ?? (channelPosition && channelPosition.index + 1)}</span>
+              {channelPosition && <ChevronDown className="w-4 h-4" />}
+            </div>
+            <div className="flex flex-col">
+              <span className="text-white text-lg font-semibold">{streamTitle}</span>
+              <span className="text-gray-400 text-sm">
+                #{streamId}
+                {channelPosition && ` · ${channelPosition.index + 1} of ${channelPosition.total}`}
+              </span>
+              {currentPrograms?.now && (
+                <span className="text-gray-300 text-sm" data-testid="channel-banner-now">
+                  Now: {currentPrograms.now.title}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
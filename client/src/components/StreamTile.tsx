@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Star, Eye } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import serverSnapshotService from '@/lib/ServerSnapshotService';
 import { useTileResize } from '@/hooks/useTileResize';
+import { useStreamHealth } from '@/hooks/use-stream-health';
+import { useNowNext } from '@/hooks/use-programs';
+import { useFavorites, useToggleFavorite } from '@/hooks/use-favorites';
+import { useViewerCounts } from '@/hooks/use-viewer-counts';
+
+// Holding select this long toggles the favorite instead of opening the stream
+const LONG_PRESS_MS = 600;
 
 interface StreamTileProps {
   id: string;
@@ -18,6 +26,7 @@ interface StreamTileProps {
   tabIndex?: number;
   onSelect?: (streamId: string) => void;
   onFocus?: () => void;
+  showViewerCount?: boolean; // live "N watching" badge, hidden while nobody is watching
   className?: string;
 }
 
@@ -36,12 +45,42 @@ const StreamTile = React.forwardRef(({
   tabIndex,
   onSelect,
   onFocus,
+  showViewerCount = true,
   className 
 }: StreamTileProps, ref: React.Ref<HTMLDivElement>) => {
   const [isHovered, setIsHovered] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [currentImage, setCurrentImage] = useState(thumbnail);
+  const { data: streamHealth } = useStreamHealth();
+
+  // Only flag a feed once the server has actually probed it - unknown keeps the LIVE badge
+  const health = streamHealth?.[streamId];
+  const isOffline = health?.status === 'offline';
+  const healthTitle = isOffline ? `Offline${health?.error ? `: ${health.error}` : ''}` : undefined;
+
+  // Program guide - what's airing now on this stream
+  const { data: nowNext } = useNowNext();
+  const nowPlaying = nowNext?.[streamId]?.now?.title;
+
+  // Favorites - toggled by long-pressing select, the remote menu key, or right-click
+  const { data: favorites } = useFavorites();
+  const toggleFavoriteMutation = useToggleFavorite();
+  const isFavorite = !!favorites?.some(favorite => favorite.id === id);
+
+  // Live viewer count from the /ws channel
+  const viewerCounts = useViewerCounts();
+  const viewerCount = showViewerCount ? viewerCounts[streamId] ?? 0 : 0;
+  const longPressTimer = useRef<number | null>(null);
+
+  const toggleFavorite = () => {
+    if (toggleFavoriteMutation.isPending) return;
+    toggleFavoriteMutation.mutate({ id, title, isFavorite });
+  };
+
+  useEffect(() => () => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current);
+  }, []);
 
   // Register for server-side snapshots and update image URL periodically
   useEffect(() => {
@@ -82,13 +121,37 @@ const StreamTile = React.forwardRef(({
     }, 500);
   };
 
+  // Select opens the stream on release, so holding it can toggle the favorite instead
   const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' || e.key === ' ') {
+    if (e.key === 'ContextMenu') {
       e.preventDefault();
+      toggleFavorite();
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (e.repeat || longPressTimer.current) return;
+      longPressTimer.current = window.setTimeout(() => {
+        longPressTimer.current = null;
+        toggleFavorite();
+      }, LONG_PRESS_MS);
+    }
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    // Timer still pending means a short press - the long press already fired otherwise
+    if (longPressTimer.current) {
+      clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
       handleClick();
     }
   };
 
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    toggleFavorite();
+  };
+
   const handleFocus = (e: React.FocusEvent) => {
     console.log(`StreamTile[${streamId}]: FOCUS EVENT received`);
   };
@@ -151,6 +214,8 @@ const StreamTile = React.forwardRef(({
         tabIndex={tabIndex}
         onClick={handleClick}
         onKeyDown={handleKeyPress}
+        onKeyUp={handleKeyUp}
+        onContextMenu={handleContextMenu}
         onFocus={handleFocus}
         onBlur={handleBlur}
         onMouseEnter={() => setIsHovered(true)}
@@ -218,30 +283,43 @@ const StreamTile = React.forwardRef(({
                   {title}
                 </h3>
                 
-                {/* Subtitle */}
-                {subtitle && (
+                {/* Subtitle (falls back to the program airing now) */}
+                {(subtitle || nowPlaying) && (
                   <p 
                     className="text-[8px] text-white/70 line-clamp-1 leading-none overflow-hidden"
                     data-testid={`text-subtitle-${streamId}`}
-                    title={subtitle}
+                    title={subtitle || nowPlaying}
                   >
-                    {subtitle}
+                    {subtitle || `Now: ${nowPlaying}`}
                   </p>
                 )}
                 
                 {/* Metadata Row */}
                 <div className="flex items-center justify-between w-full mt-0.5">
                   <div className="flex items-center gap-1 flex-shrink-0">
-                    {/* Live Badge */}
-                    <div className="flex items-center">
-                      <div className="w-1 h-1 bg-red-500 rounded-full animate-pulse mr-0.5" />
-                      <span className="text-red-500 text-[7px] font-medium uppercase tracking-wide">LIVE</span>
+                    {/* Live / Offline Badge */}
+                    <div className="flex items-center" title={healthTitle} data-testid={`badge-health-${streamId}`}>
+                      <div className={cn("w-1 h-1 rounded-full mr-0.5", isOffline ? "bg-gray-500" : "bg-red-500 animate-pulse")} />
+                      <span className={cn("text-[7px] font-medium uppercase tracking-wide", isOffline ? "text-gray-400" : "text-red-500")}>
+                        {isOffline ? 'OFFLINE' : 'LIVE'}
+                      </span>
                     </div>
                     
                     {/* Stream ID */}
                     <div className="bg-black/40 backdrop-blur-sm px-1 py-0.5 rounded text-[7px] text-white/80 font-mono">
                       {streamId}
                     </div>
+                    
+                    {isFavorite && (
+                      <Star className="w-2 h-2 text-yellow-400 fill-yellow-400" data-testid={`icon-favorite-${streamId}`} />
+                    )}
+                    
+                    {viewerCount > 0 && (
+                      <span className="flex items-center gap-0.5 text-[7px] text-white/80" data-testid={`text-viewers-${streamId}`}>
+                        <Eye className="w-2 h-2" />
+                        {viewerCount}
+                      </span>
+                    )}
                   </div>
                   
                   {/* Right side metadata */}
@@ -278,6 +356,8 @@ const StreamTile = React.forwardRef(({
         tabIndex={tabIndex ?? 0}
         onClick={handleClick}
         onKeyDown={handleKeyPress}
+        onKeyUp={handleKeyUp}
+        onContextMenu={handleContextMenu}
         onFocus={onFocus}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
@@ -315,6 +395,21 @@ const StreamTile = React.forwardRef(({
         {/* Bottom Gradient Overlay */}
         <div className="absolute inset-0 bg-gradient-to-t from-black via-black/50 to-transparent" />
         
+        {/* Favorite Star - Top Left */}
+        {isFavorite && (
+          <div className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm rounded-full p-1" data-testid={`icon-favorite-${streamId}`}>
+            <Star className="w-3 h-3 text-yellow-400 fill-yellow-400" />
+          </div>
+        )}
+
+        {/* Viewer Count - Top Right */}
+        {viewerCount > 0 && (
+          <div className="absolute top-2 right-2 flex items-center gap-1 bg-black/60 backdrop-blur-sm rounded-full px-2 py-0.5 text-[10px] text-white" data-testid={`text-viewers-${streamId}`}>
+            <Eye className="w-3 h-3" />
+            {viewerCount} watching
+          </div>
+        )}
+        
         {/* Content - Bottom Left */}
         <div className="absolute inset-0 p-3 flex flex-col justify-end">
           <h3 
@@ -327,10 +422,19 @@ const StreamTile = React.forwardRef(({
             {title}
           </h3>
           
-          {/* Live Indicator */}
-          <div className="flex items-center">
-            <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse mr-2" />
-            <span className="text-red-500 text-[11px] font-medium uppercase tracking-wide">LIVE</span>
+          {/* Now Playing */}
+          {nowPlaying && (
+            <p className="text-white/70 text-[11px] line-clamp-1 mb-1" data-testid={`text-now-playing-${streamId}`}>
+              Now: {nowPlaying}
+            </p>
+          )}
+          
+          {/* Live / Offline Indicator */}
+          <div className="flex items-center" title={healthTitle} data-testid={`badge-health-${streamId}`}>
+            <div className={cn("w-2 h-2 rounded-full mr-2", isOffline ? "bg-gray-500" : "bg-red-500 animate-pulse")} />
+            <span className={cn("text-[11px] font-medium uppercase tracking-wide", isOffline ? "text-gray-400" : "text-red-500")}>
+              {isOffline ? 'OFFLINE' : 'LIVE'}
+            </span>
           </div>
         </div>
         
@@ -356,6 +460,8 @@ const StreamTile = React.forwardRef(({
       tabIndex={tabIndex ?? 0}
       onClick={handleClick}
       onKeyDown={handleKeyPress}
+      onKeyUp={handleKeyUp}
+      onContextMenu={handleContextMenu}
       onFocus={onFocus}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
@@ -398,6 +504,21 @@ const StreamTile = React.forwardRef(({
               }
             }}
           />
+          
+          {/* Favorite Star - Top Left */}
+          {isFavorite && (
+            <div className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm rounded-full p-1" data-testid={`icon-favorite-${streamId}`}>
+              <Star className="w-3 h-3 text-yellow-400 fill-yellow-400" />
+            </div>
+          )}
+
+          {/* Viewer Count - Top Right */}
+          {viewerCount > 0 && (
+            <div className="absolute top-2 right-2 flex items-center gap-1 bg-black/60 backdrop-blur-sm rounded-full px-2 py-0.5 text-[10px] text-white" data-testid={`text-viewers-${streamId}`}>
+              <Eye className="w-3 h-3" />
+              {viewerCount} watching
+            </div>
+          )}
         </div>
         
         {/* Info Footer - Inside Same Card */}
@@ -414,12 +535,25 @@ const StreamTile = React.forwardRef(({
             {title}
           </h3>
           
+          {/* Now Playing */}
+          {nowPlaying && (
+            <p
+              className="text-white/70 text-[10px] line-clamp-1 -mt-1 mb-2"
+              data-testid={`text-now-playing-${streamId}`}
+              title={nowPlaying}
+            >
+              Now: {nowPlaying}
+            </p>
+          )}
+          
           {/* Bottom Row - Live Indicator and Stream ID */}
           <div className="flex items-center justify-between">
-            {/* Live Indicator */}
-            <div className="flex items-center">
-              <div className="bg-red-500 rounded-full animate-pulse mr-1 w-1.5 h-1.5" />
-              <span className="text-red-500 font-medium uppercase tracking-wide text-[10px]">LIVE</span>
+            {/* Live / Offline Indicator */}
+            <div className="flex items-center" title={healthTitle} data-testid={`badge-health-${streamId}`}>
+              <div className={cn("rounded-full mr-1 w-1.5 h-1.5", isOffline ? "bg-gray-500" : "bg-red-500 animate-pulse")} />
+              <span className={cn("font-medium uppercase tracking-wide text-[10px]", isOffline ? "text-gray-400" : "text-red-500")}>
+                {isOffline ? 'OFFLINE' : 'LIVE'}
+              </span>
             </div>
             
             {/* Stream ID */}
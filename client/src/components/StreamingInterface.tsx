@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 
 // Import studio background images
 import socalStudioImg from '@assets/SocalStudio_1758041495268.png';
@@ -10,10 +10,23 @@ import CategoryRow from './CategoryRow';
 import StreamGrid from './StreamGrid';
 import StreamModal from './StreamModal';
 import StudioCard from './StudioCard';
+import ProgramGuide from './ProgramGuide';
+import MultiviewSetup from './MultiviewSetup';
+import MultiviewModal, { MULTIVIEW_LAYOUTS, getGridPlacements, type MultiviewLayout } from './MultiviewModal';
+import WallsSection from './WallsSection';
+import LibrarySection from './LibrarySection';
+import VideoPlayerModal from './VideoPlayerModal';
+import ChannelEntryOverlay from './ChannelEntryOverlay';
 import TopNavigation from './TopNavigation';
 import { useAuth } from '@/hooks/use-auth';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useWatchHistory, getRecentlyWatched } from '@/hooks/use-watch-history';
+import { useSaveWall } from '@/hooks/use-walls';
+import { useChannelEntry } from '@/hooks/use-channel-entry';
+import { useStreamSources } from '@/hooks/use-stream-sources';
+import { useCategories, getCategorySectionId, FEATURED_CATEGORY, STUDIOS_CATEGORY, type GroupedStreams } from '@/hooks/use-categories';
 import { useLocation } from 'wouter';
-import type { Stream, Studio } from '@shared/schema';
+import type { LibraryVideo, Stream, Studio, WallLayoutWithTiles } from '@shared/schema';
 
 interface StreamData {
   id: string;
@@ -23,14 +36,6 @@ interface StreamData {
   url: string;
 }
 
-interface GroupedStreams {
-  featured: Stream[];
-  overTheAir: Stream[];
-  liveFeeds: Stream[];
-  studios: Stream[];
-  uhd: Stream[];
-}
-
 interface StreamingInterfaceProps {
   className?: string;
 }
@@ -44,8 +49,12 @@ const convertStreamToStreamData = (stream: Stream): StreamData => ({
   url: stream.url,
 });
 
+// Admin-defined order within a category (streams.position), title as tie-breaker
+const sortStreamsByPosition = (streams: Stream[]) =>
+  [...streams].sort((a, b) => a.position - b.position || a.title.localeCompare(b.title));
+
 export default function StreamingInterface({ className }: StreamingInterfaceProps) {
-  const [activeSection, setActiveSection] = useState('featured');
+  const [activeSection, setActiveSection] = useState(FEATURED_CATEGORY);
   const { user, logoutMutation } = useAuth();
   const [, navigate] = useLocation();
   const [currentPage, setCurrentPage] = useState(1);
@@ -54,7 +63,16 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
     title: string;
     url: string;
   } | null>(null);
+  // Stream ids of the row or section the player was opened from, for channel up/down
+  const [channelLineup, setChannelLineup] = useState<string[]>([]);
+  const [isMiniPlayer, setIsMiniPlayer] = useState(false);
   const [selectedStudio, setSelectedStudio] = useState<string | null>(null);
+  const [multiviewLayout, setMultiviewLayout] = useState<MultiviewLayout>('2x2');
+  const [multiviewStreamIds, setMultiviewStreamIds] = useState<string[]>([]);
+  const [isMultiviewOpen, setIsMultiviewOpen] = useState(false);
+  const [openWall, setOpenWall] = useState<WallLayoutWithTiles | null>(null);
+  const [openVideo, setOpenVideo] = useState<LibraryVideo | null>(null);
+  const saveWallMutation = useSaveWall();
   const [focusedStudioIndex, setFocusedStudioIndex] = useState(0);
   const studioRefs = useRef<(HTMLDivElement | null)[]>([]);
 
@@ -64,6 +82,17 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
     enabled: true,
   });
 
+  // Fetch categories - they decide which sections and home rows exist
+  const { data: categories, isLoading: categoriesLoading } = useCategories();
+  const visibleCategories = (categories || []).filter(category => category.visible);
+
+  // The signed-in user's favorites, pinned above everything on the home screen
+  const { data: favoriteStreams } = useFavorites();
+
+  // Recently watched streams, one per stream
+  const { data: watchHistory } = useWatchHistory();
+  const recentStreams = getRecentlyWatched(watchHistory || []);
+
   // Fetch studios data
   const { data: studiosData, isLoading: studiosLoading, error: studiosError } = useQuery<Studio[]>({
     queryKey: ['/api/studios'],
@@ -73,19 +102,19 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
   // Fetch studio feeds when a studio is selected
   const { data: studioFeeds, isLoading: studioFeedsLoading } = useQuery<Stream[]>({
     queryKey: ['/api/streams/studio', selectedStudio],
-    enabled: !!selectedStudio && activeSection === 'studios',
+    enabled: !!selectedStudio && activeSection === STUDIOS_CATEGORY,
   });
 
   // Reset selected studio when section changes away from studios
   useEffect(() => {
-    if (activeSection !== 'studios') {
+    if (activeSection !== STUDIOS_CATEGORY) {
       setSelectedStudio(null);
     }
   }, [activeSection]);
 
   // Reset focused studio index when entering studios section
   useEffect(() => {
-    if (activeSection === 'studios' && !selectedStudio) {
+    if (activeSection === STUDIOS_CATEGORY && !selectedStudio) {
       setFocusedStudioIndex(0);
     }
   }, [activeSection, selectedStudio]);
@@ -94,42 +123,69 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
 
   const totalPages = 3; // todo: calculate based on actual stream count
 
-  const handleStreamSelect = (streamId: string, url: string) => {
-    // Find stream from all available streams
-    if (streamData) {
-      const allStreams = [
-        ...streamData.featured,
-        ...streamData.overTheAir,
-        ...streamData.liveFeeds,
-        ...streamData.studios,
-        ...streamData.uhd,
-      ];
-      
-      const stream = allStreams.find(s => s.streamId === streamId);
-      if (stream) {
-        setSelectedStream({
-          id: stream.streamId,
-          title: stream.title,
-          url: stream.url
-        });
-        console.log(`Opening stream modal for: ${stream.title} (${streamId})`);
-      }
+  // Streams from every visible category
+  const getVisibleStreams = (): Stream[] => {
+    if (!streamData) return [];
+    return visibleCategories.flatMap(category => streamData[category.slug] || []);
+  };
+
+  // Find a stream in everything the user can browse, including studio feeds
+  const findStream = (streamId: string): Stream | undefined =>
+    [...getVisibleStreams(), ...(favoriteStreams || []), ...recentStreams, ...(studioFeeds || [])]
+      .find(s => s.streamId === streamId);
+
+  const handleStreamSelect = (streamId: string, url: string, lineup?: string[]) => {
+    const stream = findStream(streamId);
+    if (stream) {
+      setSelectedStream({
+        id: stream.streamId,
+        title: stream.title,
+        url: stream.url
+      });
+      setChannelLineup(lineup || []);
+      setIsMiniPlayer(false);
+      console.log(`Opening stream modal for: ${stream.title} (${streamId})`);
     }
+  };
+
+  // Channel up/down - step through the lineup the player was opened from, wrapping at the ends
+  const handleChannelChange = (direction: 1 | -1) => {
+    if (!selectedStream || channelLineup.length < 2) return;
 
-    // Also check studio feeds if applicable
-    if (studioFeeds) {
-      const stream = studioFeeds.find(s => s.streamId === streamId);
+    const currentIndex = channelLineup.indexOf(selectedStream.id);
+    for (let step = 1; step < channelLineup.length; step++) {
+      const index = ((currentIndex + direction * step) % channelLineup.length + channelLineup.length) % channelLineup.length;
+      const stream = findStream(channelLineup[index]);
       if (stream) {
         setSelectedStream({
           id: stream.streamId,
           title: stream.title,
           url: stream.url
         });
-        console.log(`Opening stream modal for: ${stream.title} (${streamId})`);
+        console.log(`Switching channel to: ${stream.title} (${stream.streamId})`);
+        return;
       }
     }
   };
 
+  // Direct channel entry - tuning by number makes the channel lineup the numbered streams in order
+  const handleTuneChannel = (channelNumber: number): boolean => {
+    const numberedStreams = getVisibleStreams()
+      .filter(s => s.channelNumber !== null)
+      .sort((a, b) => (a.channelNumber ?? 0) - (b.channelNumber ?? 0));
+    const stream = numberedStreams.find(s => s.channelNumber === channelNumber);
+    if (!stream) return false;
+
+    handleStreamSelect(stream.streamId, stream.url, numberedStreams.map(s => s.streamId));
+    return true;
+  };
+
+  const channelEntry = useChannelEntry(handleTuneChannel, !isMultiviewOpen && !openWall);
+
+  // Backup sources for the open stream, so the player can fail over
+  const selectedStreamRecord = selectedStream ? findStream(selectedStream.id) : undefined;
+  const { data: selectedStreamSources } = useStreamSources(selectedStreamRecord?.id);
+
   const handleStudioSelect = (studioId: string) => {
     setSelectedStudio(studioId);
     console.log(`Selected studio: ${studioId}`);
@@ -165,57 +221,94 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
 
   const closeModal = () => {
     setSelectedStream(null);
+    setChannelLineup([]);
+    setIsMiniPlayer(false);
   };
 
-  // Helper to sort streams alphabetically by title
-  const sortStreamsByTitle = (streams: StreamData[]) => 
-    streams.sort((a, b) => a.title.localeCompare(b.title));
+  // Multiview, walls and library videos take over the screen, so the mini player makes way
+  useEffect(() => {
+    if (isMultiviewOpen || openWall || openVideo) {
+      closeModal();
+    }
+  }, [isMultiviewOpen, openWall, openVideo]);
+
+  // Multiview picks fill the grid in the order they were chosen
+  const handleToggleMultiviewStream = (streamId: string) => {
+    setMultiviewStreamIds(current => {
+      if (current.includes(streamId)) return current.filter(id => id !== streamId);
+      if (current.length >= MULTIVIEW_LAYOUTS[multiviewLayout].tiles) return current;
+      return [...current, streamId];
+    });
+  };
+
+  const closeMultiview = useCallback(() => {
+    setIsMultiviewOpen(false);
+  }, []);
+
+  const closeWall = useCallback(() => {
+    setOpenWall(null);
+  }, []);
+
+  const closeVideo = useCallback(() => {
+    setOpenVideo(null);
+  }, []);
+
+  // A multiview saved as a personal wall keeps its grid, with audio on the first feed
+  const handleSaveWall = (name: string) => {
+    const placements = getGridPlacements(getMultiviewStreams(), multiviewLayout);
+    const { columns, tiles } = MULTIVIEW_LAYOUTS[multiviewLayout];
+    saveWallMutation.mutate({
+      wall: {
+        name,
+        columns,
+        rows: tiles / columns,
+        tiles: placements.map((placement, index) => ({
+          streamId: placement.key,
+          x: placement.x,
+          y: placement.y,
+          width: 1,
+          height: 1,
+          audio: index === 0,
+        })),
+      },
+    });
+  };
+
+  const getMultiviewStreams = (): Stream[] => {
+    const streams = getVisibleStreams();
+    return multiviewStreamIds
+      .map(streamId => streams.find(stream => stream.streamId === streamId))
+      .filter((stream): stream is Stream => !!stream);
+  };
 
-  // Function to get current section data with alphabetical sorting
+  // Function to get current section data in stored order
   const getCurrentSectionData = () => {
     if (!streamData) return { title: 'Loading...', streams: [], featured: false, useGrid: false };
 
-    switch (activeSection) {
-      case 'featured':
-        return { 
-          title: 'Featured', 
-          streams: sortStreamsByTitle((streamData.featured || []).map(convertStreamToStreamData)), 
-          featured: true,
-          useGrid: false
-        };
-      case 'overTheAir':
-        return { 
-          title: 'Over The Air', 
-          streams: sortStreamsByTitle((streamData.overTheAir || []).map(convertStreamToStreamData)), 
-          featured: false,
-          useGrid: true
-        };
-      case 'liveFeeds':
-        return { 
-          title: 'Live Feeds', 
-          streams: sortStreamsByTitle((streamData.liveFeeds || []).map(convertStreamToStreamData)), 
-          featured: false,
-          useGrid: true
-        };
-      case 'uhd':
-        return { 
-          title: 'UHD Streams', 
-          streams: sortStreamsByTitle((streamData.uhd || []).map(convertStreamToStreamData)), 
-          featured: false,
-          useGrid: true
-        };
-      default:
-        return { 
-          title: 'Featured', 
-          streams: sortStreamsByTitle((streamData.featured || []).map(convertStreamToStreamData)), 
-          featured: true,
-          useGrid: false
-        };
+    const category = visibleCategories.find(c => c.slug === activeSection);
+    if (!category || category.slug === FEATURED_CATEGORY) {
+      return { 
+        title: 'Featured', 
+        streams: sortStreamsByPosition(streamData[FEATURED_CATEGORY] || []).map(convertStreamToStreamData), 
+        featured: true,
+        useGrid: false
+      };
     }
+
+    return { 
+      title: category.label, 
+      streams: sortStreamsByPosition(streamData[category.slug] || []).map(convertStreamToStreamData), 
+      featured: false,
+      useGrid: true
+    };
   };
 
   const currentSection = getCurrentSectionData();
 
+  // Every channel in the catalog, alphabetical, for the program guide
+  const getGuideStreams = (): Stream[] =>
+    getVisibleStreams().sort((a, b) => a.title.localeCompare(b.title));
+
   // Optimized background rotator for TV devices - only keeps 2 images in memory
   const [currentBgIndex, setCurrentBgIndex] = useState(0);
   const [nextBgIndex, setNextBgIndex] = useState(1);
@@ -269,11 +362,19 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
   const renderFeaturedSection = () => {
     if (!streamData) return null;
 
-    const sortStreamsByTitle = (streams: StreamData[]) => 
-      streams.sort((a, b) => a.title.localeCompare(b.title));
+    const featuredCategory = visibleCategories.find(c => c.slug === FEATURED_CATEGORY);
+    const favorites = (favoriteStreams || []).map(convertStreamToStreamData);
+    const recentlyWatched = recentStreams.map(convertStreamToStreamData);
+    const featuredStreams = sortStreamsByPosition(streamData[FEATURED_CATEGORY] || []).map(convertStreamToStreamData);
 
-    const featuredStreams = streamData.featured.map(convertStreamToStreamData);
-    const uhdStreams = streamData.uhd?.map(convertStreamToStreamData) || [];
+    // Every other visible category gets a compact row; studio feeds are browsed per studio instead
+    const homeRows = visibleCategories
+      .filter(c => c.slug !== FEATURED_CATEGORY && c.slug !== STUDIOS_CATEGORY)
+      .map(category => ({
+        category,
+        streams: sortStreamsByPosition(streamData[category.slug] || []).map(convertStreamToStreamData),
+      }))
+      .filter(row => row.streams.length > 0);
 
     return (
       <div className="relative min-h-screen">
@@ -307,33 +408,58 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
 
         {/* Content positioned at the top */}
         <div className="relative z-10 pt-8 pb-20 space-y-12">
+          {/* My Favorites - only once the user has starred something */}
+          {favorites.length > 0 && (
+            <CategoryRow
+              title="My Favorites"
+              streams={favorites}
+              featured={false}
+              variant="compact"
+              onStreamSelect={handleStreamSelect}
+              sectionId="favorites"
+            />
+          )}
+
+          {/* Recently Watched - most recent first */}
+          {recentlyWatched.length > 0 && (
+            <CategoryRow
+              title="Recently Watched"
+              streams={recentlyWatched}
+              featured={false}
+              variant="compact"
+              onStreamSelect={handleStreamSelect}
+              sectionId="recently-watched"
+            />
+          )}
+
           {/* Regular Featured Section */}
           <CategoryRow
-            title="Featured"
-            streams={sortStreamsByTitle(featuredStreams)}
+            title={featuredCategory?.label || 'Featured'}
+            streams={featuredStreams}
             featured={true}
             onStreamSelect={handleStreamSelect}
-            sectionId="featured"
+            sectionId={getCategorySectionId(FEATURED_CATEGORY)}
           />
           
-          {/* UHD Streams Section */}
-          {uhdStreams.length > 0 && (
+          {/* One row per remaining category */}
+          {homeRows.map(({ category, streams }) => (
             <CategoryRow
-              title="UHD Streams"
-              streams={sortStreamsByTitle(uhdStreams)}
+              key={category.id}
+              title={category.label}
+              streams={streams}
               featured={false}
               variant="compact"
               onStreamSelect={handleStreamSelect}
-              sectionId="uhd"
+              sectionId={getCategorySectionId(category.slug)}
             />
-          )}
+          ))}
         </div>
       </div>
     );
   };
 
   // Show loading state
-  if (streamsLoading || (activeSection === 'studios' && studiosLoading)) {
+  if (streamsLoading || categoriesLoading || (activeSection === STUDIOS_CATEGORY && studiosLoading)) {
     return (
       <div className={`h-full w-full bg-background ${className}`}>
         <main className="p-6 h-full overflow-y-auto">
@@ -346,7 +472,7 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
   }
 
   // Show error state
-  if (streamsError || (activeSection === 'studios' && studiosError)) {
+  if (streamsError || (activeSection === STUDIOS_CATEGORY && studiosError)) {
     const error = streamsError || studiosError;
     return (
       <div className={`h-full w-full bg-background ${className}`}>
@@ -462,7 +588,7 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
             ) : studioFeeds && studioFeeds.length > 0 ? (
               <CategoryRow
                 title={`${studiosData?.find(s => s.id === selectedStudio)?.name} - Camera Feeds`}
-                streams={(studioFeeds || []).map(convertStreamToStreamData).sort((a, b) => a.title.localeCompare(b.title))}
+                streams={sortStreamsByPosition(studioFeeds || []).map(convertStreamToStreamData)}
                 featured={false}
                 variant="compact"
                 onStreamSelect={handleStreamSelect}
@@ -494,16 +620,36 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
       <main className="min-h-screen overflow-y-auto bg-gradient-to-b from-black via-gray-900 to-black">
         <div className="py-8">
           {/* Render based on active section */}
-          {activeSection === 'studios' ? (
+          {activeSection === STUDIOS_CATEGORY ? (
             renderStudiosSection()
-          ) : activeSection === 'featured' ? (
+          ) : activeSection === 'guide' ? (
+            <ProgramGuide
+              streams={getGuideStreams()}
+              onStreamSelect={handleStreamSelect}
+            />
+          ) : activeSection === 'multiview' ? (
+            <MultiviewSetup
+              streams={getGuideStreams()}
+              layout={multiviewLayout}
+              selectedStreamIds={multiviewStreamIds}
+              onLayoutChange={setMultiviewLayout}
+              onToggleStream={handleToggleMultiviewStream}
+              onStart={() => setIsMultiviewOpen(true)}
+              onSaveWall={handleSaveWall}
+              isSavingWall={saveWallMutation.isPending}
+            />
+          ) : activeSection === 'walls' ? (
+            <WallsSection userId={user?.id} onWallSelect={setOpenWall} />
+          ) : activeSection === 'library' ? (
+            <LibrarySection onVideoSelect={setOpenVideo} />
+          ) : activeSection === FEATURED_CATEGORY ? (
             renderFeaturedSection()
           ) : currentSection.useGrid ? (
             <StreamGrid
               title={currentSection.title}
               streams={currentSection.streams}
               onStreamSelect={handleStreamSelect}
-              sectionId={activeSection === 'overTheAir' ? 'over-the-air' : activeSection === 'liveFeeds' ? 'live-feeds' : activeSection}
+              sectionId={getCategorySectionId(activeSection)}
             />
           ) : (
             <CategoryRow
@@ -511,7 +657,7 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
               streams={currentSection.streams}
               featured={currentSection.featured}
               onStreamSelect={handleStreamSelect}
-              sectionId={activeSection === 'overTheAir' ? 'over-the-air' : activeSection === 'liveFeeds' ? 'live-feeds' : activeSection}
+              sectionId={getCategorySectionId(activeSection)}
             />
           )}
         </div>
@@ -524,9 +670,62 @@ export default function StreamingInterface({ className }: StreamingInterfaceProp
           streamId={selectedStream.id}
           streamUrl={selectedStream.url}
           streamTitle={selectedStream.title}
+          channelNumber={selectedStreamRecord?.channelNumber}
+          fallbackUrl={selectedStreamRecord?.fallbackUrl}
+          dvrWindowSeconds={selectedStreamRecord?.dvrWindowSeconds}
+          sources={selectedStreamSources}
+          channelPosition={channelLineup.length > 1 ? {
+            index: channelLineup.indexOf(selectedStream.id),
+            total: channelLineup.length,
+          } : undefined}
+          onChannelChange={channelLineup.length > 1 ? handleChannelChange : undefined}
+          isMinimized={isMiniPlayer}
+          onMinimize={() => setIsMiniPlayer(true)}
+          onExpand={() => setIsMiniPlayer(false)}
           onClose={closeModal}
         />
       )}
+
+      {/* Typed channel number */}
+      <ChannelEntryOverlay {...channelEntry} />
+
+      {/* Multiview */}
+      {isMultiviewOpen && (
+        <MultiviewModal
+          isOpen={isMultiviewOpen}
+          title="Multiview"
+          columns={MULTIVIEW_LAYOUTS[multiviewLayout].columns}
+          rows={MULTIVIEW_LAYOUTS[multiviewLayout].tiles / MULTIVIEW_LAYOUTS[multiviewLayout].columns}
+          tiles={getGridPlacements(getMultiviewStreams(), multiviewLayout)}
+          onClose={closeMultiview}
+        />
+      )}
+
+      {/* Saved wall */}
+      {openWall && (
+        <MultiviewModal
+          isOpen={!!openWall}
+          title={openWall.name}
+          columns={openWall.columns}
+          rows={openWall.rows}
+          tiles={openWall.tiles.map(tile => ({
+            key: tile.id,
+            stream: tile.stream,
+            label: tile.streamTitle,
+            x: tile.x,
+            y: tile.y,
+            width: tile.width,
+            height: tile.height,
+          }))}
+          initialAudioKey={openWall.tiles.find(tile => tile.audio && tile.stream)?.id ?? null}
+          onClose={closeWall}
+        />
+      )}
+
+      {/* Library video */}
+      {openVideo && (
+        <VideoPlayerModal video={openVideo} onClose={closeVideo} />
+      )}
     </div>
   );
 }
\ No newline at end of file
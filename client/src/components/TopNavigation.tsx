@@ -10,6 +10,7 @@ import {
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
 import { useLocation } from 'wouter';
+import { useCategories, getCategorySectionId } from '@/hooks/use-categories';
 
 interface TopNavigationProps {
   activeSection: string;
@@ -19,12 +20,12 @@ interface TopNavigationProps {
   userRole?: string;
 }
 
-const navigationItems = [
-  { id: 'featured', label: 'Featured' },
-  { id: 'overTheAir', label: 'Over The Air' },
-  { id: 'liveFeeds', label: 'Live Feeds' },
-  { id: 'uhd', label: 'UHD' },
-  { id: 'studios', label: 'Studios' },
+// Sections that are not categories, shown after the category sections
+const fixedNavigationItems = [
+  { id: 'guide', label: 'Guide' },
+  { id: 'multiview', label: 'Multiview' },
+  { id: 'walls', label: 'Walls' },
+  { id: 'library', label: 'Library' },
 ];
 
 export default function TopNavigation({ 
@@ -36,9 +37,17 @@ export default function TopNavigation({
 }: TopNavigationProps) {
   const [focusedIndex, setFocusedIndex] = useState(0);
   const [, navigate] = useLocation();
+  const { data: categories } = useCategories();
   
   const isAdmin = userRole === 'admin';
 
+  const navigationItems = [
+    ...(categories || [])
+      .filter(category => category.visible)
+      .map(category => ({ id: category.slug, label: category.label })),
+    ...fixedNavigationItems,
+  ];
+
   // Auto-focus first navigation button when component mounts
   useEffect(() => {
     const firstButton = document.querySelector('[data-nav-index="0"]') as HTMLElement;
@@ -59,7 +68,7 @@ export default function TopNavigation({
         setFocusedIndex(activeIndex);
       }
     }
-  }, [activeSection]);
+  }, [activeSection, categories]);
 
   const handleKeyDown = (e: React.KeyboardEvent, index: number, action?: () => void) => {
     switch (e.key) {
@@ -91,16 +100,7 @@ export default function TopNavigation({
       case 'ArrowDown':
         e.preventDefault();
         // Navigate down to content area - focus first tile in currently active section
-        // Map section IDs to data-testid values
-        const sectionIdMap: Record<string, string> = {
-          'featured': 'featured',
-          'overTheAir': 'over-the-air', 
-          'liveFeeds': 'live-feeds',
-          'uhd': 'uhd',
-          'studios': 'studios'
-        };
-        
-        const sectionId = sectionIdMap[activeSection] || activeSection;
+        const sectionId = getCategorySectionId(activeSection);
         const targetSectionElement = document.querySelector(`[data-testid="section-${sectionId}"]`);
         
         if (targetSectionElement) {
@@ -182,6 +182,30 @@ export default function TopNavigation({
               <DropdownMenuItem onClick={() => navigate('/admin/studios')} data-testid="admin-manage-studios">
                 Manage Studios
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/categories')} data-testid="admin-manage-categories">
+                Manage Categories
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/programs')} data-testid="admin-manage-programs">
+                Manage Guide
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/walls')} data-testid="admin-manage-walls">
+                Manage Walls
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/recordings')} data-testid="admin-recordings">
+                Recordings
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/clips')} data-testid="admin-clips">
+                Clips
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/videos')} data-testid="admin-videos">
+                Video Library
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/alerts')} data-testid="admin-alerts">
+                Alerts
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/admin/analytics')} data-testid="admin-analytics">
+                Viewer Analytics
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={() => navigate('/admin/streams/new')} data-testid="admin-add-stream">
                 Add Stream
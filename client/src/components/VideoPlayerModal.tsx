@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import PreviewManager from '@/lib/PreviewManager';
+import HLSPlayer from '@/components/HLSPlayer';
+import { useSaveVideoProgress, getVideoPlaylistUrl, getResumePosition } from '@/hooks/use-videos';
+import type { LibraryVideo } from '@shared/schema';
+
+interface VideoPlayerModalProps {
+  video: LibraryVideo;
+  onClose: () => void;
+}
+
+// How often the resume point is saved while playing, and how far it must have moved
+const PROGRESS_SAVE_INTERVAL = 10000;
+const PROGRESS_MIN_CHANGE_SECONDS = 5;
+
+const isBackKey = (e: { key: string; keyCode: number; code: string }) =>
+  e.key === 'Escape' ||
+  e.key === 'Backspace' ||
+  e.key === 'Back' ||
+  e.key === 'BrowserBack' ||
+  e.keyCode === 8 ||
+  e.keyCode === 166 ||
+  e.code === 'BrowserBack';
+
+/**
+ * Full screen on-demand playback of a library video, resuming where the user left off
+ */
+export default function VideoPlayerModal({ video, onClose }: VideoPlayerModalProps) {
+  const [isMuted, setIsMuted] = useState(false);
+  const [startPosition] = useState(() => getResumePosition(video));
+  const saveProgressMutation = useSaveVideoProgress();
+  const modalRef = useRef<HTMLDivElement>(null);
+  const positionRef = useRef(startPosition);
+  const savedPositionRef = useRef(startPosition);
+
+  const saveProgress = useRef(() => {});
+  saveProgress.current = () => {
+    const positionSeconds = Math.floor(positionRef.current);
+    if (Math.abs(positionSeconds - savedPositionRef.current) < PROGRESS_MIN_CHANGE_SECONDS) return;
+    savedPositionRef.current = positionSeconds;
+    saveProgressMutation.mutate({ videoId: video.id, positionSeconds });
+  };
+
+  // Save periodically while playing, and once more on the way out
+  useEffect(() => {
+    const interval = setInterval(() => saveProgress.current(), PROGRESS_SAVE_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      saveProgress.current();
+    };
+  }, [video.id]);
+
+  // Exclusive playback - stop tile snapshots while the video is open (same as StreamModal)
+  useEffect(() => {
+    PreviewManager.getInstance().suspendAll();
+    modalRef.current?.focus();
+    return () => PreviewManager.getInstance().resumeSnapshots();
+  }, []);
+
+  // Fire TV back button - consume the history entry instead of leaving the app
+  useEffect(() => {
+    history.pushState({ video: true }, '');
+    const handlePopState = () => onClose();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [onClose]);
+
+  // Block the Fire TV system exit; the modal's own handler closes it
+  useEffect(() => {
+    const handleNativeKeyDown = (e: KeyboardEvent) => {
+      if (isBackKey(e)) e.preventDefault();
+    };
+    document.addEventListener('keydown', handleNativeKeyDown, { capture: true });
+    return () => document.removeEventListener('keydown', handleNativeKeyDown, { capture: true });
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isBackKey(e)) {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      ref={modalRef}
+      className="fixed inset-0 bg-black z-50 flex flex-col outline-none"
+      onKeyDownCapture={handleKeyDown}
+      tabIndex={-1}
+      role="dialog"
+      aria-modal="true"
+      aria-label={video.title}
+      data-testid="video-player-modal"
+    >
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-950">
+        <span className="text-white font-medium truncate">{video.title}</span>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-400">Rewind and Fast Forward skip 30s, Back to close</span>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onClose}
+            className="text-white hover:bg-white/20 focus-visible:ring-4 focus-visible:ring-primary"
+            data-testid="button-close-video"
+          >
+            <X className="w-6 h-6" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <HLSPlayer
+          streamUrl={getVideoPlaylistUrl(video.id)}
+          streamId={video.id}
+          streamTitle={video.title}
+          isMuted={isMuted}
+          onMutedChange={setIsMuted}
+          vod
+          mediaKeys
+          startPosition={startPosition}
+          onPositionChange={(position) => { positionRef.current = position; }}
+          className="w-full h-full"
+        />
+      </div>
+    </div>
+  );
+}
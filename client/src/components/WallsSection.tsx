@@ -0,0 +1,149 @@
+import { AlertTriangle, Trash2, Volume2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWalls, useDeleteWall, getMissingTiles } from '@/hooks/use-walls';
+import type { WallLayoutWithTiles } from '@shared/schema';
+
+interface WallsSectionProps {
+  userId?: string;
+  onWallSelect: (wall: WallLayoutWithTiles) => void;
+  className?: string;
+}
+
+const COLUMNS = 3;
+
+/**
+ * Walls section - shared control room walls plus the user's own saved multiviews
+ */
+export default function WallsSection({ userId, onWallSelect, className }: WallsSectionProps) {
+  const { data: walls, isLoading } = useWalls();
+  const deleteWallMutation = useDeleteWall();
+
+  const focusWall = (index: number) => {
+    const card = document.querySelector(`[data-wall-index="${index}"]`) as HTMLElement | null;
+    card?.focus();
+    card?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (!walls) return;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        if (index % COLUMNS > 0) focusWall(index - 1);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (index % COLUMNS < COLUMNS - 1 && index + 1 < walls.length) focusWall(index + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (index >= COLUMNS) {
+          focusWall(index - COLUMNS);
+        } else {
+          const activeNavButton = document.querySelector('[data-active="true"]') as HTMLElement | null;
+          activeNavButton?.focus();
+        }
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (index + COLUMNS < walls.length) focusWall(index + COLUMNS);
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        onWallSelect(walls[index]);
+        break;
+    }
+  };
+
+  return (
+    <div className={cn("relative w-full px-8", className)} data-testid="section-walls">
+      <h2 className="text-white font-semibold text-2xl mb-4">Walls</h2>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-white text-lg">Loading walls...</div>
+        </div>
+      ) : !walls || walls.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-white/60 text-lg" data-testid="text-no-walls">
+            No walls yet - save one from Multiview, or ask an admin to set one up
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-6" style={{ gridTemplateColumns: `repeat(${COLUMNS}, minmax(0, 1fr))` }}>
+          {walls.map((wall, index) => {
+            const missing = getMissingTiles(wall);
+            const isOwn = wall.ownerId !== null && wall.ownerId === userId;
+            return (
+              <div key={wall.id} className="space-y-2">
+                <div
+                  className="stream-tile rounded-lg bg-gray-900 p-4 cursor-pointer outline-none focus-visible:ring-4 focus-visible:ring-blue-500 hover:bg-gray-800"
+                  tabIndex={0}
+                  onClick={() => onWallSelect(wall)}
+                  onKeyDown={(e) => handleKeyDown(e, index)}
+                  data-wall-index={index}
+                  data-testid={`wall-card-${wall.id}`}
+                >
+                  {/* Miniature of the wall */}
+                  <div
+                    className="grid gap-0.5 aspect-video mb-3"
+                    style={{
+                      gridTemplateColumns: `repeat(${wall.columns}, minmax(0, 1fr))`,
+                      gridTemplateRows: `repeat(${wall.rows}, minmax(0, 1fr))`,
+                    }}
+                  >
+                    {wall.tiles.map(tile => (
+                      <div
+                        key={tile.id}
+                        className={cn(
+                          "relative rounded-sm overflow-hidden",
+                          tile.stream ? "bg-gray-700" : "bg-gray-950 border border-dashed border-yellow-700"
+                        )}
+                        style={{
+                          gridColumn: `${tile.x + 1} / span ${tile.width}`,
+                          gridRow: `${tile.y + 1} / span ${tile.height}`,
+                        }}
+                      >
+                        {tile.stream && <img src={tile.stream.thumbnail} alt="" className="w-full h-full object-cover" />}
+                        {tile.audio && <Volume2 className="absolute top-1 right-1 w-3 h-3 text-green-400" />}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-white font-medium truncate">{wall.name}</span>
+                    <span className="text-xs text-gray-400 flex-shrink-0">
+                      {wall.ownerId === null ? 'Shared' : 'Personal'} · {wall.tiles.length} feeds
+                    </span>
+                  </div>
+                  {missing.length > 0 && (
+                    <div className="flex items-center gap-1 mt-1 text-xs text-yellow-400" data-testid={`text-wall-missing-${wall.id}`}>
+                      <AlertTriangle className="w-3 h-3" />
+                      {missing.length} feed{missing.length === 1 ? '' : 's'} no longer available
+                      {missing.some(tile => tile.streamTitle) && `: ${missing.map(tile => tile.streamTitle).filter(Boolean).join(', ')}`}
+                    </div>
+                  )}
+                </div>
+
+                {isOwn && (
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 outline-none focus-visible:text-red-400"
+                    onClick={() => deleteWallMutation.mutate(wall.id)}
+                    disabled={deleteWallMutation.isPending}
+                    data-testid={`button-delete-wall-${wall.id}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { Home, Video, Radio, Tv, Settings, Plus, Edit3, Smartphone } from 'lucide-react';
+import { Settings, Plus, Edit3, Smartphone, CalendarClock, LayoutList, BarChart3, LayoutGrid, Disc, Scissors, Film, BellRing } from 'lucide-react';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/hooks/use-auth';
+import { useCategories, getCategoryIcon } from '@/hooks/use-categories';
 
 import {
   Sidebar,
@@ -15,30 +16,6 @@ import {
   useSidebar
 } from "@/components/ui/sidebar";
 
-// Navigation sections
-const navigationItems = [
-  {
-    title: "Featured",
-    icon: Home,
-    id: "featured",
-  },
-  {
-    title: "Studios", 
-    icon: Video,
-    id: "studios",
-  },
-  {
-    title: "Over The Air",
-    icon: Radio,
-    id: "overTheAir",
-  },
-  {
-    title: "Live Feeds",
-    icon: Tv,
-    id: "liveFeeds", 
-  },
-];
-
 // Admin navigation items
 const adminItems = [
   {
@@ -59,6 +36,54 @@ const adminItems = [
     id: "admin-studios", 
     path: "/admin/studios"
   },
+  {
+    title: "Categories",
+    icon: LayoutList,
+    id: "admin-categories",
+    path: "/admin/categories"
+  },
+  {
+    title: "Program Guide",
+    icon: CalendarClock,
+    id: "admin-programs",
+    path: "/admin/programs"
+  },
+  {
+    title: "Walls",
+    icon: LayoutGrid,
+    id: "admin-walls",
+    path: "/admin/walls"
+  },
+  {
+    title: "Recordings",
+    icon: Disc,
+    id: "admin-recordings",
+    path: "/admin/recordings"
+  },
+  {
+    title: "Clips",
+    icon: Scissors,
+    id: "admin-clips",
+    path: "/admin/clips"
+  },
+  {
+    title: "Video Library",
+    icon: Film,
+    id: "admin-videos",
+    path: "/admin/videos"
+  },
+  {
+    title: "Alerts",
+    icon: BellRing,
+    id: "admin-alerts",
+    path: "/admin/alerts"
+  },
+  {
+    title: "Analytics",
+    icon: BarChart3,
+    id: "admin-analytics",
+    path: "/admin/analytics"
+  },
   {
     title: "APK Management",
     icon: Smartphone,
@@ -83,10 +108,20 @@ export function AppSidebar({ activeSection = "featured", onSectionChange }: AppS
   const { setOpenMobile } = useSidebar();
   const [location, navigate] = useLocation();
   const { user, isLoading } = useAuth();
+  const { data: categories } = useCategories();
   
   // Check if user is admin - wait for loading to complete
   const isAdmin = !isLoading && user?.role === 'admin';
 
+  // Navigation sections come from the visible categories
+  const navigationItems = (categories || [])
+    .filter(category => category.visible)
+    .map(category => ({
+      title: category.label,
+      icon: getCategoryIcon(category.icon),
+      id: category.slug,
+    }));
+
   // Sync with parent activeSection changes
   useEffect(() => {
     setSelectedSection(activeSection);
@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { queryClient } from '@/lib/queryClient';
+import ViewerSocket from '@/lib/ViewerSocket';
+import type { CatalogResource } from '@shared/schema';
+
+// Cached queries that embed each kind of catalog data
+const QUERY_KEYS: Record<CatalogResource, string[][]> = {
+  streams: [['/api/streams'], ['/api/streams/studio'], ['/api/me/favorites'], ['/api/me/history'], ['/api/walls']],
+  // Deleting a studio deletes its feeds too
+  studios: [['/api/studios'], ['/api/streams'], ['/api/streams/studio']],
+  // Renaming a category moves its streams
+  categories: [['/api/categories'], ['/api/streams']],
+  programs: [['/api/programs'], ['/api/programs/now']],
+  walls: [['/api/walls']],
+  videos: [['/api/videos']],
+};
+
+/**
+ * Refetch catalog queries when the server announces an admin change over /ws,
+ * so TVs pick up edits without a reload
+ */
+export function useCatalogSync(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    return ViewerSocket.getInstance().onCatalogChange((change) => {
+      console.log(`Catalog ${change.resource} ${change.action}${change.id ? ` (${change.id})` : ''} - refreshing`);
+      QUERY_KEYS[change.resource].forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    });
+  }, [enabled]);
+}
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Home, Video, Radio, Tv, Monitor, Trophy, Calendar, Star, Film, Globe, Music, Newspaper, Mic, Camera,
+  type LucideIcon,
+} from 'lucide-react';
+import type { Category, Stream } from '@shared/schema';
+
+// Slugs with their own screens; every other category is a plain stream grid
+export { FEATURED_CATEGORY, STUDIOS_CATEGORY, BUILT_IN_CATEGORIES } from '@shared/schema';
+
+// Icons an admin can pick for a category, stored by name in categories.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  home: Home,
+  video: Video,
+  radio: Radio,
+  tv: Tv,
+  monitor: Monitor,
+  trophy: Trophy,
+  calendar: Calendar,
+  star: Star,
+  film: Film,
+  globe: Globe,
+  music: Music,
+  newspaper: Newspaper,
+  mic: Mic,
+  camera: Camera,
+};
+
+export const getCategoryIcon = (icon: string): LucideIcon => CATEGORY_ICONS[icon] || Tv;
+
+// data-testid section ids are kebab-case ("overTheAir" -> "over-the-air")
+export const getCategorySectionId = (slug: string) =>
+  slug.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+/** Streams grouped by category slug, as returned by GET /api/streams */
+export type GroupedStreams = Record<string, Stream[]>;
+
+/**
+ * All categories in display order. Hidden ones are included so admin pages can list them;
+ * viewer screens should filter on `visible`.
+ */
+export function useCategories() {
+  return useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+}
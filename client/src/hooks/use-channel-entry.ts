@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import { MAX_CHANNEL_NUMBER } from '@shared/schema';
+
+const ENTRY_TIMEOUT_MS = 2000;
+const NOT_FOUND_DISPLAY_MS = 1500;
+const MAX_DIGITS = String(MAX_CHANNEL_NUMBER).length;
+
+export interface ChannelEntryState {
+  digits: string;
+  notFound: boolean;
+}
+
+/**
+ * Cable-box style channel entry - digits typed on the remote are buffered and tuned
+ * once the viewer pauses, presses Enter, or types the last possible digit.
+ * `onTune` returns false when no stream has that number.
+ */
+export function useChannelEntry(onTune: (channelNumber: number) => boolean, enabled = true): ChannelEntryState {
+  const [state, setState] = useState<ChannelEntryState>({ digits: '', notFound: false });
+  const onTuneRef = useRef(onTune);
+  onTuneRef.current = onTune;
+
+  useEffect(() => {
+    if (!enabled) {
+      setState({ digits: '', notFound: false });
+      return;
+    }
+
+    let buffer = '';
+    let timer: NodeJS.Timeout | undefined;
+
+    const commit = () => {
+      clearTimeout(timer);
+      const channelNumber = Number(buffer);
+      const found = onTuneRef.current(channelNumber);
+      buffer = '';
+
+      if (found) {
+        setState({ digits: '', notFound: false });
+      } else {
+        setState({ digits: String(channelNumber), notFound: true });
+        timer = setTimeout(() => setState({ digits: '', notFound: false }), NOT_FOUND_DISPLAY_MS);
+      }
+    };
+
+    // Capture phase so Enter tunes the typed channel instead of opening the focused tile
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      if (/^[0-9]$/.test(e.key)) {
+        e.preventDefault();
+        clearTimeout(timer);
+        buffer += e.key;
+        setState({ digits: buffer, notFound: false });
+
+        if (buffer.length >= MAX_DIGITS) {
+          commit();
+        } else {
+          timer = setTimeout(commit, ENTRY_TIMEOUT_MS);
+        }
+      } else if (e.key === 'Enter' && buffer) {
+        e.preventDefault();
+        e.stopPropagation();
+        commit();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+    };
+  }, [enabled]);
+
+  return state;
+}
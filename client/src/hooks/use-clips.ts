@@ -0,0 +1,63 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Clip, CreateClip } from '@shared/schema';
+
+// Clips are ready once their segments are downloaded - usually within seconds
+const PROCESSING_REFRESH_INTERVAL = 3000;
+
+/**
+ * Every clip, newest first. Polls while one is being cut.
+ */
+export function useClips() {
+  return useQuery<Clip[]>({
+    queryKey: ['/api/admin/clips'],
+    refetchInterval: (query) =>
+      query.state.data?.some(clip => clip.status === 'processing') ? PROCESSING_REFRESH_INTERVAL : false,
+  });
+}
+
+export function useCreateClip() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: CreateClip): Promise<Clip> =>
+      apiRequest('/api/admin/clips', { method: 'POST', body: JSON.stringify(data) }),
+    onSuccess: (clip) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/clips'] });
+      toast({
+        title: `Clipping the last ${clip.durationSeconds}s`,
+        description: `"${clip.title}" will be ready to download under Clips shortly.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create clip',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteClip() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/clips/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/clips'] });
+      toast({
+        title: 'Clip deleted',
+        description: 'The clip and its file have been removed.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete clip',
+        variant: 'destructive',
+      });
+    },
+  });
+}
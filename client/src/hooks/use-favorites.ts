@@ -0,0 +1,40 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Stream } from '@shared/schema';
+
+/**
+ * The signed-in user's favorite streams, oldest first.
+ * Every tile reads the same cached list to decide whether to show its star.
+ */
+export function useFavorites() {
+  return useQuery<Stream[]>({
+    queryKey: ['/api/me/favorites'],
+  });
+}
+
+/**
+ * Add or remove a favorite by stream database id (not the streamId code)
+ */
+export function useToggleFavorite() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, isFavorite }: { id: string; title: string; isFavorite: boolean }) =>
+      apiRequest(`/api/me/favorites/${id}`, { method: isFavorite ? 'DELETE' : 'POST' }),
+    onSuccess: (_, { title, isFavorite }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me/favorites'] });
+      toast({
+        title: isFavorite ? 'Removed from My Favorites' : 'Added to My Favorites',
+        description: title,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update favorites',
+        variant: 'destructive',
+      });
+    },
+  });
+}
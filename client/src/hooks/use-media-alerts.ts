@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import type { MediaAlert, MediaAlertType } from '@shared/schema';
+
+// Alerts open within seconds of the detector firing; a short poll keeps the admin views current
+const ALERTS_REFRESH_INTERVAL = 15000;
+
+export const MEDIA_ALERT_BADGES: Record<MediaAlertType, { label: string; className: string }> = {
+  black: { label: 'Black', className: 'bg-gray-700 text-white' },
+  freeze: { label: 'Frozen', className: 'bg-blue-500 text-white' },
+  silence: { label: 'Silent', className: 'bg-orange-500 text-white' },
+};
+
+/**
+ * Black-frame, frozen-frame and silence alerts raised by the snapshot workers, newest first.
+ * Open alerts have no endedAt.
+ */
+export function useMediaAlerts() {
+  return useQuery<MediaAlert[]>({
+    queryKey: ['/api/admin/alerts'],
+    refetchInterval: ALERTS_REFRESH_INTERVAL,
+  });
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import { sendBeacon } from '@/lib/queryClient';
+import PreviewManager from '@/lib/PreviewManager';
+import {
+  PLAYBACK_PING_INTERVAL_MS,
+  PLAYBACK_STATS_INTERVAL_MS,
+  type DeviceClass,
+  type PlaybackBeacon,
+  type PlaybackStats,
+} from '@shared/schema';
+
+const BEACON_URL = '/api/analytics/beacon';
+
+/**
+ * Device class reported with each playback session - Fire TV first, then any other TV
+ */
+export function getDeviceClass(): DeviceClass {
+  if (navigator.userAgent.includes('AFT')) return 'firetv';
+  return PreviewManager.getInstance().isTVDevice() ? 'tv' : 'desktop';
+}
+
+// Older Fire TV browsers lack crypto.randomUUID
+function createSessionId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return '10000000-1000-4000-8000-100000000000'.replace(/[018]/g, (c) =>
+    (Number(c) ^ (crypto.getRandomValues(new Uint8Array(1))[0] & (15 >> (Number(c) / 4)))).toString(16),
+  );
+}
+
+function sendPlaybackBeacon(beacon: PlaybackBeacon) {
+  sendBeacon(BEACON_URL, beacon);
+}
+
+/**
+ * Report a playback session for the admin analytics dashboard: start when the player opens,
+ * a ping every minute while it stays open, the latest error, a stats sample every 30s, the
+ * source that served it (again after each failover), and end when it closes or the page goes away.
+ * Returns the session id so viewers can quote it in tickets.
+ */
+export function usePlaybackAnalytics({
+  streamId,
+  streamType,
+  isOpen,
+  error,
+  stats,
+  source,
+}: {
+  streamId: string;
+  streamType: 'webrtc' | 'hls';
+  isOpen: boolean;
+  error: string | null;
+  stats: PlaybackStats | null;
+  source: { streamType: 'webrtc' | 'hls'; label: string } | null; // the source playing, null until one does
+}): string | null {
+  const sessionIdRef = useRef<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const statsRef = useRef(stats);
+  statsRef.current = stats;
+  // The session outlives failovers, so the type it starts with is only the stream's own
+  const streamTypeRef = useRef(streamType);
+  streamTypeRef.current = streamType;
+
+  useEffect(() => {
+    if (!isOpen || !streamId) return;
+
+    const sessionId = createSessionId();
+    sessionIdRef.current = sessionId;
+    setSessionId(sessionId);
+    sendPlaybackBeacon({ event: 'start', sessionId, streamId, streamType: streamTypeRef.current, deviceClass: getDeviceClass() });
+
+    const pingTimer = setInterval(() => {
+      sendPlaybackBeacon({ event: 'ping', sessionId });
+    }, PLAYBACK_PING_INTERVAL_MS);
+
+    const statsTimer = setInterval(() => {
+      if (statsRef.current) {
+        sendPlaybackBeacon({ event: 'stats', sessionId, stats: statsRef.current });
+      }
+    }, PLAYBACK_STATS_INTERVAL_MS);
+
+    let ended = false;
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      sendPlaybackBeacon({ event: 'end', sessionId });
+    };
+    window.addEventListener('pagehide', end);
+
+    return () => {
+      clearInterval(pingTimer);
+      clearInterval(statsTimer);
+      window.removeEventListener('pagehide', end);
+      end();
+      sessionIdRef.current = null;
+      setSessionId(null);
+    };
+  }, [streamId, isOpen]);
+
+  // Errors are reported once each; the session counts as failed if any were sent
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (!error || !sessionId) return;
+    sendPlaybackBeacon({ event: 'error', sessionId, error: error.slice(0, 500) });
+  }, [error]);
+
+  const sourceStreamType = source?.streamType;
+  const sourceLabel = source?.label;
+  useEffect(() => {
+    if (!sessionId || !sourceStreamType || !sourceLabel) return;
+    sendPlaybackBeacon({ event: 'source', sessionId, streamType: sourceStreamType, source: sourceLabel });
+  }, [sessionId, sourceStreamType, sourceLabel]);
+
+  return sessionId;
+}
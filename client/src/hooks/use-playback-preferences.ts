@@ -0,0 +1,35 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { PlaybackPreferences, UpdateUserPreferences } from '@shared/schema';
+
+/**
+ * The signed-in user's preferred audio and caption languages
+ */
+export function usePlaybackPreferences() {
+  return useQuery<PlaybackPreferences>({
+    queryKey: ['/api/me/preferences'],
+  });
+}
+
+/**
+ * Remember a track choice for next time. The cache is updated straight away so other
+ * players pick it up; a failed save only costs the preference, never playback.
+ */
+export function useUpdatePlaybackPreferences() {
+  return useMutation({
+    mutationFn: (update: UpdateUserPreferences): Promise<PlaybackPreferences> =>
+      apiRequest('/api/me/preferences', { method: 'PUT', body: JSON.stringify(update) }),
+    onMutate: (update) => {
+      queryClient.setQueryData<PlaybackPreferences>(['/api/me/preferences'], (current) =>
+        current ? { ...current, ...update } : current,
+      );
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(['/api/me/preferences'], preferences);
+    },
+    onError: (error) => {
+      console.warn('Failed to save playback preferences:', error);
+      queryClient.invalidateQueries({ queryKey: ['/api/me/preferences'] });
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import type { NowNextPrograms } from '@shared/schema';
+
+// Programs change on the hour/half hour, so a minute of staleness is fine
+const NOW_NEXT_REFRESH_INTERVAL = 60000;
+
+/**
+ * Now / Next programs for every stream with guide data, keyed by streamId
+ */
+export function useNowNext() {
+  return useQuery<Record<string, NowNextPrograms>>({
+    queryKey: ['/api/programs/now'],
+    refetchInterval: NOW_NEXT_REFRESH_INTERVAL,
+    staleTime: NOW_NEXT_REFRESH_INTERVAL,
+  });
+}
+
+/**
+ * Format a guide time for display, e.g. "7:30 PM"
+ */
+export function formatProgramTime(isoTime: string): string {
+  return new Date(isoTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
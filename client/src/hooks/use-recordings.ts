@@ -0,0 +1,125 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Recording, RecordingLimits, ScheduleRecording, StartRecording } from '@shared/schema';
+
+// Running recordings grow by a segment every few seconds; the server measures them every 15s
+const ACTIVE_REFRESH_INTERVAL = 15000;
+
+const invalidateRecordings = () => {
+  queryClient.invalidateQueries({ queryKey: ['/api/admin/recordings'] });
+};
+
+/**
+ * Every recording, newest first. Polls while one is running or waiting to start.
+ */
+export function useRecordings() {
+  return useQuery<Recording[]>({
+    queryKey: ['/api/admin/recordings'],
+    refetchInterval: (query) =>
+      query.state.data?.some(recording => recording.status === 'recording' || recording.status === 'scheduled')
+        ? ACTIVE_REFRESH_INTERVAL
+        : false,
+  });
+}
+
+export function useRecordingLimits() {
+  return useQuery<RecordingLimits>({
+    queryKey: ['/api/admin/recordings', 'limits'],
+  });
+}
+
+export function useStartRecording() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: StartRecording): Promise<Recording> =>
+      apiRequest('/api/admin/recordings/start', { method: 'POST', body: JSON.stringify(data) }),
+    onSuccess: (recording) => {
+      invalidateRecordings();
+      toast({
+        title: recording.status === 'failed' ? 'Recording failed' : 'Recording started',
+        description: recording.error || recording.title,
+        variant: recording.status === 'failed' ? 'destructive' : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to start recording',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useScheduleRecording() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: ScheduleRecording): Promise<Recording> =>
+      apiRequest('/api/admin/recordings', { method: 'POST', body: JSON.stringify(data) }),
+    onSuccess: (recording) => {
+      invalidateRecordings();
+      toast({
+        title: 'Recording scheduled',
+        description: recording.title,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to schedule recording',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Stop a running recording, or cancel a scheduled one
+ */
+export function useStopRecording() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string): Promise<Recording> =>
+      apiRequest(`/api/admin/recordings/${id}/stop`, { method: 'POST' }),
+    onSuccess: (recording) => {
+      invalidateRecordings();
+      toast({
+        title: recording.status === 'cancelled' ? 'Recording cancelled' : 'Stopping recording',
+        description: recording.title,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to stop recording',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteRecording() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/recordings/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      invalidateRecordings();
+      toast({
+        title: 'Recording deleted',
+        description: 'The recording and its files have been removed.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete recording',
+        variant: 'destructive',
+      });
+    },
+  });
+}
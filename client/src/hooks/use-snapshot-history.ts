@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SnapshotHistory } from '@shared/schema';
+
+/**
+ * Archived snapshots of a stream (by streams.id), newest first. Refetches as often as the
+ * server archives a new one while the contact sheet is open.
+ */
+export function useSnapshotHistory(streamId: string | undefined) {
+  return useQuery<SnapshotHistory>({
+    queryKey: ['/api/streams', streamId, 'snapshots'],
+    enabled: !!streamId,
+    refetchInterval: (query) =>
+      query.state.data?.enabled ? query.state.data.intervalSeconds * 1000 : false,
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import type { StreamHealth } from '@shared/schema';
+
+// Matches the server probe interval closely enough that badges never lag more than a cycle
+const HEALTH_REFRESH_INTERVAL = 30000;
+
+/**
+ * Latest server-side probe results for every stream, keyed by streamId.
+ * All tiles share the same cached query, so this costs one request per interval.
+ */
+export function useStreamHealth() {
+  return useQuery<Record<string, StreamHealth>>({
+    queryKey: ['/api/streams/health'],
+    refetchInterval: HEALTH_REFRESH_INTERVAL,
+    staleTime: HEALTH_REFRESH_INTERVAL,
+  });
+}
@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query';
+import { getHlsFallbackUrl, type StreamTransport } from '@shared/streamUrls';
+import { PRIMARY_SOURCE_LABEL, type StreamSource } from '@shared/schema';
+
+// One thing the player can try, in failover order
+export interface PlaybackSource {
+  url: string;
+  streamType: StreamTransport;
+  label: string; // the stream source it came from
+  isFallback: boolean; // HLS mirror of a WebRTC source rather than the source itself
+}
+
+/**
+ * Backup sources for a stream (by streams.id), in failover order
+ */
+export function useStreamSources(streamId: string | undefined) {
+  return useQuery<StreamSource[]>({
+    queryKey: ['/api/streams', streamId, 'sources'],
+    enabled: !!streamId,
+  });
+}
+
+/**
+ * The player's failover list: the stream's own URL, then each backup source by priority.
+ * A WebRTC source is followed by its HLS fallback - the explicit fallbackUrl for the
+ * primary, the SRS HTTP-HLS mirror for WHEP sources.
+ */
+export function buildPlaybackSources(
+  primary: { url: string; streamType: StreamTransport; fallbackUrl?: string | null },
+  sources: StreamSource[],
+  streamId: string,
+  protocol: 'http' | 'https',
+): PlaybackSource[] {
+  const list: PlaybackSource[] = [];
+  const add = (source: PlaybackSource) => {
+    if (!list.some(existing => existing.url === source.url)) list.push(source);
+  };
+  const addWithFallback = (url: string, streamType: StreamTransport, label: string, fallbackUrl?: string | null) => {
+    add({ url, streamType, label, isFallback: false });
+    if (streamType !== 'webrtc') return;
+
+    const hlsUrl = getHlsFallbackUrl(url, streamId, fallbackUrl, protocol);
+    if (hlsUrl) add({ url: hlsUrl, streamType: 'hls', label, isFallback: true });
+  };
+
+  addWithFallback(primary.url, primary.streamType, PRIMARY_SOURCE_LABEL, primary.fallbackUrl);
+  sources.forEach(source => addWithFallback(source.url, source.streamType, source.label));
+  return list;
+}
+
+/**
+ * How a source is named in analytics, e.g. "Backup CDN" or "Primary (HLS fallback)"
+ */
+export function describePlaybackSource(source: PlaybackSource): string {
+  return source.isFallback ? `${source.label} (HLS fallback)` : source.label;
+}
@@ -0,0 +1,85 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { LibraryVideo, Video, VideoProgress } from '@shared/schema';
+
+// Uploads show as processing until the transcode finishes
+const PROCESSING_REFRESH_INTERVAL = 10000;
+
+// Resume points this close to either end start the video from the top instead
+const RESUME_MIN_SECONDS = 10;
+const RESUME_END_MARGIN_SECONDS = 30;
+
+export const getVideoPlaylistUrl = (videoId: string) => `/videos/${videoId}/index.m3u8`;
+export const getVideoPosterUrl = (videoId: string) => `/videos/${videoId}/poster.jpg`;
+
+/**
+ * Where to start a video - the saved position, unless the viewer barely started or had
+ * reached the credits
+ */
+export function getResumePosition(video: LibraryVideo): number {
+  const position = video.positionSeconds;
+  if (position < RESUME_MIN_SECONDS || position > video.durationSeconds - RESUME_END_MARGIN_SECONDS) return 0;
+  return position;
+}
+
+/**
+ * Ready videos with the signed-in user's resume positions, newest first
+ */
+export function useLibraryVideos() {
+  return useQuery<LibraryVideo[]>({
+    queryKey: ['/api/videos'],
+  });
+}
+
+/**
+ * Save a resume position. Silent - a failed save only costs the resume point.
+ */
+export function useSaveVideoProgress() {
+  return useMutation({
+    mutationFn: ({ videoId, positionSeconds }: { videoId: string; positionSeconds: number }): Promise<VideoProgress> =>
+      apiRequest(`/api/me/videos/${videoId}/progress`, { method: 'PUT', body: JSON.stringify({ positionSeconds }) }),
+    onSuccess: (progress) => {
+      queryClient.setQueryData<LibraryVideo[]>(['/api/videos'], (videos) =>
+        videos?.map(video => (video.id === progress.videoId ? { ...video, positionSeconds: progress.positionSeconds } : video)),
+      );
+    },
+    onError: (error) => {
+      console.warn('Failed to save video progress:', error);
+    },
+  });
+}
+
+/**
+ * Every video, including ones still processing or failed (admin only)
+ */
+export function useAdminVideos() {
+  return useQuery<Video[]>({
+    queryKey: ['/api/admin/videos'],
+    refetchInterval: (query) =>
+      query.state.data?.some(video => video.status === 'processing') ? PROCESSING_REFRESH_INTERVAL : false,
+  });
+}
+
+export function useDeleteVideo() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/admin/videos/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/videos'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/videos'] });
+      toast({
+        title: 'Video deleted',
+        description: 'The video has been removed from the library.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete video',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import ViewerSocket from '@/lib/ViewerSocket';
+
+/**
+ * Live viewer count per streamId, pushed over the /ws WebSocket.
+ * Streams nobody is watching are missing from the record.
+ */
+export function useViewerCounts(): Record<string, number> {
+  const [counts, setCounts] = useState(() => ViewerSocket.getInstance().getCounts());
+
+  useEffect(() => ViewerSocket.getInstance().subscribe(setCounts), []);
+
+  return counts;
+}
+
+/**
+ * Count this client as watching a stream while `active` is true
+ */
+export function useViewerSession(streamId: string, active: boolean) {
+  useEffect(() => {
+    if (!active || !streamId) return;
+    return ViewerSocket.getInstance().watch(streamId);
+  }, [streamId, active]);
+}
@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { InsertWallLayout, WallLayoutWithTiles } from '@shared/schema';
+
+/**
+ * Walls the signed-in user can open - shared walls first, then their own
+ */
+export function useWalls() {
+  return useQuery<WallLayoutWithTiles[]>({
+    queryKey: ['/api/walls'],
+  });
+}
+
+/**
+ * Tiles whose feed has been deleted since the wall was saved
+ */
+export function getMissingTiles(wall: WallLayoutWithTiles) {
+  return wall.tiles.filter(tile => tile.stream === null);
+}
+
+/**
+ * Create a wall, or replace an existing one when an id is given
+ */
+export function useSaveWall() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, wall }: { id?: string; wall: InsertWallLayout }): Promise<WallLayoutWithTiles> =>
+      apiRequest(id ? `/api/walls/${id}` : '/api/walls', {
+        method: id ? 'PUT' : 'POST',
+        body: JSON.stringify(wall),
+      }),
+    onSuccess: (wall, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/walls'] });
+      toast({
+        title: id ? 'Wall updated' : 'Wall saved',
+        description: wall.name,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save wall',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteWall() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/walls/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/walls'] });
+      toast({
+        title: 'Wall deleted',
+        description: 'The wall has been removed.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete wall',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { Stream, WatchHistoryEntry, WatchHistoryItem } from '@shared/schema';
+
+/**
+ * The signed-in user's watch history, newest first
+ */
+export function useWatchHistory() {
+  return useQuery<WatchHistoryItem[]>({
+    queryKey: ['/api/me/history'],
+  });
+}
+
+/**
+ * Distinct streams from a history list, most recently watched first
+ */
+export function getRecentlyWatched(history: WatchHistoryItem[], limit = 12): Stream[] {
+  const seen = new Set<string>();
+  const recent: Stream[] = [];
+  for (const item of history) {
+    if (seen.has(item.stream.id)) continue;
+    seen.add(item.stream.id);
+    recent.push(item.stream);
+    if (recent.length === limit) break;
+  }
+  return recent;
+}
+
+/**
+ * Record a history entry while the player is open. The entry is ended (and its duration
+ * stored) when the player closes or switches stream; recording failures never block playback.
+ */
+export function useRecordWatch(streamId: string, isOpen: boolean) {
+  useEffect(() => {
+    if (!isOpen || !streamId) return;
+
+    const started: Promise<WatchHistoryEntry | null> = apiRequest('/api/me/history', {
+      method: 'POST',
+      body: JSON.stringify({ streamId }),
+    }).catch((error) => {
+      console.warn(`Failed to record watch history for ${streamId}:`, error);
+      return null;
+    });
+
+    return () => {
+      started
+        .then((entry) => entry && apiRequest(`/api/me/history/${entry.id}/end`, { method: 'PUT' }))
+        .then(() => queryClient.invalidateQueries({ queryKey: ['/api/me/history'] }))
+        .catch((error) => console.warn(`Failed to end watch history for ${streamId}:`, error));
+    };
+  }, [streamId, isOpen]);
+}
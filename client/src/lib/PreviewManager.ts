@@ -18,6 +18,7 @@ class PreviewManager {
   private static instance: PreviewManager;
   private activeSlots: Map<string, PreviewSlot> = new Map();
   private maxConcurrent: number = 2; // Default for desktop
+  private maxMultiview: number = 9; // Players multiview may run at once (full 3x3 on desktop)
   private isTV: boolean = false;
   private snapshotTimer: number | null = null;
   private snapshotRegistry: Map<string, SnapshotRegistry> = new Map();
@@ -42,8 +43,23 @@ class PreviewManager {
     
     // Strict limits for TV devices
     this.maxConcurrent = this.isTV ? 1 : 2;
+    this.maxMultiview = this.isTV ? 4 : 9;
     
-    console.log(`PreviewManager: TV device detected: ${this.isTV}, Max concurrent: ${this.maxConcurrent}`);
+    console.log(`PreviewManager: TV device detected: ${this.isTV}, Max concurrent: ${this.maxConcurrent}, Max multiview: ${this.maxMultiview}`);
+  }
+
+  /**
+   * How many full players multiview may run at once on this device; extra tiles stay on their thumbnail
+   */
+  getMultiviewBudget(): number {
+    return this.maxMultiview;
+  }
+
+  /**
+   * Whether this looks like a TV device (Fire TV, webOS, Tizen, ...)
+   */
+  isTVDevice(): boolean {
+    return this.isTV;
   }
 
   /**
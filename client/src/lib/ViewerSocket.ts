@@ -0,0 +1,147 @@
+/**
+ * ViewerSocket - Singleton WebSocket to the server's /ws channel
+ * Players register the streams they are showing; every client receives live per-stream viewer counts
+ * and a notice whenever an admin changes the catalog
+ */
+
+import {
+  VIEWER_SOCKET_PATH,
+  VIEWER_HEARTBEAT_INTERVAL_MS,
+  type CatalogChangeMessage,
+  type ViewerClientMessage,
+  type ViewerServerMessage,
+} from '@shared/schema';
+
+type CountsListener = (counts: Record<string, number>) => void;
+type CatalogListener = (change: CatalogChangeMessage) => void;
+
+class ViewerSocket {
+  private static instance: ViewerSocket;
+  private socket: WebSocket | null = null;
+  private watching: Map<string, number> = new Map(); // streamId -> players registered for it
+  private listeners: Set<CountsListener> = new Set();
+  private catalogListeners: Set<CatalogListener> = new Set();
+  private counts: Record<string, number> = {};
+  private heartbeatTimer: number | null = null;
+  private reconnectTimer: number | null = null;
+  private reconnectDelay = 1000;
+  private readonly MAX_RECONNECT_DELAY = 30000;
+
+  static getInstance(): ViewerSocket {
+    if (!ViewerSocket.instance) {
+      ViewerSocket.instance = new ViewerSocket();
+    }
+    return ViewerSocket.instance;
+  }
+
+  /**
+   * Register a player for a stream. Several players (e.g. StreamModal and its HLSPlayer)
+   * may register the same stream; it is reported once. Returns the matching unregister.
+   */
+  watch(streamId: string): () => void {
+    const players = this.watching.get(streamId) ?? 0;
+    this.watching.set(streamId, players + 1);
+    if (players === 0) {
+      this.send({ type: 'watch', streamId });
+    }
+    this.connect();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const remaining = (this.watching.get(streamId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.watching.set(streamId, remaining);
+      } else {
+        this.watching.delete(streamId);
+        this.send({ type: 'unwatch', streamId });
+      }
+    };
+  }
+
+  /**
+   * Listen for viewer count updates; the listener is called right away with the latest counts
+   */
+  subscribe(listener: CountsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.counts);
+    this.connect();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for catalog changes (streams, studios, categories, programs)
+   */
+  onCatalogChange(listener: CatalogListener): () => void {
+    this.catalogListeners.add(listener);
+    this.connect();
+    return () => {
+      this.catalogListeners.delete(listener);
+    };
+  }
+
+  getCounts(): Record<string, number> {
+    return this.counts;
+  }
+
+  private connect() {
+    if (this.socket || this.reconnectTimer !== null) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}${VIEWER_SOCKET_PATH}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log('ViewerSocket: connected');
+      this.reconnectDelay = 1000;
+
+      // Re-register everything still playing, e.g. after a reconnect
+      Array.from(this.watching.keys()).forEach(streamId => this.send({ type: 'watch', streamId }));
+      this.heartbeatTimer = window.setInterval(() => this.send({ type: 'heartbeat' }), VIEWER_HEARTBEAT_INTERVAL_MS);
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data) as ViewerServerMessage;
+        if (message.type === 'viewers') {
+          this.counts = message.counts;
+          this.listeners.forEach(listener => listener(this.counts));
+        } else if (message.type === 'catalog') {
+          this.catalogListeners.forEach(listener => listener(message));
+        }
+      } catch (error) {
+        console.warn('ViewerSocket: ignoring malformed message', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.heartbeatTimer !== null) {
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = null;
+      }
+      this.socket = null;
+
+      // Only reconnect while something still needs the socket
+      if (this.watching.size === 0 && this.listeners.size === 0 && this.catalogListeners.size === 0) return;
+
+      console.log(`ViewerSocket: disconnected, reconnecting in ${this.reconnectDelay / 1000}s`);
+      this.reconnectTimer = window.setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.MAX_RECONNECT_DELAY);
+    };
+  }
+
+  private send(message: ViewerClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export default ViewerSocket;
@@ -0,0 +1,56 @@
+// Remote left/right on the scrub bar moves this far
+export const DVR_SEEK_STEP_SECONDS = 10;
+
+// Closer than this to the live edge counts as watching live
+export const LIVE_EDGE_TOLERANCE_SECONDS = 5;
+
+export interface DvrRange {
+  start: number; // earliest position the viewer may seek to
+  end: number; // end of the playlist
+  liveEdge: number; // where "jump to live" lands - a little behind the end, as hls.js plays live
+}
+
+/**
+ * The seekable part of a live stream: the playlist's DVR window, trimmed to the stream's
+ * rewind setting. Null for VOD playlists or before the first playlist has loaded.
+ */
+export function getDvrRange(video: HTMLVideoElement, hls: any | null, windowSeconds: number): DvrRange | null {
+  if (windowSeconds <= 0) return null;
+
+  let start: number;
+  let end: number;
+  let liveEdge: number;
+  if (hls) {
+    const details = hls.latestLevelDetails;
+    if (!details?.live || details.fragments.length === 0) return null;
+    start = details.fragmentStart;
+    end = details.edge;
+    liveEdge = hls.liveSyncPosition ?? end;
+  } else {
+    // Native HLS exposes a live stream as infinite duration with a sliding seekable range
+    if (video.duration !== Infinity || video.seekable.length === 0) return null;
+    start = video.seekable.start(0);
+    end = video.seekable.end(video.seekable.length - 1);
+    liveEdge = end;
+  }
+
+  return { start: Math.max(start, end - windowSeconds), end, liveEdge: Math.min(liveEdge, end) };
+}
+
+/**
+ * A position or length on a seek bar, e.g. "2:05" or "1:02:30"
+ */
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Time behind live as shown on the scrub bar, e.g. "-2:05" or "-1:02:30"
+ */
+export function formatBehindLive(seconds: number): string {
+  return `-${formatPlaybackTime(seconds)}`;
+}
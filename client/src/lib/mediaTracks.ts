@@ -0,0 +1,61 @@
+// An audio or caption track offered in the player's menus
+export interface MediaTrackOption {
+  id: string; // audio: hls.js track index; captions: "subtitles:<index>" or "captions:<CEA channel>"
+  label: string;
+  language: string | null; // BCP 47 code from the playlist, when it has one
+}
+
+export const CAPTIONS_OFF = 'off';
+
+const CUE_RETENTION_SECONDS = 30;
+
+/**
+ * What a preference stores for a track - the language code, or the name when the
+ * playlist doesn't tag one, so it carries across streams with different track orders
+ */
+export function getTrackPreference(track: MediaTrackOption): string {
+  return track.language || track.label;
+}
+
+/**
+ * The track matching a saved preference. "en" matches an "en-US" track, so a preference
+ * saved on one feed still applies to a feed tagged more precisely.
+ */
+export function findPreferredTrack(tracks: MediaTrackOption[], preference: string | null | undefined): MediaTrackOption | undefined {
+  if (!preference) return undefined;
+  const wanted = preference.toLowerCase();
+  const language = (track: MediaTrackOption) => track.language?.toLowerCase() ?? '';
+
+  return tracks.find(track => language(track) === wanted)
+    ?? tracks.find(track => language(track).split('-')[0] === wanted.split('-')[0] && language(track) !== '')
+    ?? tracks.find(track => track.label.toLowerCase() === wanted);
+}
+
+/**
+ * Caption lines to show at `time`. Cue markup (<i>, <c.yellow>...) is dropped - the overlay
+ * uses one TV-safe style for everything.
+ */
+export function getActiveCaptionLines(cues: VTTCue[], time: number): string[] {
+  return cues
+    .filter(cue => cue.startTime <= time && cue.endTime > time)
+    .sort((a, b) => a.startTime - b.startTime)
+    .flatMap(cue => cue.text.replace(/<[^>]+>/g, '').split('\n'))
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Drop cues that ended well behind the playhead so a long session doesn't keep every caption
+ */
+export function pruneCaptionCues(cues: VTTCue[], time: number): VTTCue[] {
+  return cues.filter(cue => cue.endTime > time - CUE_RETENTION_SECONDS);
+}
+
+/**
+ * Language of a CEA-608 channel ("textTrack1".."textTrack4") when the playlist doesn't
+ * declare it - hls.js reads those from captionsTextTrack<N>LanguageCode in its config
+ */
+export function getCaptionChannelLanguage(config: any, channelId: string): string | null {
+  const key = `captions${channelId.charAt(0).toUpperCase()}${channelId.slice(1)}LanguageCode`;
+  return config?.[key] || null;
+}
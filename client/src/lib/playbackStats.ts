@@ -0,0 +1,102 @@
+import type { PlaybackStats } from '@shared/schema';
+
+// How often the players sample their stats for the overlay
+export const STATS_SAMPLE_INTERVAL_MS = 5000;
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Samples an RTCPeerConnection. Bitrate and packet loss are rates, so each call
+ * compares against the previous one - the first sample leaves them null.
+ */
+export function createWebRTCStatsSampler(pc: RTCPeerConnection): () => Promise<PlaybackStats> {
+  let previous: { timestamp: number; bytes: number; packetsReceived: number; packetsLost: number } | null = null;
+
+  return async () => {
+    const report = await pc.getStats();
+    let video: any = null;
+    let audio: any = null;
+    let pair: any = null;
+
+    report.forEach((entry: any) => {
+      if (entry.type === 'inbound-rtp' && (entry.kind ?? entry.mediaType) === 'video') video = entry;
+      if (entry.type === 'inbound-rtp' && (entry.kind ?? entry.mediaType) === 'audio') audio = entry;
+      if (entry.type === 'candidate-pair' && entry.state === 'succeeded' && (entry.nominated || !pair)) pair = entry;
+    });
+
+    const bytes = (video?.bytesReceived ?? 0) + (audio?.bytesReceived ?? 0);
+    const packetsReceived = (video?.packetsReceived ?? 0) + (audio?.packetsReceived ?? 0);
+    const packetsLost = (video?.packetsLost ?? 0) + (audio?.packetsLost ?? 0);
+    const timestamp = video?.timestamp ?? Date.now();
+
+    let bitrateKbps: number | null = null;
+    let packetLossPercent: number | null = null;
+    if (previous && timestamp > previous.timestamp) {
+      bitrateKbps = round(((bytes - previous.bytes) * 8) / (timestamp - previous.timestamp));
+      const received = packetsReceived - previous.packetsReceived;
+      const lost = Math.max(0, packetsLost - previous.packetsLost);
+      packetLossPercent = received + lost > 0 ? round((lost / (received + lost)) * 100, 2) : 0;
+    }
+    previous = { timestamp, bytes, packetsReceived, packetsLost };
+
+    return {
+      width: video?.frameWidth ?? null,
+      height: video?.frameHeight ?? null,
+      fps: video?.framesPerSecond != null ? round(video.framesPerSecond) : null,
+      bitrateKbps: bitrateKbps !== null ? Math.max(0, bitrateKbps) : null,
+      packetLossPercent,
+      jitterMs: video?.jitter != null ? round(video.jitter * 1000) : null,
+      rttMs: pair?.currentRoundTripTime != null ? round(pair.currentRoundTripTime * 1000) : null,
+      bufferSeconds: null,
+      qualityLevel: null,
+      droppedFrames: video?.framesDropped ?? null,
+    };
+  };
+}
+
+/**
+ * Samples an HLS player - hls.js when given, otherwise the video element alone (native HLS).
+ * Fps is measured from decoded frames between calls.
+ */
+export function createHlsStatsSampler(video: HTMLVideoElement, hls: any | null): () => PlaybackStats {
+  let previous: { time: number; frames: number } | null = null;
+
+  return () => {
+    const quality = typeof video.getVideoPlaybackQuality === 'function' ? video.getVideoPlaybackQuality() : null;
+    const now = performance.now();
+
+    let fps: number | null = null;
+    if (quality && previous && now > previous.time) {
+      fps = round(((quality.totalVideoFrames - previous.frames) * 1000) / (now - previous.time));
+    }
+    if (quality) {
+      previous = { time: now, frames: quality.totalVideoFrames };
+    }
+
+    // Seconds buffered ahead of the playhead
+    let bufferSeconds: number | null = null;
+    for (let i = 0; i < video.buffered.length; i++) {
+      if (video.buffered.start(i) <= video.currentTime && video.buffered.end(i) >= video.currentTime) {
+        bufferSeconds = round(video.buffered.end(i) - video.currentTime);
+      }
+    }
+
+    const level = hls && hls.currentLevel >= 0 ? hls.levels?.[hls.currentLevel] : null;
+
+    return {
+      width: video.videoWidth || null,
+      height: video.videoHeight || null,
+      fps: fps !== null ? Math.max(0, fps) : null,
+      bitrateKbps: level?.bitrate ? round(level.bitrate / 1000) : null,
+      packetLossPercent: null,
+      jitterMs: null,
+      rttMs: null,
+      bufferSeconds,
+      qualityLevel: hls ? hls.currentLevel : null,
+      droppedFrames: quality ? quality.droppedVideoFrames : null,
+    };
+  };
+}
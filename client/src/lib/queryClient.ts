@@ -99,6 +99,29 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * Fire-and-forget POST that still goes out while the page unloads.
+ * Beacons cannot set headers, so the CSRF token travels in the body as `_csrf`.
+ */
+export function sendBeacon(url: string, payload: Record<string, unknown>): void {
+  const send = (csrfToken: string | null) => {
+    const body = new Blob([JSON.stringify({ ...payload, _csrf: csrfToken })], { type: 'application/json' });
+    try {
+      if (navigator.sendBeacon(url, body)) return;
+    } catch (error) {
+      // Some browsers refuse JSON beacons - fall through to a keepalive fetch
+    }
+    fetch(url, { method: 'POST', body, credentials: 'include', keepalive: true }).catch(() => {});
+  };
+
+  // Use the cached token when there is one so unload beacons go out synchronously
+  if (cachedCsrfToken) {
+    send(cachedCsrfToken);
+  } else {
+    getCSRFToken().then(send, () => send(null));
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,106 @@
+import { useQuery } from '@tanstack/react-query';
+import { BellRing } from 'lucide-react';
+import { useMediaAlerts, MEDIA_ALERT_BADGES } from '@/hooks/use-media-alerts';
+import type { GroupedStreams } from '@/hooks/use-categories';
+import { formatPlaybackTime } from '@/lib/dvr';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const formatDateTime = (isoTime: string) =>
+  new Date(isoTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'medium' });
+
+export default function AlertsPage() {
+  const { data: alerts = [], isLoading, error } = useMediaAlerts();
+
+  // Alerts carry the streamId the workers know; look titles up from the catalog
+  const { data: streamData } = useQuery<GroupedStreams>({
+    queryKey: ['/api/streams'],
+  });
+  const streamTitles = new Map(
+    (streamData ? Object.values(streamData).flat() : []).map(stream => [stream.streamId, stream.title])
+  );
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-alerts-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-sm text-muted-foreground mb-6">
+            Black pictures, frozen pictures and silent audio are detected while a stream's preview is
+            being captured, so only streams someone is browsing are watched. Detection is off unless the
+            server runs with SNAPSHOT_MEDIA_ALERTS=true. Alerts are kept in memory and start over when the
+            server restarts.
+          </div>
+
+          <div className="border rounded-md max-h-[calc(100vh-300px)] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Stream</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead>Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8" data-testid="text-loading-alerts">
+                      Loading alerts...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-red-400" data-testid="text-error-alerts">
+                      Failed to load alerts: {(error as any).message || 'Unknown error'}
+                    </TableCell>
+                  </TableRow>
+                ) : alerts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      <BellRing className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                      No alerts
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  alerts.map((alert) => (
+                    <TableRow key={alert.id} data-testid={`row-alert-${alert.id}`}>
+                      <TableCell className="text-sm">{formatDateTime(alert.startedAt)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{streamTitles.get(alert.streamId) ?? alert.streamId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`w-fit ${MEDIA_ALERT_BADGES[alert.type].className}`} data-testid={`badge-type-${alert.id}`}>
+                          {MEDIA_ALERT_BADGES[alert.type].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">
+                        {alert.endedAt ? (
+                          formatPlaybackTime((Date.parse(alert.endedAt) - Date.parse(alert.startedAt)) / 1000)
+                        ) : (
+                          <Badge className="w-fit bg-red-500 text-white" data-testid={`badge-ongoing-${alert.id}`}>
+                            Ongoing
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { BarChart3, Search } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { DeviceClass, PlaybackAnalytics, PlaybackSessionDetail } from '@shared/schema';
+import { formatBitrate } from '@/components/PlaybackStatsPanel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+// Analytics windows, in hours
+const WINDOWS = [
+  { hours: 6, label: 'Last 6 hours' },
+  { hours: 24, label: 'Last 24 hours' },
+  { hours: 24 * 7, label: 'Last 7 days' },
+  { hours: 24 * 30, label: 'Last 30 days' },
+];
+
+const DEVICE_LABELS: Record<DeviceClass, string> = {
+  firetv: 'Fire TV',
+  tv: 'Other TV',
+  desktop: 'Desktop / Mobile',
+};
+
+const concurrentConfig = {
+  viewers: { label: 'Viewers', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const topStreamsConfig = {
+  sessions: { label: 'Sessions', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const formatWatchTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatStat = (value: number | null, unit = '') => (value === null ? '—' : `${value}${unit}`);
+
+// Look up one session by the id a viewer read off their stats overlay
+function SessionLookup() {
+  const [input, setInput] = useState('');
+  const [sessionId, setSessionId] = useState('');
+
+  const { data: detail, isLoading, error } = useQuery<PlaybackSessionDetail>({
+    queryKey: ['/api/admin/analytics/sessions', sessionId],
+    enabled: !!sessionId,
+    retry: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Troubleshoot a Session</CardTitle>
+        <CardDescription>Enter the session ID shown in the player's stats overlay (Info key)</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSessionId(input.trim());
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Session ID"
+            className="font-mono"
+            data-testid="input-session-id"
+          />
+          <Button type="submit" disabled={!input.trim()} data-testid="button-lookup-session">
+            <Search className="w-4 h-4 mr-2" />
+            Look Up
+          </Button>
+        </form>
+
+        {sessionId && isLoading && (
+          <div className="text-muted-foreground" data-testid="text-loading-session">Loading session...</div>
+        )}
+        {sessionId && error && (
+          <div className="text-red-400" data-testid="text-error-session">
+            {(error as any)?.message?.startsWith('404') ? 'No session with that ID' : 'Failed to load session'}
+          </div>
+        )}
+
+        {detail && (
+          <div className="space-y-4" data-testid="session-detail">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Stream</div>
+                <div className="font-medium">{detail.streamTitle ?? detail.session.streamId}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Viewer</div>
+                <div className="font-medium">{detail.username ?? 'Unknown'}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Device</div>
+                <div className="font-medium">
+                  {DEVICE_LABELS[detail.session.deviceClass]} · {detail.session.streamType.toUpperCase()}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Started</div>
+                <div className="font-medium">{new Date(detail.session.startedAt).toLocaleString()}</div>
+              </div>
+            </div>
+            <div className="text-sm" data-testid="text-session-source">
+              <span className="text-muted-foreground">Served by: </span>
+              <span>{detail.session.source ?? 'No source started playing'}</span>
+            </div>
+            {detail.session.error && (
+              <div className="text-sm">
+                <span className="text-muted-foreground">Last error: </span>
+                <span className="text-red-400">{detail.session.error}</span>
+              </div>
+            )}
+
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead>FPS</TableHead>
+                    <TableHead>Bitrate</TableHead>
+                    <TableHead>Loss</TableHead>
+                    <TableHead>Jitter</TableHead>
+                    <TableHead>RTT</TableHead>
+                    <TableHead>Buffer</TableHead>
+                    <TableHead>Dropped</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.samples.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                        No stats samples reported for this session
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    detail.samples.map(sample => (
+                      <TableRow key={sample.id} className="font-mono text-sm" data-testid={`row-sample-${sample.id}`}>
+                        <TableCell>{new Date(sample.recordedAt).toLocaleTimeString()}</TableCell>
+                        <TableCell>{sample.width && sample.height ? `${sample.width}x${sample.height}` : '—'}</TableCell>
+                        <TableCell>{formatStat(sample.fps)}</TableCell>
+                        <TableCell>{formatBitrate(sample.bitrateKbps)}</TableCell>
+                        <TableCell>{formatStat(sample.packetLossPercent, '%')}</TableCell>
+                        <TableCell>{formatStat(sample.jitterMs, ' ms')}</TableCell>
+                        <TableCell>{formatStat(sample.rttMs, ' ms')}</TableCell>
+                        <TableCell>{formatStat(sample.bufferSeconds, ' s')}</TableCell>
+                        <TableCell>{formatStat(sample.droppedFrames)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AnalyticsPage() {
+  const [hours, setHours] = useState(24);
+
+  const { data: analytics, isLoading, error } = useQuery<PlaybackAnalytics>({
+    queryKey: ['/api/admin/analytics', hours],
+    queryFn: () => apiRequest(`/api/admin/analytics?hours=${hours}`),
+    refetchInterval: 60000,
+  });
+
+  // Short windows label the axis by time of day, longer ones by date
+  const formatBucketTime = (time: string) =>
+    hours <= 24
+      ? new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+      : new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg" data-testid="text-loading-analytics">Loading analytics...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-400 text-lg" data-testid="text-error-analytics">
+            Failed to load analytics: {(error as any)?.message || 'Unknown error'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const peakViewers = Math.max(0, ...analytics.concurrentViewers.map(point => point.viewers));
+  const failedSessions = analytics.failureRates.reduce((sum, row) => sum + row.failures, 0);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6" data-testid="admin-analytics-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <BarChart3 className="w-8 h-8" />
+            Viewer Analytics
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Who is watching which feed, reported by the player on every device
+          </p>
+        </div>
+        <Select value={String(hours)} onValueChange={(value) => setHours(Number(value))}>
+          <SelectTrigger className="w-44" data-testid="select-analytics-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOWS.map(window => (
+              <SelectItem key={window.hours} value={String(window.hours)}>{window.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { id: 'sessions', label: 'Sessions', value: analytics.totalSessions },
+          { id: 'viewers', label: 'Unique Viewers', value: analytics.uniqueViewers },
+          { id: 'peak', label: 'Peak Concurrent', value: peakViewers },
+          { id: 'watch-time', label: 'Watch Time', value: formatWatchTime(analytics.totalWatchSeconds) },
+        ].map(stat => (
+          <Card key={stat.id}>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">{stat.label}</div>
+              <div className="text-3xl font-bold" data-testid={`text-stat-${stat.id}`}>{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Concurrent viewers over time */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Concurrent Viewers</CardTitle>
+          <CardDescription>Open players across all streams</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={concurrentConfig} className="h-64 w-full aspect-auto" data-testid="chart-concurrent-viewers">
+            <AreaChart data={analytics.concurrentViewers} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatBucketTime} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()} />}
+              />
+              <Area
+                dataKey="viewers"
+                type="stepAfter"
+                fill="var(--color-viewers)"
+                fillOpacity={0.3}
+                stroke="var(--color-viewers)"
+              />
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Top streams */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Streams</CardTitle>
+            <CardDescription>By number of sessions</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.topStreams.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground" data-testid="text-no-sessions">
+                No playback sessions in this window
+              </div>
+            ) : (
+              <ChartContainer config={topStreamsConfig} className="h-72 w-full aspect-auto" data-testid="chart-top-streams">
+                <BarChart data={analytics.topStreams} layout="vertical" margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="title" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Devices */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Devices</CardTitle>
+            <CardDescription>Sessions by device class</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {analytics.devices.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No playback sessions in this window</div>
+              ) : (
+                analytics.devices.map(device => (
+                  <div key={device.deviceClass} className="flex items-center justify-between" data-testid={`row-device-${device.deviceClass}`}>
+                    <span>{DEVICE_LABELS[device.deviceClass]}</span>
+                    <span className="font-mono text-sm">
+                      {device.sessions} ({formatPercent(device.sessions / analytics.totalSessions)})
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Failure rates */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Failure Rates</CardTitle>
+          <CardDescription>
+            {failedSessions} of {analytics.totalSessions} sessions reported a playback error
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stream</TableHead>
+                  <TableHead>Sessions</TableHead>
+                  <TableHead>Failures</TableHead>
+                  <TableHead>Failure Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.failureRates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      No playback sessions in this window
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  analytics.failureRates.map(row => (
+                    <TableRow key={row.streamId} data-testid={`row-failure-${row.streamId}`}>
+                      <TableCell className="font-medium">{row.title}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.sessions}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.failures}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.failureRate >= 0.25 ? 'destructive' : row.failureRate > 0 ? 'secondary' : 'outline'}>
+                          {formatPercent(row.failureRate)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <SessionLookup />
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Plus, Edit, Trash2, Eye, EyeOff } from 'lucide-react';
+import { Link } from 'wouter';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories, getCategoryIcon, BUILT_IN_CATEGORIES, type GroupedStreams } from '@/hooks/use-categories';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+export default function CategoriesListPage() {
+  const { toast } = useToast();
+
+  // Fetch all categories, hidden ones included
+  const { data: categories, isLoading, error } = useCategories();
+
+  // Stream counts per category
+  const { data: streamData } = useQuery<GroupedStreams>({
+    queryKey: ['/api/streams'],
+  });
+
+  // Delete category mutation
+  const deleteCategoryMutation = useMutation({
+    mutationFn: (categoryId: string) => apiRequest(`/api/categories/${categoryId}`, {
+      method: 'DELETE',
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/streams'] });
+      toast({
+        title: 'Category deleted',
+        description: 'The category has been successfully deleted.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete category',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg" data-testid="text-loading-categories">Loading categories...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-400 text-lg" data-testid="text-error-categories">
+            Failed to load categories: {(error as any).message || 'Unknown error'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const allCategories = categories || [];
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-categories-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl font-bold">Manage Categories</CardTitle>
+            <Button asChild data-testid="button-add-category">
+              <Link href="/admin/categories/new">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Category
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-sm text-muted-foreground mb-6" data-testid="text-categories-count">
+            {allCategories.length} categories, shown on the home screen and navigation in sort order
+          </div>
+
+          {/* Categories Table */}
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Icon</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Visibility</TableHead>
+                  <TableHead>Streams</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {allCategories.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      No categories found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  allCategories.map((category) => {
+                    const Icon = getCategoryIcon(category.icon);
+                    const streamCount = streamData?.[category.slug]?.length ?? 0;
+                    const isBuiltIn = BUILT_IN_CATEGORIES.includes(category.slug);
+                    return (
+                      <TableRow key={category.id} data-testid={`row-category-${category.id}`}>
+                        <TableCell className="font-mono text-sm">{category.sortOrder}</TableCell>
+                        <TableCell>
+                          <Icon className="w-5 h-5 text-muted-foreground" />
+                        </TableCell>
+                        <TableCell className="font-medium">{category.label}</TableCell>
+                        <TableCell className="font-mono text-sm">{category.slug}</TableCell>
+                        <TableCell>
+                          {category.visible ? (
+                            <Badge className="flex items-center gap-1 w-fit bg-green-500 text-white" data-testid={`badge-visible-${category.id}`}>
+                              <Eye className="w-3 h-3" />
+                              Visible
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="flex items-center gap-1 w-fit" data-testid={`badge-visible-${category.id}`}>
+                              <EyeOff className="w-3 h-3" />
+                              Hidden
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-mono text-sm">{streamCount}</span> streams
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center gap-2 justify-end">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              asChild
+                              data-testid={`button-edit-${category.id}`}
+                            >
+                              <Link href={`/admin/categories/edit/${category.id}`}>
+                                <Edit className="w-4 h-4" />
+                              </Link>
+                            </Button>
+                            {!isBuiltIn && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                                  data-testid={`button-delete-${category.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Category</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {streamCount > 0
+                                      ? `"${category.label}" still has ${streamCount} stream(s). Move them to another category before deleting it.`
+                                      : `Are you sure you want to delete "${category.label}"? This action cannot be undone.`}
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel data-testid={`button-cancel-delete-${category.id}`}>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => deleteCategoryMutation.mutate(category.id)}
+                                    disabled={streamCount > 0}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    data-testid={`button-confirm-delete-${category.id}`}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useEffect } from 'react';
+import { useParams, useLocation } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Save } from 'lucide-react';
+import { Link } from 'wouter';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories, CATEGORY_ICONS, BUILT_IN_CATEGORIES } from '@/hooks/use-categories';
+import { insertCategorySchema } from '@shared/schema';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+
+// Enhanced form schema with validation
+const categoryFormSchema = insertCategorySchema.extend({
+  sortOrder: z.coerce.number().int('Sort order must be a whole number').default(0),
+  icon: z.string().min(1, 'Icon is required'),
+  visible: z.boolean().default(true),
+});
+
+type CategoryFormData = z.infer<typeof categoryFormSchema>;
+
+export default function CategoryFormPage() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const isEditing = !!id;
+
+  // Categories are a small list, so editing reads from the cached list
+  const { data: categories, isLoading: categoriesLoading } = useCategories();
+  const category = categories?.find(c => c.id === id);
+
+  // Featured and Studios have dedicated screens that look them up by slug
+  const isBuiltIn = !!category && BUILT_IN_CATEGORIES.includes(category.slug);
+
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: {
+      slug: '',
+      label: '',
+      sortOrder: categories?.length ?? 0,
+      icon: 'tv',
+      visible: true,
+    },
+  });
+
+  // Update form when category data loads
+  useEffect(() => {
+    if (category && isEditing) {
+      form.reset({
+        slug: category.slug,
+        label: category.label,
+        sortOrder: category.sortOrder,
+        icon: category.icon,
+        visible: category.visible,
+      });
+    }
+  }, [category, isEditing, form]);
+
+  const invalidateCategories = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/streams'] });
+  };
+
+  // Create/update mutations
+  const createCategoryMutation = useMutation({
+    mutationFn: (data: CategoryFormData) => apiRequest('/api/categories', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+    onSuccess: () => {
+      invalidateCategories();
+      toast({
+        title: 'Category created',
+        description: 'The category has been successfully created.',
+      });
+      navigate('/admin/categories');
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create category',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: (data: CategoryFormData) => apiRequest(`/api/categories/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+    onSuccess: () => {
+      invalidateCategories();
+      toast({
+        title: 'Category updated',
+        description: 'The category has been successfully updated.',
+      });
+      navigate('/admin/categories');
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update category',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: CategoryFormData) => {
+    if (isEditing) {
+      updateCategoryMutation.mutate(data);
+    } else {
+      createCategoryMutation.mutate(data);
+    }
+  };
+
+  if (categoriesLoading && isEditing) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg" data-testid="text-loading-category">Loading category...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const isLoading = createCategoryMutation.isPending || updateCategoryMutation.isPending;
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto" data-testid="admin-category-form-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" asChild data-testid="button-back-to-categories">
+              <Link href="/admin/categories">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Categories
+              </Link>
+            </Button>
+            <CardTitle className="text-2xl font-bold">
+              {isEditing ? 'Edit Category' : 'Add New Category'}
+            </CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Basic Information */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="label"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Label</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g., Sports"
+                          data-testid="input-label"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slug"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Slug</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g., sports"
+                          disabled={isBuiltIn}
+                          data-testid="input-slug"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {isBuiltIn
+                          ? 'Built-in category - the slug cannot be changed.'
+                          : 'Stored on each stream. Renaming moves the streams along with it.'}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Display */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="icon"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Icon</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        data-testid="select-icon"
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select icon" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                            <SelectItem key={name} value={name}>
+                              <div className="flex items-center gap-2">
+                                <Icon className="w-4 h-4" />
+                                {name.charAt(0).toUpperCase() + name.slice(1)}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="sortOrder"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sort Order</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="0"
+                          data-testid="input-sort-order"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>Lower numbers appear first in navigation and on the home screen.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="visible"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-4">
+                    <div>
+                      <FormLabel>Visible</FormLabel>
+                      <FormDescription>Hidden categories keep their streams but are not shown to viewers.</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-visible"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {/* Form Actions */}
+              <div className="flex items-center gap-4 pt-6">
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  data-testid="button-save-category"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {isLoading ? 'Saving...' : isEditing ? 'Update Category' : 'Create Category'}
+                </Button>
+                <Button variant="outline" asChild data-testid="button-cancel-category">
+                  <Link href="/admin/categories">Cancel</Link>
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { Download, Trash2, Scissors } from 'lucide-react';
+import { useClips, useDeleteClip } from '@/hooks/use-clips';
+import { formatPlaybackTime } from '@/lib/dvr';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import type { ClipStatus } from '@shared/schema';
+
+const STATUS_BADGES: Record<ClipStatus, { label: string; className: string }> = {
+  processing: { label: 'Cutting', className: 'bg-blue-500 text-white' },
+  ready: { label: 'Ready', className: 'bg-green-500 text-white' },
+  failed: { label: 'Failed', className: 'bg-orange-500 text-white' },
+};
+
+const formatDateTime = (isoTime: string) =>
+  new Date(isoTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'medium' });
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function ClipsPage() {
+  const { data: clips = [], isLoading, error } = useClips();
+  const deleteMutation = useDeleteClip();
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-clips-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Clips</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-sm text-muted-foreground mb-6">
+            Clips are cut from the player with the scissors button while watching a live stream.
+          </div>
+
+          <div className="border rounded-md max-h-[calc(100vh-300px)] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ends At</TableHead>
+                  <TableHead>Clipped By</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8" data-testid="text-loading-clips">
+                      Loading clips...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-red-400" data-testid="text-error-clips">
+                      Failed to load clips: {(error as any).message || 'Unknown error'}
+                    </TableCell>
+                  </TableRow>
+                ) : clips.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      <Scissors className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                      No clips yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  clips.map((clip) => (
+                    <TableRow key={clip.id} data-testid={`row-clip-${clip.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{clip.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {clip.streamTitle}{clip.streamId ? '' : ' (deleted)'}
+                        </div>
+                        {clip.error && (
+                          <div className="text-xs text-orange-400 max-w-md truncate" title={clip.error}>
+                            {clip.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`w-fit ${STATUS_BADGES[clip.status].className}`} data-testid={`badge-status-${clip.id}`}>
+                          {STATUS_BADGES[clip.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDateTime(clip.createdAt)}</TableCell>
+                      <TableCell className="text-sm">{clip.createdByUsername ?? '—'}</TableCell>
+                      <TableCell className="text-sm font-mono">{formatPlaybackTime(clip.durationSeconds)}</TableCell>
+                      <TableCell className="text-sm">{clip.status === 'ready' ? formatFileSize(clip.sizeBytes) : '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center gap-2 justify-end">
+                          {clip.status === 'ready' && (
+                            <Button variant="outline" size="sm" asChild data-testid={`button-download-${clip.id}`}>
+                              <a href={`/api/admin/clips/${clip.id}/download`} download title="Download MP4">
+                                <Download className="w-4 h-4" />
+                              </a>
+                            </Button>
+                          )}
+                          {clip.status !== 'processing' && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                                  data-testid={`button-delete-${clip.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Clip</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete "{clip.title}"? This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel data-testid={`button-cancel-delete-${clip.id}`}>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => deleteMutation.mutate(clip.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    data-testid={`button-confirm-delete-${clip.id}`}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,508 @@
+import { useState, useRef } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, Upload, CalendarClock } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { type GroupedStreams } from '@/hooks/use-categories';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import type { Program } from '@shared/schema';
+
+interface XmltvImportResult {
+  imported: number;
+  skipped: number;
+  matchedChannels: string[];
+  unmatchedChannels: string[];
+}
+
+// datetime-local inputs work in local time without a zone; the API stores UTC ISO strings
+const programFormSchema = z.object({
+  streamId: z.string().min(1, 'Stream is required'),
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+  description: z.string().max(2000, 'Description too long'),
+  startTime: z.string().min(1, 'Start time is required'),
+  endTime: z.string().min(1, 'End time is required'),
+}).refine((data) => new Date(data.endTime) > new Date(data.startTime), {
+  message: 'End time must be after start time',
+  path: ['endTime'],
+});
+
+type ProgramFormData = z.infer<typeof programFormSchema>;
+
+const toLocalInputValue = (isoTime: string) => {
+  const date = new Date(isoTime);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const formatDateTime = (isoTime: string) =>
+  new Date(isoTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function ProgramsListPage() {
+  const [streamFilter, setStreamFilter] = useState<string>('all');
+  const [editingProgram, setEditingProgram] = useState<Program | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importResult, setImportResult] = useState<XmltvImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Show today's schedule onwards
+  const [fromTime] = useState(() => {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    return startOfDay.toISOString();
+  });
+
+  const { data: streamData } = useQuery<GroupedStreams>({
+    queryKey: ['/api/streams'],
+  });
+
+  const allStreams = Object.values(streamData || {})
+    .flat()
+    .sort((a, b) => a.title.localeCompare(b.title));
+  const streamsById = new Map(allStreams.map(stream => [stream.id, stream]));
+
+  const { data: programs = [], isLoading, error } = useQuery<Program[]>({
+    queryKey: ['/api/programs', streamFilter, fromTime],
+    queryFn: () => {
+      const params = new URLSearchParams({ from: fromTime });
+      if (streamFilter !== 'all') params.set('streamId', streamFilter);
+      return apiRequest(`/api/programs?${params.toString()}`);
+    },
+  });
+
+  const form = useForm<ProgramFormData>({
+    resolver: zodResolver(programFormSchema),
+    defaultValues: {
+      streamId: '',
+      title: '',
+      description: '',
+      startTime: '',
+      endTime: '',
+    },
+  });
+
+  const invalidatePrograms = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/programs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/programs/now'] });
+  };
+
+  const saveProgramMutation = useMutation({
+    mutationFn: (data: ProgramFormData) => {
+      const payload = {
+        ...data,
+        startTime: new Date(data.startTime).toISOString(),
+        endTime: new Date(data.endTime).toISOString(),
+      };
+      return editingProgram
+        ? apiRequest(`/api/admin/programs/${editingProgram.id}`, { method: 'PUT', body: JSON.stringify(payload) })
+        : apiRequest('/api/admin/programs', { method: 'POST', body: JSON.stringify(payload) });
+    },
+    onSuccess: () => {
+      invalidatePrograms();
+      setIsFormOpen(false);
+      toast({
+        title: editingProgram ? 'Program updated' : 'Program created',
+        description: 'The program guide has been updated.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save program',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteProgramMutation = useMutation({
+    mutationFn: (programId: string) => apiRequest(`/api/admin/programs/${programId}`, {
+      method: 'DELETE',
+    }),
+    onSuccess: () => {
+      invalidatePrograms();
+      toast({
+        title: 'Program deleted',
+        description: 'The program has been removed from the guide.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete program',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (xml: string): Promise<XmltvImportResult> => apiRequest('/api/admin/programs/import', {
+      method: 'POST',
+      body: JSON.stringify({ xml }),
+    }),
+    onSuccess: (result) => {
+      invalidatePrograms();
+      setImportResult(result);
+      toast({
+        title: 'Guide imported',
+        description: `${result.imported} programs imported, ${result.skipped} skipped.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Import failed',
+        description: error.message || 'Failed to import XMLTV file',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCreateForm = () => {
+    setEditingProgram(null);
+    form.reset({
+      streamId: streamFilter !== 'all' ? streamFilter : '',
+      title: '',
+      description: '',
+      startTime: '',
+      endTime: '',
+    });
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (program: Program) => {
+    setEditingProgram(program);
+    form.reset({
+      streamId: program.streamId,
+      title: program.title,
+      description: program.description,
+      startTime: toLocalInputValue(program.startTime),
+      endTime: toLocalInputValue(program.endTime),
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleImportFile = async () => {
+    const file = fileInputRef.current?.files?.[0];
+    if (!file) {
+      toast({
+        title: 'No file selected',
+        description: 'Choose an XMLTV (.xml) file to import.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    importMutation.mutate(await file.text());
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-programs-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl font-bold">Program Guide</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setImportResult(null);
+                  setIsImportOpen(true);
+                }}
+                data-testid="button-import-xmltv"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import XMLTV
+              </Button>
+              <Button onClick={openCreateForm} data-testid="button-add-program">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Program
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Stream Filter */}
+          <div className="flex items-center gap-4 mb-6">
+            <Select value={streamFilter} onValueChange={setStreamFilter}>
+              <SelectTrigger className="w-72" data-testid="select-program-stream-filter">
+                <SelectValue placeholder="Filter by stream" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Streams</SelectItem>
+                {allStreams.map(stream => (
+                  <SelectItem key={stream.id} value={stream.id}>
+                    {stream.title} ({stream.streamId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-sm text-muted-foreground" data-testid="text-programs-count">
+              {programs.length} programs from today onwards
+            </div>
+          </div>
+
+          {/* Programs Table */}
+          <div className="border rounded-md max-h-[calc(100vh-300px)] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stream</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>End</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8" data-testid="text-loading-programs">
+                      Loading programs...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-red-400" data-testid="text-error-programs">
+                      Failed to load programs: {(error as any).message || 'Unknown error'}
+                    </TableCell>
+                  </TableRow>
+                ) : programs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      <CalendarClock className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                      No programs scheduled
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  programs.map((program) => (
+                    <TableRow key={program.id} data-testid={`row-program-${program.id}`}>
+                      <TableCell className="font-mono text-sm">
+                        {streamsById.get(program.streamId)?.streamId || 'Unknown'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{program.title}</div>
+                        {program.description && (
+                          <div className="text-xs text-muted-foreground max-w-md truncate">{program.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDateTime(program.startTime)}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(program.endTime)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openEditForm(program)}
+                            data-testid={`button-edit-${program.id}`}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                                data-testid={`button-delete-${program.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Program</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{program.title}"? This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel data-testid={`button-cancel-delete-${program.id}`}>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteProgramMutation.mutate(program.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  data-testid={`button-confirm-delete-${program.id}`}
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Program */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingProgram ? 'Edit Program' : 'Add Program'}</DialogTitle>
+            <DialogDescription>
+              Times are entered in your local time zone.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveProgramMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="streamId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stream</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-program-stream">
+                          <SelectValue placeholder="Select a stream" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {allStreams.map(stream => (
+                          <SelectItem key={stream.id} value={stream.id}>
+                            {stream.title} ({stream.streamId})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Program title" data-testid="input-program-title" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Optional description" data-testid="input-program-description" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" data-testid="input-program-start" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" data-testid="input-program-end" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsFormOpen(false)}
+                  data-testid="button-cancel-program"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveProgramMutation.isPending} data-testid="button-save-program">
+                  {saveProgramMutation.isPending ? 'Saving...' : 'Save Program'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* XMLTV Import */}
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import XMLTV</DialogTitle>
+            <DialogDescription>
+              Channels are matched to streams by stream ID or title. Imported programs replace the existing
+              schedule for the same time span.
+            </DialogDescription>
+          </DialogHeader>
+          <Input type="file" accept=".xml,text/xml,application/xml" ref={fileInputRef} data-testid="input-xmltv-file" />
+          {importResult && (
+            <div className="text-sm space-y-1" data-testid="text-import-result">
+              <p>{importResult.imported} programs imported, {importResult.skipped} skipped.</p>
+              {importResult.unmatchedChannels.length > 0 && (
+                <p className="text-muted-foreground">
+                  Unmatched channels: {importResult.unmatchedChannels.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsImportOpen(false)} data-testid="button-close-import">
+              Close
+            </Button>
+            <Button onClick={handleImportFile} disabled={importMutation.isPending} data-testid="button-run-import">
+              {importMutation.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Circle, CalendarClock, Square, Download, Trash2, Disc } from 'lucide-react';
+import { type GroupedStreams } from '@/hooks/use-categories';
+import {
+  useRecordings,
+  useRecordingLimits,
+  useStartRecording,
+  useScheduleRecording,
+  useStopRecording,
+  useDeleteRecording,
+} from '@/hooks/use-recordings';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { MAX_RECORDING_MINUTES, type Recording, type RecordingStatus } from '@shared/schema';
+
+const startFormSchema = z.object({
+  streamId: z.string().min(1, 'Stream is required'),
+  title: z.string().max(100, 'Title too long'),
+  durationMinutes: z.string().refine((value) => {
+    if (value === '') return true;
+    const minutes = Number(value);
+    return Number.isInteger(minutes) && minutes >= 1 && minutes <= MAX_RECORDING_MINUTES;
+  }, `Enter whole minutes between 1 and ${MAX_RECORDING_MINUTES}`),
+});
+
+// datetime-local inputs work in local time without a zone; the API stores UTC ISO strings
+const scheduleFormSchema = z.object({
+  streamId: z.string().min(1, 'Stream is required'),
+  title: z.string().max(100, 'Title too long'),
+  scheduledStart: z.string().min(1, 'Start time is required'),
+  scheduledEnd: z.string().min(1, 'End time is required'),
+}).refine((data) => new Date(data.scheduledEnd) > new Date(data.scheduledStart), {
+  message: 'End time must be after start time',
+  path: ['scheduledEnd'],
+});
+
+type StartFormData = z.infer<typeof startFormSchema>;
+type ScheduleFormData = z.infer<typeof scheduleFormSchema>;
+
+const STATUS_BADGES: Record<RecordingStatus, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-blue-500 text-white' },
+  recording: { label: 'Recording', className: 'bg-red-500 text-white' },
+  completed: { label: 'Completed', className: 'bg-green-500 text-white' },
+  failed: { label: 'Failed', className: 'bg-orange-500 text-white' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-500 text-white' },
+};
+
+const formatDateTime = (isoTime: string | null) =>
+  isoTime ? new Date(isoTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function RecordingsPage() {
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+
+  const { data: streamData } = useQuery<GroupedStreams>({
+    queryKey: ['/api/streams'],
+  });
+
+  const allStreams = Object.values(streamData || {})
+    .flat()
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const { data: recordings = [], isLoading, error } = useRecordings();
+  const { data: limits } = useRecordingLimits();
+  const startMutation = useStartRecording();
+  const scheduleMutation = useScheduleRecording();
+  const stopMutation = useStopRecording();
+  const deleteMutation = useDeleteRecording();
+
+  const startForm = useForm<StartFormData>({
+    resolver: zodResolver(startFormSchema),
+    defaultValues: { streamId: '', title: '', durationMinutes: '' },
+  });
+
+  const scheduleForm = useForm<ScheduleFormData>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: { streamId: '', title: '', scheduledStart: '', scheduledEnd: '' },
+  });
+
+  const handleStart = (data: StartFormData) => {
+    startMutation.mutate(
+      {
+        streamId: data.streamId,
+        title: data.title || undefined,
+        durationMinutes: data.durationMinutes ? Number(data.durationMinutes) : undefined,
+      },
+      { onSuccess: () => setIsStartOpen(false) },
+    );
+  };
+
+  const handleSchedule = (data: ScheduleFormData) => {
+    scheduleMutation.mutate(
+      {
+        streamId: data.streamId,
+        title: data.title || undefined,
+        scheduledStart: new Date(data.scheduledStart).toISOString(),
+        scheduledEnd: new Date(data.scheduledEnd).toISOString(),
+      },
+      { onSuccess: () => setIsScheduleOpen(false) },
+    );
+  };
+
+  const renderActions = (recording: Recording) => (
+    <div className="flex items-center gap-2 justify-end">
+      {(recording.status === 'recording' || recording.status === 'scheduled') && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => stopMutation.mutate(recording.id)}
+          disabled={stopMutation.isPending}
+          title={recording.status === 'recording' ? 'Stop recording' : 'Cancel recording'}
+          data-testid={`button-stop-${recording.id}`}
+        >
+          <Square className="w-4 h-4" />
+        </Button>
+      )}
+      {recording.status === 'completed' && (
+        <Button variant="outline" size="sm" asChild data-testid={`button-download-${recording.id}`}>
+          <a href={`/api/admin/recordings/${recording.id}/download`} download title="Download MP4">
+            <Download className="w-4 h-4" />
+          </a>
+        </Button>
+      )}
+      {recording.status !== 'recording' && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+              data-testid={`button-delete-${recording.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Recording</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete "{recording.title}" and its files? This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid={`button-cancel-delete-${recording.id}`}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteMutation.mutate(recording.id)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                data-testid={`button-confirm-delete-${recording.id}`}
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-recordings-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl font-bold">Recordings</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  scheduleForm.reset();
+                  setIsScheduleOpen(true);
+                }}
+                data-testid="button-schedule-recording"
+              >
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Schedule
+              </Button>
+              <Button
+                onClick={() => {
+                  startForm.reset();
+                  setIsStartOpen(true);
+                }}
+                data-testid="button-start-recording"
+              >
+                <Circle className="w-4 h-4 mr-2 fill-current" />
+                Record Now
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {limits && (
+            <div className="text-sm text-muted-foreground mb-6" data-testid="text-recording-limits">
+              Using {formatFileSize(limits.usedBytes)} of {formatFileSize(limits.maxTotalBytes)}.
+              Finished recordings are deleted after {limits.retentionDays} days, or oldest first when space runs out.
+            </div>
+          )}
+
+          <div className="border rounded-md max-h-[calc(100vh-300px)] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8" data-testid="text-loading-recordings">
+                      Loading recordings...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-red-400" data-testid="text-error-recordings">
+                      Failed to load recordings: {(error as any).message || 'Unknown error'}
+                    </TableCell>
+                  </TableRow>
+                ) : recordings.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      <Disc className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                      No recordings yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  recordings.map((recording) => (
+                    <TableRow key={recording.id} data-testid={`row-recording-${recording.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{recording.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {recording.streamTitle}{recording.streamId ? '' : ' (deleted)'}
+                        </div>
+                        {recording.error && (
+                          <div className="text-xs text-orange-400 max-w-md truncate" title={recording.error}>
+                            {recording.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`w-fit ${STATUS_BADGES[recording.status].className}`} data-testid={`badge-status-${recording.id}`}>
+                          {STATUS_BADGES[recording.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDateTime(recording.startedAt ?? recording.scheduledStart)}
+                        {recording.scheduledEnd && (
+                          <div className="text-xs text-muted-foreground">until {formatDateTime(recording.scheduledEnd)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">{formatDuration(recording.durationSeconds)}</TableCell>
+                      <TableCell className="text-sm">{formatFileSize(recording.sizeBytes)}</TableCell>
+                      <TableCell className="text-right">{renderActions(recording)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Record Now */}
+      <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Now</DialogTitle>
+            <DialogDescription>
+              Starts recording straight away. Leave the duration empty to record until stopped
+              (at most {MAX_RECORDING_MINUTES / 60} hours).
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...startForm}>
+            <form onSubmit={startForm.handleSubmit(handleStart)} className="space-y-4">
+              <FormField
+                control={startForm.control}
+                name="streamId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stream</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-recording-stream">
+                          <SelectValue placeholder="Select a stream" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {allStreams.map(stream => (
+                          <SelectItem key={stream.id} value={stream.id}>
+                            {stream.title} ({stream.streamId})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={startForm.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Defaults to the stream title and time" data-testid="input-recording-title" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={startForm.control}
+                name="durationMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration (minutes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={MAX_RECORDING_MINUTES} placeholder="Until stopped" data-testid="input-recording-duration" {...field} />
+                    </FormControl>
+                    <FormDescription>The recording stops on its own after this long.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsStartOpen(false)} data-testid="button-cancel-start">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={startMutation.isPending} data-testid="button-confirm-start">
+                  {startMutation.isPending ? 'Starting...' : 'Start Recording'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Schedule */}
+      <Dialog open={isScheduleOpen} onOpenChange={setIsScheduleOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Schedule Recording</DialogTitle>
+            <DialogDescription>
+              Times are entered in your local time zone.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...scheduleForm}>
+            <form onSubmit={scheduleForm.handleSubmit(handleSchedule)} className="space-y-4">
+              <FormField
+                control={scheduleForm.control}
+                name="streamId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stream</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-schedule-stream">
+                          <SelectValue placeholder="Select a stream" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {allStreams.map(stream => (
+                          <SelectItem key={stream.id} value={stream.id}>
+                            {stream.title} ({stream.streamId})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={scheduleForm.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Defaults to the stream title and time" data-testid="input-schedule-title" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={scheduleForm.control}
+                  name="scheduledStart"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" data-testid="input-schedule-start" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={scheduleForm.control}
+                  name="scheduledEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" data-testid="input-schedule-end" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsScheduleOpen(false)} data-testid="button-cancel-schedule">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={scheduleMutation.isPending} data-testid="button-confirm-schedule">
+                  {scheduleMutation.isPending ? 'Scheduling...' : 'Schedule'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
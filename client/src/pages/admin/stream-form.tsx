@@ -1,20 +1,24 @@
 import { useEffect, useState } from 'react';
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ArrowLeft, Save, Upload } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, Loader2, Plus, Radio, Save, Trash2, Upload, XCircle } from 'lucide-react';
 import { Link } from 'wouter';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { insertStreamSchema, type Stream, type Studio } from '@shared/schema';
+import { useCategories, FEATURED_CATEGORY, STUDIOS_CATEGORY } from '@/hooks/use-categories';
+import { useStreamSources } from '@/hooks/use-stream-sources';
+import { insertStreamSchema, streamSourcesSchema, MAX_CHANNEL_NUMBER, MAX_DVR_WINDOW_SECONDS, type Stream, type StreamProbeResult, type Studio } from '@shared/schema';
+import { detectStreamType } from '@shared/streamUrls';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -25,12 +29,14 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
 import WebRTCPreview from '@/components/WebRTCPreview';
+import HLSPlayer from '@/components/HLSPlayer';
 
 // Enhanced form schema with additional validation
 const streamFormSchema = insertStreamSchema.extend({
@@ -41,14 +47,27 @@ const streamFormSchema = insertStreamSchema.extend({
     'Must be a valid stream URL (webrtc://, http://, or https://)'
   ),
   thumbnail: z.string().optional(),
-  category: z.enum(['featured', 'overTheAir', 'liveFeeds', 'studios', 'uhd'], {
-    required_error: 'Category is required',
-  }),
+  category: z.string().min(1, 'Category is required'),
   studioId: z.string().optional(),
+  sources: streamSourcesSchema, // the type is detected from each URL when saved
 });
 
 type StreamFormData = z.infer<typeof streamFormSchema>;
 
+// Rewind windows offered for live HLS; the playlist's own DVR window may be shorter
+const DVR_WINDOW_OPTIONS = [
+  { value: 0, label: 'Off (live only)' },
+  { value: 5 * 60, label: '5 minutes' },
+  { value: 15 * 60, label: '15 minutes' },
+  { value: 30 * 60, label: '30 minutes' },
+  { value: 60 * 60, label: '1 hour' },
+  { value: 2 * 60 * 60, label: '2 hours' },
+  { value: MAX_DVR_WINDOW_SECONDS, label: `${MAX_DVR_WINDOW_SECONDS / 3600} hours` },
+];
+
+const formatBandwidth = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1000000 ? `${(bitsPerSecond / 1000000).toFixed(1)} Mbps` : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
 export default function StreamFormPage() {
   const { id } = useParams();
   const [, navigate] = useLocation();
@@ -61,6 +80,10 @@ export default function StreamFormPage() {
     queryFn: () => apiRequest(`/api/streams/${id}`),
     enabled: isEditing,
   });
+  const { data: sources, isLoading: sourcesLoading } = useStreamSources(id);
+
+  // Fetch categories for dropdown (hidden ones included so streams can be staged there)
+  const { data: categories } = useCategories();
 
   // Fetch studios for dropdown
   const { data: studios } = useQuery<Studio[]>({
@@ -74,24 +97,67 @@ export default function StreamFormPage() {
       streamId: '',
       url: '',
       thumbnail: '',
-      category: 'featured',
+      category: FEATURED_CATEGORY,
       studioId: '',
+      channelNumber: null,
+      fallbackUrl: null,
+      dvrWindowSeconds: 0,
+      sources: [],
     },
   });
+  const { fields: sourceFields, append: appendSource, remove: removeSource } = useFieldArray({
+    control: form.control,
+    name: 'sources',
+  });
+  const sourceValues = form.watch('sources');
 
   // Update form when stream data loads
   useEffect(() => {
-    if (stream && isEditing) {
+    if (stream && sources && isEditing) {
       form.reset({
         title: stream.title,
         streamId: stream.streamId,
         url: stream.url,
         thumbnail: stream.thumbnail,
-        category: stream.category as any,
+        category: stream.category,
         studioId: stream.studioId || '',
+        channelNumber: stream.channelNumber,
+        fallbackUrl: stream.fallbackUrl,
+        dvrWindowSeconds: stream.dvrWindowSeconds,
+        sources: sources.map(({ url, priority, label }) => ({ url, priority, label })),
       });
     }
-  }, [stream, isEditing, form]);
+  }, [stream, sources, isEditing, form]);
+
+  // Probe the URL before saving; the result only applies while the URL is unchanged
+  const [probe, setProbe] = useState<{ url: string; result: StreamProbeResult } | null>(null);
+  const [previewMuted, setPreviewMuted] = useState(true);
+  const currentUrl = form.watch('url');
+
+  const probeMutation = useMutation({
+    mutationFn: (url: string): Promise<StreamProbeResult> => apiRequest('/api/streams/probe', {
+      method: 'POST',
+      body: JSON.stringify({ url }),
+    }),
+    onSuccess: (result, url) => {
+      setProbe({ url, result });
+    },
+    onError: (error: any) => {
+      setProbe(null);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to test stream URL',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleTestUrl = async () => {
+    if (!(await form.trigger('url'))) return;
+    probeMutation.mutate(form.getValues('url').trim());
+  };
+
+  const probeResult = probe && probe.url === currentUrl?.trim() ? probe.result : null;
 
   // Create/update mutations
   const createStreamMutation = useMutation({
@@ -142,7 +208,7 @@ export default function StreamFormPage() {
     // Clean up studioId for non-studio categories
     const cleanData = {
       ...data,
-      studioId: data.category === 'studios' ? data.studioId : undefined,
+      studioId: data.category === STUDIOS_CATEGORY ? data.studioId : undefined,
     };
 
     if (isEditing) {
@@ -152,15 +218,12 @@ export default function StreamFormPage() {
     }
   };
 
-  const categoryOptions = [
-    { value: 'featured', label: 'Featured' },
-    { value: 'overTheAir', label: 'Over The Air' },
-    { value: 'liveFeeds', label: 'Live Feeds' },
-    { value: 'studios', label: 'Studios' },
-    { value: 'uhd', label: 'UHD Streams' },
-  ];
+  const categoryOptions = (categories || []).map(category => ({
+    value: category.slug,
+    label: category.visible ? category.label : `${category.label} (hidden)`,
+  }));
 
-  if (streamLoading && isEditing) {
+  if ((streamLoading || sourcesLoading) && isEditing) {
     return (
       <div className="p-6">
         <div className="flex items-center justify-center h-64">
@@ -229,6 +292,35 @@ export default function StreamFormPage() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="channelNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Channel Number</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_CHANNEL_NUMBER}
+                          placeholder="Optional, e.g., 12"
+                          className="font-mono"
+                          data-testid="input-channel-number"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+                          onBlur={field.onBlur}
+                          name={field.name}
+                          ref={field.ref}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Viewers type this on the remote to jump straight to the stream
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {/* URL and Thumbnail */}
@@ -239,14 +331,178 @@ export default function StreamFormPage() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>WebRTC Stream URL</FormLabel>
+                      <div className="flex gap-2">
+                        <FormControl>
+                          <Input
+                            placeholder="webrtc://localhost:1985/live/stream-name"
+                            className="font-mono"
+                            data-testid="input-url"
+                            {...field}
+                          />
+                        </FormControl>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handleTestUrl}
+                          disabled={!field.value || probeMutation.isPending}
+                          data-testid="button-test-url"
+                        >
+                          {probeMutation.isPending ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Radio className="w-4 h-4 mr-2" />
+                          )}
+                          {probeMutation.isPending ? 'Testing...' : 'Test'}
+                        </Button>
+                      </div>
+                      <FormMessage />
+                      {probeResult && (
+                        <div className="mt-2 rounded-md border p-4 space-y-4" data-testid="panel-probe-result">
+                          <div className="flex items-center gap-2">
+                            {probeResult.ok ? (
+                              <CheckCircle2 className="w-5 h-5 text-green-500" />
+                            ) : (
+                              <XCircle className="w-5 h-5 text-red-500" />
+                            )}
+                            <span className="font-medium" data-testid="text-probe-status">
+                              {probeResult.ok ? 'Stream is reachable' : probeResult.error || 'Stream is not reachable'}
+                            </span>
+                            <Badge variant="outline">{probeResult.streamType === 'hls' ? 'HLS' : 'WebRTC'}</Badge>
+                            {probeResult.responseTimeMs !== null && (
+                              <span className="text-xs text-muted-foreground">{probeResult.responseTimeMs} ms</span>
+                            )}
+                          </div>
+
+                          <div className="space-y-1">
+                            {probeResult.checks.map(check => (
+                              <div key={check.name} className="flex items-center gap-2 text-sm" data-testid={`row-probe-check-${check.name}`}>
+                                <Badge variant={check.ok ? 'secondary' : 'destructive'}>{check.name}</Badge>
+                                <span className="text-muted-foreground font-mono break-all">{check.detail}</span>
+                              </div>
+                            ))}
+                          </div>
+
+                          {probeResult.media && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm" data-testid="text-probe-media">
+                              <div>
+                                <div className="text-muted-foreground">Video</div>
+                                <div className="font-mono">{probeResult.media.videoCodec ?? '—'}</div>
+                              </div>
+                              <div>
+                                <div className="text-muted-foreground">Resolution</div>
+                                <div className="font-mono">
+                                  {probeResult.media.width && probeResult.media.height
+                                    ? `${probeResult.media.width}x${probeResult.media.height}`
+                                    : '—'}
+                                </div>
+                              </div>
+                              <div>
+                                <div className="text-muted-foreground">Frame Rate</div>
+                                <div className="font-mono">{probeResult.media.frameRate ?? '—'}</div>
+                              </div>
+                              <div>
+                                <div className="text-muted-foreground">Audio</div>
+                                <div className="font-mono">{probeResult.media.audioCodec ?? '—'}</div>
+                              </div>
+                            </div>
+                          )}
+
+                          {probeResult.variants.length > 0 && (
+                            <div className="space-y-1 text-sm">
+                              <div className="text-muted-foreground">Variants</div>
+                              {probeResult.variants.map((variant, index) => (
+                                <div key={index} className="font-mono text-xs" data-testid={`text-probe-variant-${index}`}>
+                                  {[
+                                    variant.resolution,
+                                    variant.bandwidth !== null ? formatBandwidth(variant.bandwidth) : null,
+                                    variant.codecs,
+                                  ].filter(Boolean).join(' · ') || 'Unknown variant'}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
+                          {probeResult.ok && (
+                            <div className="aspect-video w-full max-w-md rounded border overflow-hidden bg-black" data-testid="preview-probe">
+                              {probeResult.streamType === 'hls' ? (
+                                <HLSPlayer
+                                  streamUrl={probe!.url}
+                                  streamId="probe-preview"
+                                  streamTitle="Preview"
+                                  isMuted={previewMuted}
+                                  onMutedChange={setPreviewMuted}
+                                  countViewer={false}
+                                  className="w-full h-full"
+                                />
+                              ) : (
+                                <WebRTCPreview
+                                  streamUrl={probe!.url}
+                                  streamId="probe-preview"
+                                  isActive
+                                  className="w-full h-full"
+                                />
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="fallbackUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>HLS Fallback URL</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="webrtc://localhost:1985/live/stream-name"
+                          placeholder="Optional, e.g., https://media.example.com/live/stream-name.m3u8"
                           className="font-mono"
-                          data-testid="input-url"
-                          {...field}
+                          data-testid="input-fallback-url"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value.trim() === '' ? null : e.target.value.trim())}
+                          onBlur={field.onBlur}
+                          name={field.name}
+                          ref={field.ref}
                         />
                       </FormControl>
+                      <FormDescription>
+                        Played when WebRTC cannot connect, e.g. on networks that block UDP. WHEP streams fall back to their SRS HLS mirror when this is empty.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="dvrWindowSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rewind Window</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(Number(value))}
+                        value={String(field.value ?? 0)}
+                        data-testid="select-dvr-window"
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select rewind window" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {DVR_WINDOW_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={String(option.value)}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        How far viewers can pause and rewind this stream when it plays as live HLS. Limited to what the playlist keeps.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -286,6 +542,120 @@ export default function StreamFormPage() {
                 />
               </div>
 
+              {/* Backup sources */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium">Backup Sources</div>
+                    <p className="text-sm text-muted-foreground">
+                      Tried in priority order, lowest first, when the stream URL above fails - by the player and by snapshots
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendSource({
+                      label: '',
+                      url: '',
+                      priority: Math.max(0, ...(sourceValues || []).map(source => source.priority || 0)) + 1,
+                    })}
+                    data-testid="button-add-source"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Source
+                  </Button>
+                </div>
+
+                {sourceFields.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No backup sources</div>
+                )}
+
+                {sourceFields.map((sourceField, index) => {
+                  const sourceUrl = sourceValues?.[index]?.url;
+                  return (
+                    <div key={sourceField.id} className="border rounded-md p-3" data-testid={`row-source-${index}`}>
+                      <div className="flex flex-wrap items-start gap-3">
+                        <FormField
+                          control={form.control}
+                          name={`sources.${index}.label`}
+                          render={({ field }) => (
+                            <FormItem className="w-44">
+                              <FormLabel>Label</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g., Backup CDN" data-testid={`input-source-label-${index}`} {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name={`sources.${index}.url`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1 min-w-64">
+                              <FormLabel className="flex items-center gap-2">
+                                URL
+                                {sourceUrl && (
+                                  <Badge variant="outline" data-testid={`badge-source-type-${index}`}>
+                                    {detectStreamType(sourceUrl) === 'hls' ? 'HLS' : 'WebRTC'}
+                                  </Badge>
+                                )}
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder="https://backup.example.com/live/stream-name.m3u8"
+                                  className="font-mono"
+                                  data-testid={`input-source-url-${index}`}
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name={`sources.${index}.priority`}
+                          render={({ field }) => (
+                            <FormItem className="w-24">
+                              <FormLabel>Priority</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  className="font-mono"
+                                  data-testid={`input-source-priority-${index}`}
+                                  value={field.value ?? ''}
+                                  onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))}
+                                  onBlur={field.onBlur}
+                                  name={field.name}
+                                  ref={field.ref}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="mt-8 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                          onClick={() => removeSource(index)}
+                          data-testid={`button-remove-source-${index}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
               {/* Category and Studio */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
@@ -317,7 +687,7 @@ export default function StreamFormPage() {
                   )}
                 />
 
-                {form.watch('category') === 'studios' && (
+                {form.watch('category') === STUDIOS_CATEGORY && (
                   <FormField
                     control={form.control}
                     name="studioId"
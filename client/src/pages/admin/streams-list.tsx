@@ -1,12 +1,17 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { Plus, Edit, Trash2, Search } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Wifi, WifiOff, HelpCircle, ArrowDownWideNarrow, GripVertical, Eye, Images } from 'lucide-react';
 import { useState } from 'react';
 import { Link } from 'wouter';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useStreamHealth } from '@/hooks/use-stream-health';
+import { useMediaAlerts, MEDIA_ALERT_BADGES } from '@/hooks/use-media-alerts';
+import { useViewerCounts } from '@/hooks/use-viewer-counts';
+import { useCategories, type GroupedStreams } from '@/hooks/use-categories';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -28,20 +33,29 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import WebRTCPreview from '@/components/WebRTCPreview';
-import type { Stream } from '@shared/schema';
-
-interface GroupedStreams {
-  featured: Stream[];
-  overTheAir: Stream[];
-  liveFeeds: Stream[];
-  studios: Stream[];
-  uhd: Stream[];
-}
+import SnapshotHistoryDialog from '@/components/SnapshotHistoryDialog';
+import type { Stream, StreamHealthStatus } from '@shared/schema';
 
 export default function StreamsListPage() {
   const [searchQuery, setSearchQuery] = useState('');
+  const [sortBrokenFirst, setSortBrokenFirst] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [draggedStreamId, setDraggedStreamId] = useState<string | null>(null);
+  const [dragOverStreamId, setDragOverStreamId] = useState<string | null>(null);
+  const [historyStream, setHistoryStream] = useState<Stream | null>(null);
   const { toast } = useToast();
 
+  // Server-side probe results, keyed by streamId
+  const { data: streamHealth } = useStreamHealth();
+
+  // Black, frozen and silent feeds the snapshot workers are currently seeing
+  const { data: mediaAlerts = [] } = useMediaAlerts();
+
+  // Live viewer counts pushed over the /ws WebSocket, keyed by streamId
+  const viewerCounts = useViewerCounts();
+
+  const { data: categories } = useCategories();
+
   // Fetch all streams
   const { data: streamData, isLoading, error } = useQuery<GroupedStreams>({
     queryKey: ['/api/streams'],
@@ -68,6 +82,29 @@ export default function StreamsListPage() {
     },
   });
 
+  // Bulk reorder mutation - the cache is updated optimistically on drop
+  const reorderStreamsMutation = useMutation({
+    mutationFn: (streamIds: string[]) => apiRequest('/api/streams/reorder', {
+      method: 'PUT',
+      body: JSON.stringify({ streamIds }),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/streams'] });
+      toast({
+        title: 'Order saved',
+        description: 'The new stream order is live for all viewers.',
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/streams'] });
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to reorder streams',
+        variant: 'destructive',
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -91,21 +128,112 @@ export default function StreamsListPage() {
   }
 
   // Combine all streams for the table
-  const allStreams = streamData ? [
-    ...(streamData.featured || []),
-    ...(streamData.overTheAir || []),
-    ...(streamData.liveFeeds || []),
-    ...(streamData.studios || []),
-    ...(streamData.uhd || []),
-  ] : [];
+  const allStreams = streamData ? Object.values(streamData).flat() : [];
+
+  const getHealthStatus = (stream: Stream): StreamHealthStatus =>
+    streamHealth?.[stream.streamId]?.status ?? 'unknown';
 
-  // Filter streams based on search query
-  const filteredStreams = allStreams.filter(stream =>
+  const getCategoryLabel = (category: string) =>
+    categories?.find(c => c.slug === category)?.label
+      ?? category.charAt(0).toUpperCase() + category.slice(1);
+
+  // Filter streams based on category and search query
+  const searchedStreams = allStreams.filter(stream =>
+    categoryFilter === 'all' || stream.category === categoryFilter
+  ).filter(stream =>
     stream.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    stream.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    stream.streamId.toLowerCase().includes(searchQuery.toLowerCase())
+    getCategoryLabel(stream.category).toLowerCase().includes(searchQuery.toLowerCase()) ||
+    stream.streamId.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    String(stream.channelNumber ?? '') === searchQuery.trim()
   );
 
+  // Optionally bring broken feeds to the top (offline, then unknown, then online)
+  const healthSortOrder: Record<StreamHealthStatus, number> = { offline: 0, unknown: 1, online: 2 };
+  const filteredStreams = sortBrokenFirst
+    ? [...searchedStreams].sort((a, b) => healthSortOrder[getHealthStatus(a)] - healthSortOrder[getHealthStatus(b)])
+    : searchedStreams;
+
+  const offlineCount = allStreams.filter(stream => getHealthStatus(stream) === 'offline').length;
+
+  // Dragging only makes sense on one category's full list in stored order
+  const canReorder = categoryFilter !== 'all' && !searchQuery && !sortBrokenFirst;
+  const columnCount = canReorder ? 10 : 9;
+
+  const handleDrop = (targetStreamId: string) => {
+    const categoryStreams = streamData?.[categoryFilter] || [];
+    const fromIndex = categoryStreams.findIndex(s => s.id === draggedStreamId);
+    const toIndex = categoryStreams.findIndex(s => s.id === targetStreamId);
+    setDraggedStreamId(null);
+    setDragOverStreamId(null);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+    const reordered = [...categoryStreams];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+
+    queryClient.setQueryData<GroupedStreams>(['/api/streams'], (old) => old && {
+      ...old,
+      [categoryFilter]: reordered.map((stream, position) => ({ ...stream, position })),
+    });
+    reorderStreamsMutation.mutate(reordered.map(s => s.id));
+  };
+
+  const getHealthBadge = (stream: Stream) => {
+    const health = streamHealth?.[stream.streamId];
+    switch (health?.status) {
+      case 'online':
+        return (
+          <Badge className="flex items-center gap-1 w-fit bg-green-500 text-white" data-testid={`badge-health-${stream.id}`}>
+            <Wifi className="w-3 h-3" />
+            Online
+          </Badge>
+        );
+      case 'offline':
+        return (
+          <div className="space-y-1">
+            <Badge className="flex items-center gap-1 w-fit bg-red-500 text-white" data-testid={`badge-health-${stream.id}`}>
+              <WifiOff className="w-3 h-3" />
+              Offline
+            </Badge>
+            {health.error && (
+              <div className="text-xs text-muted-foreground max-w-[180px] truncate" title={health.error}>
+                {health.error}
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              Last seen: {health.lastSeen ? new Date(health.lastSeen).toLocaleString() : 'never'}
+            </div>
+          </div>
+        );
+      default:
+        return (
+          <Badge variant="outline" className="flex items-center gap-1 w-fit" data-testid={`badge-health-${stream.id}`}>
+            <HelpCircle className="w-3 h-3" />
+            Unknown
+          </Badge>
+        );
+    }
+  };
+
+  const getMediaAlertBadges = (stream: Stream) => {
+    const openAlerts = mediaAlerts.filter(alert => alert.streamId === stream.streamId && !alert.endedAt);
+    if (openAlerts.length === 0) return null;
+    return (
+      <Link href="/admin/alerts" className="flex flex-wrap gap-1">
+        {openAlerts.map(alert => (
+          <Badge
+            key={alert.id}
+            className={`w-fit ${MEDIA_ALERT_BADGES[alert.type].className}`}
+            title={`Since ${new Date(alert.startedAt).toLocaleString()}`}
+            data-testid={`badge-alert-${alert.type}-${stream.id}`}
+          >
+            {MEDIA_ALERT_BADGES[alert.type].label}
+          </Badge>
+        ))}
+      </Link>
+    );
+  };
+
   const getCategoryColor = (category: string) => {
     switch (category) {
       case 'featured':
@@ -123,19 +251,6 @@ export default function StreamsListPage() {
     }
   };
 
-  const getCategoryLabel = (category: string) => {
-    switch (category) {
-      case 'overTheAir':
-        return 'Over The Air';
-      case 'liveFeeds':
-        return 'Live Feeds';
-      case 'uhd':
-        return 'UHD Streams';
-      default:
-        return category.charAt(0).toUpperCase() + category.slice(1);
-    }
-  };
-
   return (
     <div className="p-6 max-w-7xl mx-auto" data-testid="admin-streams-page">
       <Card className="hover-elevate">
@@ -153,6 +268,19 @@ export default function StreamsListPage() {
         <CardContent>
           {/* Search Bar */}
           <div className="flex items-center gap-4 mb-6">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-48" data-testid="select-category-filter">
+                <SelectValue placeholder="All Categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {(categories || []).map(category => (
+                  <SelectItem key={category.id} value={category.slug}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <div className="relative flex-1 max-w-md">
               <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
               <Input
@@ -163,8 +291,25 @@ export default function StreamsListPage() {
                 data-testid="input-search-streams"
               />
             </div>
+            <Button
+              variant={sortBrokenFirst ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSortBrokenFirst(!sortBrokenFirst)}
+              data-testid="button-sort-broken"
+            >
+              <ArrowDownWideNarrow className="w-4 h-4 mr-2" />
+              Broken first
+            </Button>
             <div className="text-sm text-muted-foreground" data-testid="text-streams-count">
               {filteredStreams.length} of {allStreams.length} streams
+              {offlineCount > 0 && (
+                <span className="text-red-400" data-testid="text-offline-count"> · {offlineCount} offline</span>
+              )}
+              {canReorder ? (
+                <span data-testid="text-reorder-hint"> · drag rows to reorder</span>
+              ) : categoryFilter === 'all' && (
+                <span data-testid="text-reorder-hint"> · pick a category to reorder</span>
+              )}
             </div>
           </div>
 
@@ -173,10 +318,14 @@ export default function StreamsListPage() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  {canReorder && <TableHead className="w-8" />}
                   <TableHead>Preview</TableHead>
                   <TableHead>Title</TableHead>
                   <TableHead>Stream ID</TableHead>
+                  <TableHead>Channel</TableHead>
                   <TableHead>Category</TableHead>
+                  <TableHead>Health</TableHead>
+                  <TableHead>Watching</TableHead>
                   <TableHead>URL</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -184,13 +333,40 @@ export default function StreamsListPage() {
               <TableBody>
                 {filteredStreams.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
                       {searchQuery ? 'No streams match your search' : 'No streams found'}
                     </TableCell>
                   </TableRow>
                 ) : (
                   filteredStreams.map((stream) => (
-                    <TableRow key={stream.id} data-testid={`row-stream-${stream.id}`}>
+                    <TableRow
+                      key={stream.id}
+                      draggable={canReorder}
+                      onDragStart={() => setDraggedStreamId(stream.id)}
+                      onDragOver={(e) => {
+                        if (!canReorder || !draggedStreamId) return;
+                        e.preventDefault();
+                        setDragOverStreamId(stream.id);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(stream.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedStreamId(null);
+                        setDragOverStreamId(null);
+                      }}
+                      className={
+                        draggedStreamId === stream.id ? 'opacity-50'
+                          : dragOverStreamId === stream.id ? 'border-t-2 border-t-primary' : ''
+                      }
+                      data-testid={`row-stream-${stream.id}`}
+                    >
+                      {canReorder && (
+                        <TableCell className="cursor-grab text-muted-foreground" data-testid={`handle-reorder-${stream.id}`}>
+                          <GripVertical className="w-4 h-4" />
+                        </TableCell>
+                      )}
                       <TableCell>
                         <div className="w-16 h-9 rounded overflow-hidden">
                           <WebRTCPreview
@@ -203,6 +379,9 @@ export default function StreamsListPage() {
                       </TableCell>
                       <TableCell className="font-medium">{stream.title}</TableCell>
                       <TableCell className="font-mono text-sm">{stream.streamId}</TableCell>
+                      <TableCell className="font-mono text-sm" data-testid={`text-channel-${stream.id}`}>
+                        {stream.channelNumber ?? <span className="text-muted-foreground">-</span>}
+                      </TableCell>
                       <TableCell>
                         <Badge
                           className={getCategoryColor(stream.category)}
@@ -211,11 +390,32 @@ export default function StreamsListPage() {
                           {getCategoryLabel(stream.category)}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {getHealthBadge(stream)}
+                          {getMediaAlertBadges(stream)}
+                        </div>
+                      </TableCell>
+                      <TableCell data-testid={`text-viewers-${stream.id}`}>
+                        <span className="flex items-center gap-1 font-mono text-sm">
+                          <Eye className="w-4 h-4 text-muted-foreground" />
+                          {viewerCounts[stream.streamId] ?? 0}
+                        </span>
+                      </TableCell>
                       <TableCell className="max-w-xs truncate font-mono text-xs">
                         {stream.url}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setHistoryStream(stream)}
+                            title="Snapshot history"
+                            data-testid={`button-snapshot-history-${stream.id}`}
+                          >
+                            <Images className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -266,6 +466,8 @@ export default function StreamsListPage() {
           </div>
         </CardContent>
       </Card>
+
+      <SnapshotHistoryDialog stream={historyStream} onClose={() => setHistoryStream(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -9,10 +9,12 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { User, Shield, UserPlus, Search, Settings, X } from 'lucide-react';
-import { User as UserType, insertUserSchema, createUserSchema } from '@shared/schema';
+import { User, Shield, UserPlus, Search, Settings, X, History } from 'lucide-react';
+import { User as UserType, insertUserSchema, createUserSchema, type WatchHistoryItem } from '@shared/schema';
 import { z } from 'zod';
 
 interface UserWithDetails extends UserType {
@@ -20,10 +22,20 @@ interface UserWithDetails extends UserType {
   lastActive?: string;
 }
 
+const formatWatchDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
 export default function UserManagement() {
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState('users');
+  const [historyUserId, setHistoryUserId] = useState<string>('');
   const { toast } = useToast();
 
   // Form for creating new users uses the imported createUserSchema
@@ -43,6 +55,12 @@ export default function UserManagement() {
     queryFn: () => apiRequest('/api/admin/users'),
   });
 
+  // Watch history for the user picked on the History tab
+  const { data: watchHistory = [], isLoading: historyLoading } = useQuery<WatchHistoryItem[]>({
+    queryKey: ['/api/admin/users', historyUserId, 'history'],
+    enabled: !!historyUserId,
+  });
+
   const updateUserRoleMutation = useMutation({
     mutationFn: async ({ userId, role }: { userId: string, role: string }) => {
       return apiRequest(`/api/admin/users/${userId}/role`, {
@@ -123,6 +141,11 @@ export default function UserManagement() {
     toggleUserStatusMutation.mutate({ userId, isActive });
   };
 
+  const handleShowHistory = (userId: string) => {
+    setHistoryUserId(userId);
+    setActiveTab('history');
+  };
+
   const handleCreateUser = (data: any) => {
     const { confirmCode, ...userData } = data;
     // Transform code to password for backend compatibility
@@ -319,128 +342,219 @@ export default function UserManagement() {
         </div>
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardHeader className="pb-4">
-          <CardTitle className="text-lg flex items-center gap-2">
-            <Search className="w-5 h-5" />
-            Search & Filter
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex gap-4">
-            <div className="flex-1">
-              <Input
-                placeholder="Search users by username..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                data-testid="input-user-search"
-                className="w-full"
-              />
-            </div>
-            <Select value={roleFilter} onValueChange={setRoleFilter}>
-              <SelectTrigger className="w-40" data-testid="select-role-filter">
-                <SelectValue placeholder="Filter by role" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Roles</SelectItem>
-                <SelectItem value="admin">Admin</SelectItem>
-                <SelectItem value="user">User</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-        </CardContent>
-      </Card>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="users" data-testid="tab-users">Users</TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-history">Watch History</TabsTrigger>
+        </TabsList>
 
-      {/* Users List */}
-      <div className="space-y-4">
-        {filteredUsers.length === 0 ? (
+        <TabsContent value="users" className="space-y-6">
+          {/* Filters */}
           <Card>
-            <CardContent className="pt-6">
-              <div className="text-center py-8">
-                <User className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No users found</h3>
-                <p className="text-muted-foreground">
-                  {searchTerm || roleFilter !== 'all' 
-                    ? 'Try adjusting your search or filter criteria.'
-                    : 'No user accounts are available.'}
-                </p>
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Search className="w-5 h-5" />
+                Search & Filter
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <Input
+                    placeholder="Search users by username..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    data-testid="input-user-search"
+                    className="w-full"
+                  />
+                </div>
+                <Select value={roleFilter} onValueChange={setRoleFilter}>
+                  <SelectTrigger className="w-40" data-testid="select-role-filter">
+                    <SelectValue placeholder="Filter by role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Roles</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="user">User</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
             </CardContent>
           </Card>
-        ) : (
-          filteredUsers.map((user) => (
-            <Card key={user.id} data-testid={`card-user-${user.id}`}>
-              <CardContent className="pt-6">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-4">
-                    <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
-                      <User className="w-6 h-6 text-primary" />
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-lg" data-testid={`text-username-${user.id}`}>
-                        {user.username}
-                      </h3>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Badge 
-                          variant={getRoleBadgeVariant(user.role)}
-                          data-testid={`badge-role-${user.id}`}
+
+          {/* Users List */}
+          <div className="space-y-4">
+            {filteredUsers.length === 0 ? (
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-center py-8">
+                    <User className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No users found</h3>
+                    <p className="text-muted-foreground">
+                      {searchTerm || roleFilter !== 'all' 
+                        ? 'Try adjusting your search or filter criteria.'
+                        : 'No user accounts are available.'}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              filteredUsers.map((user) => (
+                <Card key={user.id} data-testid={`card-user-${user.id}`}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+                          <User className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-lg" data-testid={`text-username-${user.id}`}>
+                            {user.username}
+                          </h3>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Badge 
+                              variant={getRoleBadgeVariant(user.role)}
+                              data-testid={`badge-role-${user.id}`}
+                            >
+                              {user.role === 'admin' ? (
+                                <>
+                                  <Shield className="w-3 h-3 mr-1" />
+                                  Admin
+                                </>
+                              ) : (
+                                <>
+                                  <User className="w-3 h-3 mr-1" />
+                                  User
+                                </>
+                              )}
+                            </Badge>
+                            <Badge 
+                              variant={getStatusBadgeVariant(user.isActive)}
+                              data-testid={`badge-status-${user.id}`}
+                            >
+                              {user.isActive === 'true' ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </div>
+                        </div>
+                      </div>
+                      
+                      <div className="flex items-center gap-2">
+                        {/* Role Selection */}
+                        <Select 
+                          value={user.role} 
+                          onValueChange={(value) => handleRoleChange(user.id, value)}
+                        >
+                          <SelectTrigger className="w-32" data-testid={`select-role-${user.id}`}>
+                            <Settings className="w-4 h-4 mr-2" />
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="user">User</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        
+                        {/* Watch History */}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleShowHistory(user.id)}
+                          data-testid={`button-history-${user.id}`}
                         >
-                          {user.role === 'admin' ? (
-                            <>
-                              <Shield className="w-3 h-3 mr-1" />
-                              Admin
-                            </>
-                          ) : (
-                            <>
-                              <User className="w-3 h-3 mr-1" />
-                              User
-                            </>
-                          )}
-                        </Badge>
-                        <Badge 
-                          variant={getStatusBadgeVariant(user.isActive)}
-                          data-testid={`badge-status-${user.id}`}
+                          <History className="w-4 h-4 mr-2" />
+                          History
+                        </Button>
+
+                        {/* Status Toggle */}
+                        <Button
+                          variant={user.isActive === 'true' ? 'destructive' : 'default'}
+                          size="sm"
+                          onClick={() => handleToggleStatus(user.id, user.isActive)}
+                          disabled={updateUserRoleMutation.isPending || toggleUserStatusMutation.isPending}
+                          data-testid={`button-status-${user.id}`}
                         >
-                          {user.isActive === 'true' ? 'Active' : 'Inactive'}
-                        </Badge>
+                          {user.isActive === 'true' ? 'Deactivate' : 'Activate'}
+                        </Button>
                       </div>
                     </div>
-                  </div>
-                  
-                  <div className="flex items-center gap-2">
-                    {/* Role Selection */}
-                    <Select 
-                      value={user.role} 
-                      onValueChange={(value) => handleRoleChange(user.id, value)}
-                    >
-                      <SelectTrigger className="w-32" data-testid={`select-role-${user.id}`}>
-                        <Settings className="w-4 h-4 mr-2" />
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="user">User</SelectItem>
-                        <SelectItem value="admin">Admin</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    
-                    {/* Status Toggle */}
-                    <Button
-                      variant={user.isActive === 'true' ? 'destructive' : 'default'}
-                      size="sm"
-                      onClick={() => handleToggleStatus(user.id, user.isActive)}
-                      disabled={updateUserRoleMutation.isPending || toggleUserStatusMutation.isPending}
-                      data-testid={`button-status-${user.id}`}
-                    >
-                      {user.isActive === 'true' ? 'Deactivate' : 'Activate'}
-                    </Button>
-                  </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Watch History
+                  </CardTitle>
+                  <CardDescription>What each user opened, newest first</CardDescription>
                 </div>
-              </CardContent>
-            </Card>
-          ))
-        )}
-      </div>
+                <Select value={historyUserId} onValueChange={setHistoryUserId}>
+                  <SelectTrigger className="w-56" data-testid="select-history-user">
+                    <SelectValue placeholder="Select a user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!historyUserId ? (
+                <p className="text-center py-8 text-muted-foreground" data-testid="text-history-select-user">
+                  Select a user to see their watch history.
+                </p>
+              ) : historyLoading ? (
+                <p className="text-center py-8 text-muted-foreground" data-testid="text-loading-history">
+                  Loading watch history...
+                </p>
+              ) : (
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Stream</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Duration</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {watchHistory.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                            No watch history yet
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        watchHistory.map(entry => (
+                          <TableRow key={entry.id} data-testid={`row-history-${entry.id}`}>
+                            <TableCell>
+                              <div className="font-medium">{entry.stream.title}</div>
+                              <div className="font-mono text-xs text-muted-foreground">{entry.stream.streamId}</div>
+                            </TableCell>
+                            <TableCell>{new Date(entry.startedAt).toLocaleString()}</TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {entry.endedAt ? formatWatchDuration(entry.durationSeconds) : '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
\ No newline at end of file
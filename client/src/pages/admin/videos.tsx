@@ -0,0 +1,376 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Upload, Trash2, Film } from 'lucide-react';
+import { useAdminVideos, useDeleteVideo, getVideoPosterUrl } from '@/hooks/use-videos';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
+import { formatPlaybackTime } from '@/lib/dvr';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import type { Video, VideoStatus } from '@shared/schema';
+
+// CSRF token function (same as in queryClient.ts)
+async function getCSRFToken(): Promise<string> {
+  const response = await fetch('/api/csrf-token', {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch CSRF token');
+  }
+
+  const data = await response.json();
+  return data.csrfToken;
+}
+
+const uploadFormSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long'),
+  description: z.string().max(2000, 'Description too long'),
+  file: z.instanceof(File, { message: 'Choose a video file' }),
+});
+
+type UploadFormData = z.infer<typeof uploadFormSchema>;
+
+const STATUS_BADGES: Record<VideoStatus, { label: string; className: string }> = {
+  processing: { label: 'Processing', className: 'bg-blue-500 text-white' },
+  ready: { label: 'Ready', className: 'bg-green-500 text-white' },
+  failed: { label: 'Failed', className: 'bg-orange-500 text-white' },
+};
+
+const formatDateTime = (isoTime: string) =>
+  new Date(isoTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function VideosPage() {
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const { toast } = useToast();
+
+  const { data: videos = [], isLoading, error } = useAdminVideos();
+  const deleteMutation = useDeleteVideo();
+
+  const uploadForm = useForm<UploadFormData>({
+    resolver: zodResolver(uploadFormSchema),
+    defaultValues: { title: '', description: '' },
+  });
+
+  // XMLHttpRequest rather than apiRequest, to show upload progress on multi-gigabyte files
+  const uploadMutation = useMutation({
+    mutationFn: async (data: UploadFormData): Promise<Video> => {
+      const formData = new FormData();
+      formData.append('title', data.title);
+      formData.append('description', data.description);
+      formData.append('video', data.file);
+
+      setUploadProgress(0);
+      const csrfToken = await getCSRFToken();
+
+      return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+
+        xhr.upload.addEventListener('progress', (event) => {
+          if (event.lengthComputable) {
+            setUploadProgress(Math.round((event.loaded / event.total) * 100));
+          }
+        });
+
+        xhr.addEventListener('load', () => {
+          if (xhr.status === 201) {
+            try {
+              resolve(JSON.parse(xhr.responseText));
+            } catch (e) {
+              reject(new Error('Invalid response format'));
+            }
+          } else {
+            try {
+              reject(new Error(JSON.parse(xhr.responseText).error || 'Upload failed'));
+            } catch (e) {
+              reject(new Error(`Upload failed with status ${xhr.status}`));
+            }
+          }
+        });
+
+        xhr.addEventListener('error', () => {
+          reject(new Error('Network error during upload'));
+        });
+
+        xhr.open('POST', '/api/admin/videos');
+        xhr.setRequestHeader('x-csrf-token', csrfToken);
+        xhr.send(formData);
+      });
+    },
+    onSuccess: (video) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/videos'] });
+      setIsUploadOpen(false);
+      toast({
+        title: 'Video uploaded',
+        description: `"${video.title}" is being transcoded and will appear in the library when it is ready.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Upload failed',
+        description: error.message || 'Failed to upload video',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-videos-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl font-bold">Video Library</CardTitle>
+            <Button
+              onClick={() => {
+                uploadForm.reset();
+                setIsUploadOpen(true);
+              }}
+              data-testid="button-upload-video"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload Video
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-md max-h-[calc(100vh-250px)] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32">Poster</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8" data-testid="text-loading-videos">
+                      Loading videos...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-red-400" data-testid="text-error-videos">
+                      Failed to load videos: {(error as any).message || 'Unknown error'}
+                    </TableCell>
+                  </TableRow>
+                ) : videos.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      <Film className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                      No videos yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  videos.map((video) => (
+                    <TableRow key={video.id} data-testid={`row-video-${video.id}`}>
+                      <TableCell>
+                        {video.status === 'ready' ? (
+                          <img
+                            src={getVideoPosterUrl(video.id)}
+                            alt=""
+                            className="w-28 aspect-video object-cover rounded"
+                          />
+                        ) : (
+                          <div className="w-28 aspect-video rounded bg-muted flex items-center justify-center">
+                            <Film className="w-6 h-6 opacity-50" />
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{video.title}</div>
+                        {video.description && (
+                          <div className="text-xs text-muted-foreground max-w-md truncate">{video.description}</div>
+                        )}
+                        {video.error && (
+                          <div className="text-xs text-orange-400 max-w-md truncate" title={video.error}>
+                            {video.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`w-fit ${STATUS_BADGES[video.status].className}`} data-testid={`badge-status-${video.id}`}>
+                          {STATUS_BADGES[video.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDateTime(video.createdAt)}</TableCell>
+                      <TableCell className="text-sm font-mono">
+                        {video.status === 'ready' ? formatPlaybackTime(video.durationSeconds) : '—'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {video.status === 'ready' ? formatFileSize(video.sizeBytes) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                              data-testid={`button-delete-${video.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Video</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{video.title}"? It is removed from every viewer's
+                                library along with their resume points. This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel data-testid={`button-cancel-delete-${video.id}`}>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteMutation.mutate(video.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                data-testid={`button-confirm-delete-${video.id}`}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Upload */}
+      <Dialog open={isUploadOpen} onOpenChange={(open) => !uploadMutation.isPending && setIsUploadOpen(open)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Upload Video</DialogTitle>
+            <DialogDescription>
+              The video is converted for streaming after upload, which can take a while for long videos.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...uploadForm}>
+            <form onSubmit={uploadForm.handleSubmit((data) => uploadMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={uploadForm.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input data-testid="input-video-title" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={uploadForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} data-testid="input-video-description" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={uploadForm.control}
+                name="file"
+                render={({ field: { value, onChange, ...field } }) => (
+                  <FormItem>
+                    <FormLabel>Video File</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept="video/*,.mkv,.ts,.mts"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          onChange(file);
+                          if (file && !uploadForm.getValues('title')) {
+                            uploadForm.setValue('title', file.name.replace(/\.[^.]+$/, ''));
+                          }
+                        }}
+                        data-testid="input-video-file"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>MP4, MOV, MKV, WebM, AVI, TS or MPEG.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {uploadMutation.isPending && (
+                <div className="space-y-1" data-testid="upload-video-progress">
+                  <Progress value={uploadProgress} />
+                  <div className="text-xs text-muted-foreground">Uploading... {uploadProgress}%</div>
+                </div>
+              )}
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsUploadOpen(false)}
+                  disabled={uploadMutation.isPending}
+                  data-testid="button-cancel-upload"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={uploadMutation.isPending} data-testid="button-confirm-upload">
+                  {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
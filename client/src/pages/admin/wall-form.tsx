@@ -0,0 +1,387 @@
+import { useEffect } from 'react';
+import { useParams, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Plus, Save, Trash2, Volume2 } from 'lucide-react';
+import { Link } from 'wouter';
+import { cn } from '@/lib/utils';
+import { useWalls, useSaveWall } from '@/hooks/use-walls';
+import { type GroupedStreams } from '@/hooks/use-categories';
+import { insertWallLayoutSchema, MAX_WALL_SIZE } from '@shared/schema';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+
+type WallFormData = z.infer<typeof insertWallLayoutSchema>;
+
+const SIZES = Array.from({ length: MAX_WALL_SIZE }, (_, index) => index + 1);
+
+// Numeric select for grid positions and sizes
+function NumberSelect({ value, options, onChange, testId }: {
+  value: number;
+  options: number[];
+  onChange: (value: number) => void;
+  testId: string;
+}) {
+  return (
+    <Select value={String(value)} onValueChange={(next) => onChange(Number(next))}>
+      <SelectTrigger className="w-20" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function WallFormPage() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const isEditing = !!id;
+
+  // Walls are a small list, so editing reads from the cached list
+  const { data: walls, isLoading: wallsLoading } = useWalls();
+  const wall = walls?.find(w => w.id === id);
+
+  const { data: streamData } = useQuery<GroupedStreams>({
+    queryKey: ['/api/streams'],
+  });
+  const allStreams = Object.values(streamData || {})
+    .flat()
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const saveWallMutation = useSaveWall();
+
+  const form = useForm<WallFormData>({
+    resolver: zodResolver(insertWallLayoutSchema),
+    defaultValues: {
+      name: '',
+      columns: 2,
+      rows: 2,
+      tiles: [],
+      shared: true,
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'tiles' });
+
+  // Update form when wall data loads; tiles whose feed was deleted need a new stream
+  useEffect(() => {
+    if (wall && isEditing) {
+      form.reset({
+        name: wall.name,
+        columns: wall.columns,
+        rows: wall.rows,
+        tiles: wall.tiles.map(tile => ({
+          streamId: tile.streamId ?? '',
+          x: tile.x,
+          y: tile.y,
+          width: tile.width,
+          height: tile.height,
+          audio: tile.audio,
+        })),
+        shared: true,
+      });
+    }
+  }, [wall, isEditing, form]);
+
+  const columns = form.watch('columns');
+  const rows = form.watch('rows');
+  const tiles = form.watch('tiles');
+
+  // New tiles go into the first free cell
+  const addTile = () => {
+    const occupied = new Set<string>();
+    tiles.forEach(tile => {
+      for (let x = tile.x; x < tile.x + (tile.width ?? 1); x++) {
+        for (let y = tile.y; y < tile.y + (tile.height ?? 1); y++) {
+          occupied.add(`${x},${y}`);
+        }
+      }
+    });
+
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < columns; x++) {
+        if (!occupied.has(`${x},${y}`)) {
+          append({ streamId: '', x, y, width: 1, height: 1, audio: tiles.length === 0 });
+          return;
+        }
+      }
+    }
+  };
+
+  // Audio is exclusive - turning it on for one tile turns it off for the rest
+  const setAudioTile = (index: number, audio: boolean) => {
+    tiles.forEach((_, tileIndex) => {
+      form.setValue(`tiles.${tileIndex}.audio`, tileIndex === index ? audio : false, { shouldDirty: true });
+    });
+  };
+
+  const onSubmit = (data: WallFormData) => {
+    saveWallMutation.mutate(
+      { id, wall: { ...data, shared: true } },
+      { onSuccess: () => navigate('/admin/walls') },
+    );
+  };
+
+  if (wallsLoading && isEditing) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg" data-testid="text-loading-wall">Loading wall...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const tileErrors = form.formState.errors.tiles;
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto" data-testid="admin-wall-form-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" asChild data-testid="button-back-to-walls">
+              <Link href="/admin/walls">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Walls
+              </Link>
+            </Button>
+            <CardTitle className="text-2xl font-bold">
+              {isEditing ? 'Edit Wall' : 'Add New Wall'}
+            </CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Name and grid */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g., Nashville control room"
+                          data-testid="input-name"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="columns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Columns</FormLabel>
+                      <NumberSelect value={field.value} options={SIZES} onChange={field.onChange} testId="select-columns" />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="rows"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rows</FormLabel>
+                      <NumberSelect value={field.value} options={SIZES} onChange={field.onChange} testId="select-rows" />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Preview */}
+              <div>
+                <div className="text-sm font-medium mb-2">Preview</div>
+                <div
+                  className="grid gap-1 aspect-video max-w-xl border rounded-md p-1 bg-muted"
+                  style={{
+                    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                    gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+                  }}
+                  data-testid="preview-wall"
+                >
+                  {tiles.map((tile, index) => {
+                    const stream = allStreams.find(s => s.id === tile.streamId);
+                    return (
+                      <div
+                        key={fields[index]?.id ?? index}
+                        className={cn(
+                          "relative rounded-sm border flex items-center justify-center p-1 text-xs text-center overflow-hidden",
+                          stream ? "bg-background" : "bg-background/50 border-dashed",
+                          tileErrors?.[index] && "border-destructive"
+                        )}
+                        style={{
+                          gridColumn: `${tile.x + 1} / span ${tile.width ?? 1}`,
+                          gridRow: `${tile.y + 1} / span ${tile.height ?? 1}`,
+                        }}
+                      >
+                        {stream?.title ?? `Tile ${index + 1}`}
+                        {tile.audio && <Volume2 className="absolute top-1 right-1 w-3 h-3 text-green-500" />}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Tiles */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm font-medium">Tiles</div>
+                  <Button type="button" variant="outline" size="sm" onClick={addTile} data-testid="button-add-tile">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Tile
+                  </Button>
+                </div>
+
+                {fields.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No tiles yet</div>
+                )}
+
+                {fields.map((field, index) => {
+                  const savedTile = wall?.tiles[index];
+                  const isMissing = !!savedTile && savedTile.stream === null && !tiles[index]?.streamId;
+                  return (
+                    <div key={field.id} className="border rounded-md p-3 space-y-2" data-testid={`row-tile-${index}`}>
+                      <div className="flex flex-wrap items-end gap-3">
+                        <FormField
+                          control={form.control}
+                          name={`tiles.${index}.streamId`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1 min-w-48">
+                              <FormLabel>Stream</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger data-testid={`select-tile-stream-${index}`}>
+                                    <SelectValue placeholder="Select a stream" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {allStreams.map(stream => (
+                                    <SelectItem key={stream.id} value={stream.id}>
+                                      {stream.title} ({stream.streamId})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+
+                        {(['x', 'y', 'width', 'height'] as const).map(key => (
+                          <FormField
+                            key={key}
+                            control={form.control}
+                            name={`tiles.${index}.${key}`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="capitalize">{key === 'x' ? 'Column' : key === 'y' ? 'Row' : key}</FormLabel>
+                                <NumberSelect
+                                  value={field.value ?? (key === 'x' || key === 'y' ? 0 : 1)}
+                                  options={key === 'x' || key === 'y' ? SIZES.map(size => size - 1) : SIZES}
+                                  onChange={field.onChange}
+                                  testId={`select-tile-${key}-${index}`}
+                                />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+
+                        <FormField
+                          control={form.control}
+                          name={`tiles.${index}.audio`}
+                          render={({ field }) => (
+                            <FormItem className="flex flex-col items-center">
+                              <FormLabel>Audio</FormLabel>
+                              <FormControl>
+                                <Switch
+                                  checked={!!field.value}
+                                  onCheckedChange={(checked) => setAudioTile(index, checked)}
+                                  data-testid={`switch-tile-audio-${index}`}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                          onClick={() => remove(index)}
+                          data-testid={`button-remove-tile-${index}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+
+                      {isMissing && (
+                        <p className="text-sm text-yellow-600" data-testid={`text-tile-missing-${index}`}>
+                          "{savedTile.streamTitle || 'This feed'}" was deleted - pick a replacement or remove the tile.
+                        </p>
+                      )}
+                      {(tileErrors?.[index]?.message || tileErrors?.[index]?.streamId?.message) && (
+                        <p className="text-sm font-medium text-destructive">
+                          {tileErrors[index]?.message || tileErrors[index]?.streamId?.message}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {(tileErrors?.message || tileErrors?.root?.message) && (
+                  <p className="text-sm font-medium text-destructive" data-testid="text-tiles-error">
+                    {tileErrors.message || tileErrors.root?.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-4">
+                <Button type="button" variant="outline" asChild data-testid="button-cancel">
+                  <Link href="/admin/walls">Cancel</Link>
+                </Button>
+                <Button type="submit" disabled={saveWallMutation.isPending} data-testid="button-save-wall">
+                  <Save className="w-4 h-4 mr-2" />
+                  {saveWallMutation.isPending ? 'Saving...' : isEditing ? 'Update Wall' : 'Create Wall'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
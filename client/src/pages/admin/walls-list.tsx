@@ -0,0 +1,178 @@
+import { Plus, Edit, Trash2, AlertTriangle, Volume2 } from 'lucide-react';
+import { Link } from 'wouter';
+import { useWalls, useDeleteWall, getMissingTiles } from '@/hooks/use-walls';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+export default function WallsListPage() {
+  // Personal walls belong to their owners; admins manage the shared ones here
+  const { data: walls, isLoading, error } = useWalls();
+  const deleteWallMutation = useDeleteWall();
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg" data-testid="text-loading-walls">Loading walls...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-400 text-lg" data-testid="text-error-walls">
+            Failed to load walls: {(error as any).message || 'Unknown error'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const sharedWalls = (walls || []).filter(wall => wall.ownerId === null);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="admin-walls-page">
+      <Card className="hover-elevate">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl font-bold">Manage Walls</CardTitle>
+            <Button asChild data-testid="button-add-wall">
+              <Link href="/admin/walls/new">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Wall
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-sm text-muted-foreground mb-6" data-testid="text-walls-count">
+            {sharedWalls.length} shared walls, listed under Walls for every user
+          </div>
+
+          {/* Walls Table */}
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Grid</TableHead>
+                  <TableHead>Feeds</TableHead>
+                  <TableHead>Audio</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sharedWalls.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      No shared walls yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sharedWalls.map((wall) => {
+                    const missing = getMissingTiles(wall);
+                    const audioTile = wall.tiles.find(tile => tile.audio);
+                    return (
+                      <TableRow key={wall.id} data-testid={`row-wall-${wall.id}`}>
+                        <TableCell className="font-medium">{wall.name}</TableCell>
+                        <TableCell className="font-mono text-sm">{wall.columns}x{wall.rows}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span><span className="font-mono text-sm">{wall.tiles.length}</span> feeds</span>
+                            {missing.length > 0 && (
+                              <Badge variant="destructive" className="flex items-center gap-1" data-testid={`badge-missing-${wall.id}`}>
+                                <AlertTriangle className="w-3 h-3" />
+                                {missing.length} missing
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {audioTile ? (
+                            <span className="flex items-center gap-1 text-sm">
+                              <Volume2 className="w-4 h-4 text-muted-foreground" />
+                              {audioTile.stream?.title ?? audioTile.streamTitle}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">Muted</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center gap-2 justify-end">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              asChild
+                              data-testid={`button-edit-${wall.id}`}
+                            >
+                              <Link href={`/admin/walls/edit/${wall.id}`}>
+                                <Edit className="w-4 h-4" />
+                              </Link>
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                                  data-testid={`button-delete-${wall.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Wall</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete "{wall.name}"? It disappears from Walls for every user.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel data-testid={`button-cancel-delete-${wall.id}`}>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => deleteWallMutation.mutate(wall.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    data-testid={`button-confirm-delete-${wall.id}`}
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+import { spawn } from 'child_process';
+import { existsSync, mkdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { storage } from './storage';
+import type { Clip, Stream } from '../shared/schema';
+import { detectStreamType, getHlsFallbackUrl, normalizeHlsUrl } from '../shared/streamUrls';
+
+interface ClipOptions {
+  title?: string;
+  durationSeconds: number;
+  createdBy?: string | null;
+  createdByUsername?: string | null;
+}
+
+// A media segment of a live playlist, with the key and init section in effect for it
+interface PlaylistSegment {
+  duration: number;
+  uri: string;
+  discontinuity: boolean;
+  key: string | null;
+  map: string | null;
+}
+
+/**
+ * Cuts clips ending "now" from a live stream. The stream's HLS playlist already holds the
+ * last few segments, so a clip is those segments copied into an MP4 - no re-encoding and no
+ * recording running in the background. How far back a clip can reach depends on how many
+ * segments the origin keeps in its playlist.
+ */
+export class ClipService {
+  private static instance: ClipService;
+  private clipsDir: string;
+  private readonly FETCH_TIMEOUT = 10000; // per playlist request
+  private readonly CUT_TIMEOUT = 120000; // ffmpeg has to download every segment in the clip
+
+  private constructor() {
+    this.clipsDir = join(process.cwd(), 'server', 'clips');
+
+    if (!existsSync(this.clipsDir)) {
+      mkdirSync(this.clipsDir, { recursive: true });
+    }
+
+    this.failInterrupted().catch(error => {
+      console.error('ClipService: Failed to clean up interrupted clips:', error);
+    });
+
+    console.log(`ClipService initialized: ${this.clipsDir}`);
+  }
+
+  static getInstance(): ClipService {
+    if (!ClipService.instance) {
+      ClipService.instance = new ClipService();
+    }
+    return ClipService.instance;
+  }
+
+  /**
+   * Cut a clip of the last `durationSeconds` of a stream. The row comes back "processing"
+   * straight away; it turns "ready" (or "failed") once the segments are downloaded.
+   */
+  async createClip(stream: Stream, options: ClipOptions): Promise<Clip> {
+    const now = new Date();
+    const clip = await storage.createClip({
+      streamId: stream.id,
+      streamTitle: stream.title,
+      title: options.title || this.getDefaultTitle(stream, now),
+      status: 'processing',
+      durationSeconds: options.durationSeconds,
+      createdBy: options.createdBy ?? null,
+      createdByUsername: options.createdByUsername ?? null,
+      createdAt: now.toISOString(),
+    });
+
+    // Anything cut() could not handle itself (storage errors, a throw before the first
+    // source is tried) still has to end the clip, or it shows as cutting forever
+    this.cut(clip, stream).catch(error => {
+      console.error(`ClipService[${clip.id}]: Failed to cut clip:`, error);
+      this.removeFiles(clip.id);
+      const message = error instanceof Error ? error.message : String(error);
+      storage.updateClip(clip.id, { status: 'failed', error: message }).catch(updateError => {
+        console.error(`ClipService[${clip.id}]: Failed to record clip result:`, updateError);
+      });
+    });
+
+    return clip;
+  }
+
+  /**
+   * Delete a clip's row and file
+   */
+  async deleteClip(id: string): Promise<boolean> {
+    this.removeFiles(id);
+    return storage.deleteClip(id);
+  }
+
+  /**
+   * Path of a ready clip's MP4, or null when the file is gone
+   */
+  getClipPath(id: string): string | null {
+    const path = this.getOutputPath(id);
+    return existsSync(path) ? path : null;
+  }
+
+  /**
+   * File name offered for a download, e.g. "Main-Studio-2026-10-19-1405-UTC.mp4"
+   */
+  getDownloadFilename(clip: Clip): string {
+    const name = clip.title.replace(/[^a-zA-Z0-9-_ ]/g, '').trim().replace(/\s+/g, '-');
+    return `${name || 'clip'}.mp4`;
+  }
+
+  private getDefaultTitle(stream: Stream, date: Date): string {
+    return `${stream.title} ${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+  }
+
+  private sanitizeId(id: string): string {
+    return id.replace(/[^a-zA-Z0-9-_]/g, '');
+  }
+
+  private getOutputPath(id: string): string {
+    return join(this.clipsDir, `${this.sanitizeId(id)}.mp4`);
+  }
+
+  private getWorkPlaylistPath(id: string): string {
+    return join(this.clipsDir, `${this.sanitizeId(id)}.m3u8`);
+  }
+
+  private removeFiles(id: string): void {
+    try {
+      rmSync(this.getOutputPath(id), { force: true });
+      rmSync(this.getWorkPlaylistPath(id), { force: true });
+    } catch (error) {
+      console.error(`ClipService: Error deleting files for ${id}:`, error);
+    }
+  }
+
+  /**
+   * Clips left "processing" by a restart can't be finished - the moment they were asked
+   * for has left the stream's playlist
+   */
+  private async failInterrupted(): Promise<void> {
+    const processing = (await storage.getClips()).filter(clip => clip.status === 'processing');
+    for (const clip of processing) {
+      this.removeFiles(clip.id);
+      await storage.updateClip(clip.id, { status: 'failed', error: 'Server restarted while the clip was being cut' });
+    }
+  }
+
+  /**
+   * HTTP-HLS URL to cut from - HLS URLs as they are, WebRTC streams through their SRS
+   * HTTP-HLS mirror
+   */
+  private getInputUrl(url: string, streamId: string): string | null {
+    if (detectStreamType(url) === 'hls') {
+      return normalizeHlsUrl(url);
+    }
+
+    // SRS typically serves HTTP-HLS on HTTP even if WHEP is HTTPS
+    const protocol = process.env.SRS_FORCE_HTTPS === 'true' ? 'https' : 'http';
+    return getHlsFallbackUrl(url, streamId, null, protocol);
+  }
+
+  /**
+   * Try the stream's primary URL, then its backup sources, until one yields a clip
+   */
+  private async cut(clip: Clip, stream: Stream): Promise<void> {
+    const sources = await storage.getStreamSources(stream.id);
+    const sourceUrls = [stream.url, ...sources.map(source => source.url)]
+      .map(url => this.getInputUrl(url, stream.streamId))
+      .filter((url): url is string => !!url);
+
+    let lastError = 'Stream has no HLS rendition to clip';
+    for (const url of sourceUrls) {
+      try {
+        const durationSeconds = await this.cutFrom(clip, url);
+
+        // Deleted while cutting - nothing left to finish
+        if (!(await storage.getClip(clip.id))) {
+          this.removeFiles(clip.id);
+          return;
+        }
+
+        const sizeBytes = statSync(this.getOutputPath(clip.id)).size;
+        await storage.updateClip(clip.id, { status: 'ready', durationSeconds, sizeBytes, error: null });
+        console.log(`ClipService[${stream.streamId}]: Clip ${clip.id} ready (${durationSeconds}s, ${sizeBytes} bytes)`);
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.warn(`ClipService[${stream.streamId}]: Could not clip from ${url}: ${lastError}`);
+        this.removeFiles(clip.id);
+      }
+    }
+
+    await storage.updateClip(clip.id, { status: 'failed', error: lastError });
+  }
+
+  /**
+   * Cut a clip from one HLS URL and return its length in seconds. ffmpeg reads a VOD
+   * playlist of just the segments the clip needs, so it stops at the live edge instead of
+   * waiting for more.
+   */
+  private async cutFrom(clip: Clip, url: string): Promise<number> {
+    const { playlistUrl, playlist } = await this.fetchMediaPlaylist(url);
+    const segments = this.parseSegments(playlist, playlistUrl);
+    if (segments.length === 0) {
+      throw new Error('Stream playlist has no segments - is it live?');
+    }
+
+    // Walk back from the live edge until the segments cover the requested length
+    const selected: PlaylistSegment[] = [];
+    let bufferedSeconds = 0;
+    for (let i = segments.length - 1; i >= 0 && bufferedSeconds < clip.durationSeconds; i--) {
+      selected.unshift(segments[i]);
+      bufferedSeconds += segments[i].duration;
+    }
+
+    const durationSeconds = Math.min(clip.durationSeconds, bufferedSeconds);
+    const offsetSeconds = bufferedSeconds - durationSeconds;
+    if (bufferedSeconds < clip.durationSeconds) {
+      console.warn(`ClipService[${clip.id}]: Only ${Math.round(bufferedSeconds)}s buffered, clip is shorter than asked`);
+    }
+
+    const workPlaylistPath = this.getWorkPlaylistPath(clip.id);
+    writeFileSync(workPlaylistPath, this.buildPlaylist(playlist, selected));
+
+    try {
+      await this.runFfmpeg([
+        '-hide_banner',
+        '-loglevel', 'error',
+        '-protocol_whitelist', 'file,http,https,tcp,tls,crypto',
+        '-allowed_extensions', 'ALL',
+        '-ss', offsetSeconds.toFixed(3),
+        '-i', workPlaylistPath,
+        '-t', durationSeconds.toFixed(3),
+        '-map', '0:v:0?',
+        '-map', '0:a:0?',
+        '-c', 'copy',
+        '-movflags', '+faststart',
+        '-y',
+        this.getOutputPath(clip.id)
+      ]);
+    } finally {
+      rmSync(workPlaylistPath, { force: true });
+    }
+
+    return Math.round(durationSeconds);
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.FETCH_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Stream is not being published' : `HTTP ${response.status} fetching playlist`);
+    }
+    return response.text();
+  }
+
+  /**
+   * The media playlist behind a URL - master playlists resolve to their highest bandwidth
+   * variant, the one viewers get on a good connection
+   */
+  private async fetchMediaPlaylist(url: string): Promise<{ playlistUrl: string; playlist: string }> {
+    const playlist = await this.fetchText(url);
+    const lines = playlist.split(/\r?\n/).map(line => line.trim());
+
+    let best: { uri: string; bandwidth: number } | null = null;
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+      const uri = lines.slice(i + 1).find(next => next && !next.startsWith('#'));
+      const bandwidth = Number(lines[i].match(/[:,]BANDWIDTH=(\d+)/)?.[1] ?? 0);
+      if (uri && (!best || bandwidth > best.bandwidth)) {
+        best = { uri, bandwidth };
+      }
+    }
+
+    if (!best) {
+      return { playlistUrl: url, playlist };
+    }
+
+    const variantUrl = this.resolveRemoteUri(best.uri, url);
+    return { playlistUrl: variantUrl, playlist: await this.fetchText(variantUrl) };
+  }
+
+  /**
+   * Media segments of a playlist with absolute URIs, oldest first
+   */
+  private parseSegments(playlist: string, playlistUrl: string): PlaylistSegment[] {
+    const resolveUri = (line: string) =>
+      line.replace(/URI="([^"]+)"/, (_, uri) => `URI="${this.resolveRemoteUri(uri, playlistUrl)}"`);
+
+    const segments: PlaylistSegment[] = [];
+    let duration: number | null = null;
+    let discontinuity = false;
+    let key: string | null = null;
+    let map: string | null = null;
+
+    for (const rawLine of playlist.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (line.startsWith('#EXTINF:')) {
+        duration = parseFloat(line.slice('#EXTINF:'.length));
+      } else if (line === '#EXT-X-DISCONTINUITY') {
+        discontinuity = true;
+      } else if (line.startsWith('#EXT-X-KEY:')) {
+        key = line.includes('METHOD=NONE') ? null : resolveUri(line);
+      } else if (line.startsWith('#EXT-X-MAP:')) {
+        map = resolveUri(line);
+      } else if (!line.startsWith('#') && duration !== null) {
+        segments.push({ duration, uri: this.resolveRemoteUri(line, playlistUrl), discontinuity, key, map });
+        duration = null;
+        discontinuity = false;
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Absolute URI of a playlist entry. ffmpeg reads the work playlist from disk, so it is
+   * allowed the file protocol - a remote playlist must not be able to point it at local files.
+   */
+  private resolveRemoteUri(uri: string, baseUrl: string): string {
+    const resolved = new URL(uri, baseUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+      throw new Error(`Refusing ${resolved.protocol} URI in stream playlist`);
+    }
+    return resolved.toString();
+  }
+
+  /**
+   * A VOD playlist of the chosen segments, for ffmpeg to read start to finish
+   */
+  private buildPlaylist(source: string, segments: PlaylistSegment[]): string {
+    const version = source.match(/^#EXT-X-VERSION:(\d+)/m)?.[1] ?? '3';
+    const targetDuration = Math.ceil(Math.max(...segments.map(segment => segment.duration)));
+
+    const lines = [
+      '#EXTM3U',
+      `#EXT-X-VERSION:${version}`,
+      `#EXT-X-TARGETDURATION:${targetDuration}`,
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+    ];
+
+    let key: string | null = null;
+    let map: string | null = null;
+    segments.forEach((segment, index) => {
+      if (segment.key !== key) {
+        lines.push(segment.key ?? '#EXT-X-KEY:METHOD=NONE');
+        key = segment.key;
+      }
+      if (segment.map && segment.map !== map) {
+        lines.push(segment.map);
+        map = segment.map;
+      }
+      if (segment.discontinuity && index > 0) {
+        lines.push('#EXT-X-DISCONTINUITY');
+      }
+      lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, segment.uri);
+    });
+
+    lines.push('#EXT-X-ENDLIST', '');
+    return lines.join('\n');
+  }
+
+  private runFfmpeg(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpegProcess = spawn('ffmpeg', args);
+
+      const timeout = setTimeout(() => {
+        ffmpegProcess.kill('SIGKILL');
+        reject(new Error(`ffmpeg timed out after ${this.CUT_TIMEOUT / 1000}s`));
+      }, this.CUT_TIMEOUT);
+
+      let lastError = '';
+      ffmpegProcess.stderr?.on('data', (data) => {
+        lastError = data.toString().trim() || lastError;
+      });
+
+      ffmpegProcess.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      });
+      ffmpegProcess.on('close', (code) => {
+        clearTimeout(timeout);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(lastError ? `ffmpeg: ${lastError.split('\n').pop()}` : `ffmpeg exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import type { MediaAlert, MediaAlertType } from '../shared/schema';
+
+/**
+ * Keeps the black-frame, frozen-frame and silence alerts raised by the snapshot workers.
+ * Alerts live in memory like stream health - a restart starts a fresh feed, and the
+ * workers raise anything still going on again.
+ */
+export class MediaAlertService {
+  private static instance: MediaAlertService;
+  private alerts: MediaAlert[] = []; // newest first
+  private readonly MAX_ALERTS = 500;
+
+  private constructor() {
+    console.log(`MediaAlertService initialized: keeping the last ${this.MAX_ALERTS} alerts`);
+  }
+
+  static getInstance(): MediaAlertService {
+    if (!MediaAlertService.instance) {
+      MediaAlertService.instance = new MediaAlertService();
+    }
+    return MediaAlertService.instance;
+  }
+
+  /**
+   * Open an alert for a stream, unless one of the same type is already open
+   */
+  raise(streamId: string, type: MediaAlertType): void {
+    if (this.findOpen(streamId, type)) {
+      return;
+    }
+
+    this.alerts.unshift({
+      id: randomUUID(),
+      streamId,
+      type,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+    });
+    this.prune();
+    console.warn(`MediaAlertService[${streamId}]: ${type} detected`);
+  }
+
+  /**
+   * Close a stream's open alert of one type, or of every type
+   */
+  resolve(streamId: string, type?: MediaAlertType): void {
+    const endedAt = new Date().toISOString();
+    for (const alert of this.alerts) {
+      if (alert.streamId === streamId && alert.endedAt === null && (!type || alert.type === type)) {
+        alert.endedAt = endedAt;
+        console.log(`MediaAlertService[${streamId}]: ${alert.type} cleared`);
+      }
+    }
+  }
+
+  /**
+   * Recent alerts, newest first - open ones included
+   */
+  getAlerts(limit: number = this.MAX_ALERTS): MediaAlert[] {
+    return this.alerts.slice(0, limit);
+  }
+
+  private findOpen(streamId: string, type: MediaAlertType): MediaAlert | undefined {
+    return this.alerts.find(alert => alert.streamId === streamId && alert.type === type && alert.endedAt === null);
+  }
+
+  /**
+   * Drop the oldest closed alerts beyond the cap; open ones stay until they end
+   */
+  private prune(): void {
+    while (this.alerts.length > this.MAX_ALERTS) {
+      const index = this.alerts.map(alert => alert.endedAt !== null).lastIndexOf(true);
+      if (index === -1) {
+        return;
+      }
+      this.alerts.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,576 @@
+import { spawn, ChildProcess } from 'child_process';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { storage } from './storage';
+import { onShutdown } from './shutdown';
+import { MAX_RECORDING_MINUTES, type Recording, type RecordingLimits, type Stream } from '../shared/schema';
+import { detectStreamType, getHlsFallbackUrl, normalizeHlsUrl } from '../shared/streamUrls';
+
+interface ActiveRecording {
+  recordingId: string;
+  streamId: string; // streams.streamId, for logs
+  process: ChildProcess | null;
+  processStartedAt: number;
+  restartCount: number;
+  isStopping: boolean;
+  sourceUrls: string[]; // HLS renditions of streams.url, then of the backup sources in priority order
+  sourceIndex: number;
+}
+
+interface StartOptions {
+  title?: string;
+  durationMinutes?: number;
+  createdBy?: string | null;
+}
+
+interface ScheduleOptions {
+  title?: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+  createdBy?: string | null;
+}
+
+export class RecordingService {
+  private static instance: RecordingService;
+  private active: Map<string, ActiveRecording> = new Map();
+  private recordingsDir: string;
+  private readonly RETENTION_DAYS = parseInt(process.env.RECORDING_RETENTION_DAYS || '30', 10);
+  private readonly MAX_TOTAL_BYTES = Math.round(parseFloat(process.env.RECORDING_MAX_TOTAL_GB || '50') * 1024 ** 3);
+  private readonly MAX_RESTART_COUNT = 5;
+  private readonly STABLE_RUN_MS = 60000; // a run this long resets the restart count
+  private readonly SEGMENT_SECONDS = 6;
+  private readonly SCHEDULE_CHECK_INTERVAL = 15000; // 15 seconds
+  private readonly STOP_TIMEOUT = 10000; // ffmpeg gets this long to close the playlist
+  private scheduleTimer?: NodeJS.Timeout;
+  private isChecking = false;
+  private hasRecovered = false;
+
+  private constructor() {
+    this.recordingsDir = join(process.cwd(), 'server', 'recordings');
+
+    if (!existsSync(this.recordingsDir)) {
+      mkdirSync(this.recordingsDir, { recursive: true });
+    }
+
+    this.startScheduler();
+    onShutdown('RecordingService', () => this.shutdown());
+
+    console.log(`RecordingService initialized: ${this.recordingsDir} (keeping ${this.RETENTION_DAYS} days, ${this.MAX_TOTAL_BYTES} bytes max)`);
+  }
+
+  static getInstance(): RecordingService {
+    if (!RecordingService.instance) {
+      RecordingService.instance = new RecordingService();
+    }
+    return RecordingService.instance;
+  }
+
+  /**
+   * Whether a stream (streams.id) is being recorded right now
+   */
+  isRecording(streamId: string): boolean {
+    return Array.from(this.active.values()).some(entry => entry.streamId === streamId);
+  }
+
+  /**
+   * Start recording a stream straight away
+   */
+  async startRecording(stream: Stream, options: StartOptions = {}): Promise<Recording> {
+    const now = new Date();
+    const recording = await storage.createRecording({
+      streamId: stream.id,
+      streamTitle: stream.title,
+      title: options.title || this.getDefaultTitle(stream, now),
+      status: 'recording',
+      scheduledEnd: options.durationMinutes
+        ? new Date(now.getTime() + options.durationMinutes * 60000).toISOString()
+        : null,
+      startedAt: now.toISOString(),
+      createdBy: options.createdBy ?? null,
+      createdAt: now.toISOString(),
+    });
+
+    return this.begin(recording, stream);
+  }
+
+  /**
+   * Book a recording for later - the scheduler starts and stops it
+   */
+  async scheduleRecording(stream: Stream, options: ScheduleOptions): Promise<Recording> {
+    return storage.createRecording({
+      streamId: stream.id,
+      streamTitle: stream.title,
+      title: options.title || this.getDefaultTitle(stream, new Date(options.scheduledStart)),
+      status: 'scheduled',
+      scheduledStart: options.scheduledStart,
+      scheduledEnd: options.scheduledEnd,
+      createdBy: options.createdBy ?? null,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Stop a running recording, or cancel one that hasn't started. A running recording stays
+   * "recording" until ffmpeg has closed the files.
+   */
+  async stopRecording(recording: Recording): Promise<Recording | undefined> {
+    if (recording.status === 'scheduled') {
+      return storage.updateRecording(recording.id, { status: 'cancelled', endedAt: new Date().toISOString() });
+    }
+
+    const entry = this.active.get(recording.id);
+    if (entry) {
+      this.stopProcess(entry);
+      return recording;
+    }
+
+    // Left over from a restart with no process behind it
+    return this.finish(recording.id);
+  }
+
+  /**
+   * Delete a recording's row and files
+   */
+  async deleteRecording(id: string): Promise<boolean> {
+    const entry = this.active.get(id);
+    if (entry) {
+      this.active.delete(id);
+      entry.process?.kill('SIGKILL');
+    }
+
+    this.removeFiles(id);
+    return storage.deleteRecording(id);
+  }
+
+  /**
+   * ffmpeg remuxing a finished recording to fragmented MP4 on stdout, so a download starts
+   * straight away without keeping a second copy on disk. Null when the files are gone.
+   */
+  createDownload(id: string): ChildProcess | null {
+    const playlistPath = this.getPlaylistPath(id);
+    if (!existsSync(playlistPath)) {
+      return null;
+    }
+
+    return spawn('ffmpeg', [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-i', playlistPath,
+      '-c', 'copy',
+      '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+      '-f', 'mp4',
+      'pipe:1'
+    ]);
+  }
+
+  /**
+   * File name offered for a download, e.g. "Main-Studio-2026-10-19.mp4"
+   */
+  getDownloadFilename(recording: Recording): string {
+    const name = recording.title.replace(/[^a-zA-Z0-9-_ ]/g, '').trim().replace(/\s+/g, '-');
+    return `${name || 'recording'}.mp4`;
+  }
+
+  /**
+   * Retention limits and how much of them is used
+   */
+  async getLimits(): Promise<RecordingLimits> {
+    const recordings = await storage.getRecordings();
+    return {
+      retentionDays: this.RETENTION_DAYS,
+      maxTotalBytes: this.MAX_TOTAL_BYTES,
+      usedBytes: recordings.reduce((total, recording) => total + recording.sizeBytes, 0),
+    };
+  }
+
+  private getDefaultTitle(stream: Stream, date: Date): string {
+    return `${stream.title} ${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  private getRecordingDir(id: string): string {
+    return join(this.recordingsDir, id.replace(/[^a-zA-Z0-9-_]/g, ''));
+  }
+
+  private getPlaylistPath(id: string): string {
+    return join(this.getRecordingDir(id), 'index.m3u8');
+  }
+
+  /**
+   * HTTP-HLS URL ffmpeg can record from - HLS URLs as they are, WebRTC streams through
+   * their SRS HTTP-HLS mirror
+   */
+  private getInputUrl(url: string, streamId: string): string | null {
+    if (detectStreamType(url) === 'hls') {
+      return normalizeHlsUrl(url);
+    }
+
+    // SRS typically serves HTTP-HLS on HTTP even if WHEP is HTTPS
+    const protocol = process.env.SRS_FORCE_HTTPS === 'true' ? 'https' : 'http';
+    return getHlsFallbackUrl(url, streamId, null, protocol);
+  }
+
+  /**
+   * Spawn ffmpeg for a recording whose row is already "recording"
+   */
+  private async begin(recording: Recording, stream: Stream): Promise<Recording> {
+    const sources = await storage.getStreamSources(stream.id);
+    const sourceUrls = [stream.url, ...sources.map(source => source.url)]
+      .map(url => this.getInputUrl(url, stream.streamId))
+      .filter((url): url is string => !!url);
+
+    if (sourceUrls.length === 0) {
+      console.warn(`RecordingService[${stream.streamId}]: No HLS rendition to record`);
+      const failed = await storage.updateRecording(recording.id, {
+        status: 'failed',
+        endedAt: new Date().toISOString(),
+        error: 'Stream has no HLS rendition to record',
+      });
+      return failed ?? recording;
+    }
+
+    mkdirSync(this.getRecordingDir(recording.id), { recursive: true });
+
+    const entry: ActiveRecording = {
+      recordingId: recording.id,
+      streamId: stream.id,
+      process: null,
+      processStartedAt: 0,
+      restartCount: 0,
+      isStopping: false,
+      sourceUrls,
+      sourceIndex: 0
+    };
+    this.active.set(recording.id, entry);
+    this.startProcess(entry);
+
+    console.log(`RecordingService: Recording ${stream.streamId} as ${recording.id}`);
+    return recording;
+  }
+
+  /**
+   * Start (or restart) ffmpeg for a recording. Restarts append to the same playlist, so a
+   * dropped connection leaves a discontinuity rather than a second recording.
+   */
+  private startProcess(entry: ActiveRecording): void {
+    const dir = this.getRecordingDir(entry.recordingId);
+    const inputUrl = entry.sourceUrls[entry.sourceIndex];
+
+    const args = [
+      '-hide_banner',
+      '-loglevel', 'warning',
+      '-reconnect', '1',
+      '-reconnect_streamed', '1',
+      '-reconnect_on_network_error', '1',
+      '-timeout', '10000000',  // 10 second timeout
+      '-i', inputUrl,
+      '-map', '0:v?',
+      '-map', '0:a?',
+      '-c', 'copy',  // no transcoding - the recording is the stream as delivered
+      '-f', 'hls',
+      '-hls_time', String(this.SEGMENT_SECONDS),
+      '-hls_list_size', '0',  // keep every segment in the playlist
+      '-hls_playlist_type', 'event',
+      '-hls_flags', 'append_list',
+      '-hls_segment_filename', join(dir, 'segment_%05d.ts'),
+      this.getPlaylistPath(entry.recordingId)
+    ];
+
+    console.log(`RecordingService[${entry.recordingId}]: Starting ffmpeg with input ${inputUrl}`);
+    const ffmpegProcess = spawn('ffmpeg', args);
+
+    entry.process = ffmpegProcess;
+    entry.processStartedAt = Date.now();
+    entry.restartCount++;
+
+    ffmpegProcess.stderr?.on('data', (data) => {
+      const message = data.toString();
+      if (message.includes('error') || message.includes('failed')) {
+        console.error(`RecordingService[${entry.recordingId}]: ${message.trim()}`);
+      }
+    });
+
+    ffmpegProcess.on('close', (code) => {
+      console.log(`RecordingService[${entry.recordingId}]: Process exited with code ${code}`);
+      // Killed on delete - nothing left to finish
+      if (entry.process !== ffmpegProcess || this.active.get(entry.recordingId) !== entry) {
+        return;
+      }
+      entry.process = null;
+
+      if (entry.isStopping) {
+        this.finish(entry.recordingId).catch(error => {
+          console.error(`RecordingService[${entry.recordingId}]: Failed to finish recording:`, error);
+        });
+        return;
+      }
+
+      // Dropped on its own - a long run means the source was fine until now
+      if (Date.now() - entry.processStartedAt > this.STABLE_RUN_MS) {
+        entry.restartCount = 0;
+      }
+
+      if (entry.restartCount >= this.MAX_RESTART_COUNT) {
+        if (entry.sourceIndex >= entry.sourceUrls.length - 1) {
+          console.error(`RecordingService[${entry.recordingId}]: Max restart attempts exceeded on every source, ending recording`);
+          this.finish(entry.recordingId, 'Stream kept dropping - the recording ended early').catch(error => {
+            console.error(`RecordingService[${entry.recordingId}]: Failed to finish recording:`, error);
+          });
+          return;
+        }
+        entry.sourceIndex++;
+        entry.restartCount = 0;
+        console.warn(`RecordingService[${entry.recordingId}]: Failing over to source ${entry.sourceIndex + 1} of ${entry.sourceUrls.length}`);
+      }
+
+      const backoffMs = Math.min(1000 * Math.pow(2, entry.restartCount), 30000);
+      console.log(`RecordingService[${entry.recordingId}]: Restarting in ${backoffMs}ms`);
+      setTimeout(() => {
+        if (this.active.get(entry.recordingId) === entry && !entry.process && !entry.isStopping) {
+          this.startProcess(entry);
+        }
+      }, backoffMs);
+    });
+
+    ffmpegProcess.on('error', (error) => {
+      console.error(`RecordingService[${entry.recordingId}]: Process error:`, error);
+    });
+  }
+
+  /**
+   * Ask ffmpeg to stop - SIGINT lets it write the last segment and close the playlist
+   */
+  private stopProcess(entry: ActiveRecording): void {
+    if (entry.isStopping) {
+      return;
+    }
+    entry.isStopping = true;
+
+    const ffmpegProcess = entry.process;
+    if (!ffmpegProcess) {
+      // Waiting out a restart backoff
+      this.finish(entry.recordingId).catch(error => {
+        console.error(`RecordingService[${entry.recordingId}]: Failed to finish recording:`, error);
+      });
+      return;
+    }
+
+    console.log(`RecordingService: Stopping recording ${entry.recordingId}`);
+    ffmpegProcess.kill('SIGINT');
+
+    setTimeout(() => {
+      if (entry.process === ffmpegProcess) {
+        ffmpegProcess.kill('SIGKILL');
+      }
+    }, this.STOP_TIMEOUT);
+  }
+
+  /**
+   * Close out a recording once ffmpeg has gone: end the playlist and record its length and size
+   */
+  private async finish(id: string, error: string | null = null): Promise<Recording | undefined> {
+    this.active.delete(id);
+
+    const playlistPath = this.getPlaylistPath(id);
+    // A killed ffmpeg never writes the end tag; without it players treat the recording as live
+    if (existsSync(playlistPath) && !readFileSync(playlistPath, 'utf8').includes('#EXT-X-ENDLIST')) {
+      appendFileSync(playlistPath, '#EXT-X-ENDLIST\n');
+    }
+
+    const { durationSeconds, sizeBytes } = this.measure(id);
+    const hasMedia = durationSeconds > 0;
+
+    console.log(`RecordingService: Finished recording ${id} (${durationSeconds}s, ${sizeBytes} bytes)`);
+    return storage.updateRecording(id, {
+      status: hasMedia ? 'completed' : 'failed',
+      endedAt: new Date().toISOString(),
+      durationSeconds,
+      sizeBytes,
+      error: hasMedia ? error : (error ?? 'No media was received from the stream'),
+    });
+  }
+
+  /**
+   * Recorded length (sum of the playlist's segment durations) and size on disk
+   */
+  private measure(id: string): { durationSeconds: number; sizeBytes: number } {
+    const dir = this.getRecordingDir(id);
+    if (!existsSync(dir)) {
+      return { durationSeconds: 0, sizeBytes: 0 };
+    }
+
+    try {
+      const sizeBytes = readdirSync(dir).reduce((total, file) => total + statSync(join(dir, file)).size, 0);
+
+      const playlistPath = this.getPlaylistPath(id);
+      const playlist = existsSync(playlistPath) ? readFileSync(playlistPath, 'utf8') : '';
+      const durationSeconds = Array.from(playlist.matchAll(/^#EXTINF:([\d.]+)/gm))
+        .reduce((total, match) => total + parseFloat(match[1]), 0);
+
+      return { durationSeconds: Math.round(durationSeconds), sizeBytes };
+    } catch (error) {
+      console.error(`RecordingService: Error measuring recording ${id}:`, error);
+      return { durationSeconds: 0, sizeBytes: 0 };
+    }
+  }
+
+  private removeFiles(id: string): void {
+    try {
+      rmSync(this.getRecordingDir(id), { recursive: true, force: true });
+    } catch (error) {
+      console.error(`RecordingService: Error deleting files for ${id}:`, error);
+    }
+  }
+
+  /**
+   * Start due recordings, stop finished ones and apply the retention limits
+   */
+  private startScheduler(): void {
+    this.scheduleTimer = setInterval(() => {
+      this.checkSchedule().catch(error => {
+        console.error('RecordingService: Schedule check failed:', error);
+      });
+    }, this.SCHEDULE_CHECK_INTERVAL);
+  }
+
+  private async checkSchedule(): Promise<void> {
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      const recordings = await storage.getRecordings();
+      const now = Date.now();
+      const nowIso = new Date(now).toISOString();
+
+      for (const recording of recordings) {
+        const isOver = !!recording.scheduledEnd && recording.scheduledEnd <= nowIso;
+
+        if (recording.status === 'scheduled' && recording.scheduledStart && recording.scheduledStart <= nowIso) {
+          if (isOver) {
+            await storage.updateRecording(recording.id, {
+              status: 'failed',
+              endedAt: nowIso,
+              error: 'Missed - the server was not running at the scheduled time',
+            });
+          } else {
+            await this.beginScheduled(recording, nowIso);
+          }
+          continue;
+        }
+
+        if (recording.status !== 'recording') {
+          continue;
+        }
+
+        const entry = this.active.get(recording.id);
+        if (!entry) {
+          // Still "recording" from before a restart - carry on if it should still be running
+          if (!this.hasRecovered) {
+            const stream = recording.streamId && !isOver ? await storage.getStream(recording.streamId) : undefined;
+            if (stream) {
+              console.log(`RecordingService: Resuming recording ${recording.id} after a restart`);
+              await this.begin(recording, stream);
+            } else {
+              await this.finish(recording.id, 'Interrupted by a server restart');
+            }
+          }
+          continue;
+        }
+
+        const startedAt = recording.startedAt ? Date.parse(recording.startedAt) : now;
+        if (isOver || now - startedAt >= MAX_RECORDING_MINUTES * 60000) {
+          this.stopProcess(entry);
+        } else {
+          // Keep the library's length and size current while it records
+          await storage.updateRecording(recording.id, this.measure(recording.id));
+        }
+      }
+
+      this.hasRecovered = true;
+      await this.enforceRetention(recordings);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async beginScheduled(recording: Recording, nowIso: string): Promise<void> {
+    const stream = recording.streamId ? await storage.getStream(recording.streamId) : undefined;
+    if (!stream) {
+      await storage.updateRecording(recording.id, { status: 'failed', endedAt: nowIso, error: 'Stream was deleted' });
+      return;
+    }
+
+    if (this.isRecording(stream.id)) {
+      await storage.updateRecording(recording.id, {
+        status: 'failed',
+        endedAt: nowIso,
+        error: 'Stream was already being recorded',
+      });
+      return;
+    }
+
+    const started = await storage.updateRecording(recording.id, { status: 'recording', startedAt: nowIso });
+    if (started) {
+      await this.begin(started, stream);
+    }
+  }
+
+  /**
+   * Delete finished recordings past the retention period, then the oldest ones until the
+   * library fits the size limit. Running and scheduled recordings are never touched.
+   */
+  private async enforceRetention(recordings: Recording[]): Promise<void> {
+    const finished = recordings
+      .filter(recording => recording.status !== 'scheduled' && recording.status !== 'recording')
+      .sort((a, b) => (a.endedAt ?? a.createdAt).localeCompare(b.endedAt ?? b.createdAt));
+
+    const cutoff = new Date(Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    let usedBytes = recordings.reduce((total, recording) => total + recording.sizeBytes, 0);
+    const expired: Recording[] = [];
+
+    for (const recording of finished) {
+      if ((recording.endedAt ?? recording.createdAt) < cutoff || usedBytes > this.MAX_TOTAL_BYTES) {
+        expired.push(recording);
+        usedBytes -= recording.sizeBytes;
+      }
+    }
+
+    for (const recording of expired) {
+      console.log(`RecordingService: Retention limit reached, deleting recording ${recording.id}`);
+      await this.deleteRecording(recording.id);
+    }
+  }
+
+  /**
+   * Stop every recording on shutdown, resolving once each ffmpeg has closed its playlist.
+   * Rows left "recording" are resumed on the next start.
+   */
+  async shutdown(): Promise<void> {
+    console.log('RecordingService: Shutting down...');
+
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+    }
+
+    const exits = Array.from(this.active.values()).map(entry => {
+      const ffmpegProcess = entry.process;
+      if (!ffmpegProcess || ffmpegProcess.exitCode !== null) {
+        return Promise.resolve();
+      }
+
+      return new Promise<void>(resolve => {
+        const killTimer = setTimeout(() => ffmpegProcess.kill('SIGKILL'), this.STOP_TIMEOUT);
+        ffmpegProcess.once('close', () => {
+          clearTimeout(killTimer);
+          resolve();
+        });
+        ffmpegProcess.kill('SIGINT');
+      });
+    });
+
+    this.active.clear();
+    await Promise.all(exits);
+    console.log('RecordingService: Shutdown complete');
+  }
+}
@@ -1,6 +1,10 @@
 import { spawn, ChildProcess } from 'child_process';
-import { existsSync, mkdirSync, statSync } from 'fs';
+import { copyFileSync, existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'fs';
 import { join } from 'path';
+import { convertWhepToHttpHls, isWhepUrl, normalizeHlsUrl } from '../shared/streamUrls';
+import { MediaAlertService } from './MediaAlertService';
+import { onShutdown } from './shutdown';
+import type { SnapshotHistory } from '../shared/schema';
 
 interface StreamWorker {
   streamId: string;
@@ -8,20 +12,40 @@ interface StreamWorker {
   lastActivity: number;
   restartCount: number;
   isActive: boolean;
+  sourceUrls: string[]; // streams.url first, then the backup sources in priority order
+  sourceIndex: number; // source currently captured
+  blackTimer?: NodeJS.Timeout; // pending black-frame alert, raised if the picture stays black
+  pendingOutput: string; // ffmpeg log text after the last complete line
 }
 
 export class SnapshotService {
   private static instance: SnapshotService;
   private workers: Map<string, StreamWorker> = new Map();
   private snapshotDir: string;
+  private historyDir: string;
   private srsHttpHlsBase: string;
   private readonly MAX_RESTART_COUNT = 5;
   private readonly WORKER_TTL = 120000; // 2 minutes
   private readonly HEALTH_CHECK_INTERVAL = 30000; // 30 seconds
+  private readonly SNAPSHOT_INTERVAL = 30000; // ffmpeg writes a frame this often
+  // Rolling archive of past snapshots per stream; a count of 0 turns it off
+  private readonly HISTORY_COUNT = Math.max(0, parseInt(process.env.SNAPSHOT_HISTORY_COUNT || '0', 10) || 0);
+  private readonly HISTORY_INTERVAL = Math.max(
+    this.SNAPSHOT_INTERVAL,
+    (parseInt(process.env.SNAPSHOT_HISTORY_INTERVAL_SECONDS || '120', 10) || 120) * 1000
+  );
+  // Black, frozen and silent feeds are detected by the worker's ffmpeg and raised as alerts.
+  // Off unless asked for - detection decodes every snapshot stream continuously.
+  private readonly MEDIA_ALERTS = process.env.SNAPSHOT_MEDIA_ALERTS === 'true';
+  private readonly BLACK_ALERT_SECONDS = 10;
+  private readonly FREEZE_ALERT_SECONDS = 15;
+  private readonly SILENCE_ALERT_SECONDS = 15;
   private healthCheckTimer?: NodeJS.Timeout;
+  private historyTimer?: NodeJS.Timeout;
 
   private constructor() {
     this.snapshotDir = join(process.cwd(), 'server', 'public', 'snapshots');
+    this.historyDir = join(this.snapshotDir, 'history');
     
     // Default SRS server for fallback (optional)
     this.srsHttpHlsBase = process.env.SRS_HTTP_HLS_BASE || '';
@@ -34,7 +58,16 @@ export class SnapshotService {
     // Start health check timer
     this.startHealthCheck();
     
-    console.log(`SnapshotService initialized: ${this.snapshotDir}`);
+    if (this.HISTORY_COUNT > 0) {
+      this.startHistory();
+    }
+
+    // Stop workers on SIGINT/SIGTERM - the process exits once every service has stopped
+    onShutdown('SnapshotService', () => this.shutdown());
+    
+    console.log(`SnapshotService initialized: ${this.snapshotDir}` +
+      (this.HISTORY_COUNT > 0 ? ` (keeping ${this.HISTORY_COUNT} past snapshots every ${this.HISTORY_INTERVAL / 1000}s)` : '') +
+      (this.MEDIA_ALERTS ? ' with black, freeze and silence detection' : ''));
   }
 
   static getInstance(): SnapshotService {
@@ -45,9 +78,10 @@ export class SnapshotService {
   }
 
   /**
-   * Register a stream for snapshot generation (extends TTL)
+   * Register a stream for snapshot generation (extends TTL).
+   * Sources are tried in order, moving to the next when one keeps failing.
    */
-  registerStream(streamId: string, streamUrl?: string): void {
+  registerStream(streamId: string, streamUrls: string[] = []): void {
     // Sanitize streamId for file paths
     const sanitizedStreamId = streamId.replace(/[^a-zA-Z0-9-_]/g, '');
     
@@ -58,12 +92,19 @@ export class SnapshotService {
       existing.lastActivity = Date.now();
       console.log(`SnapshotService: Extended TTL for ${sanitizedStreamId}`);
       
+      // Sources edited since the worker started - begin again from the primary
+      if (streamUrls.length > 0 && streamUrls.join('\n') !== existing.sourceUrls.join('\n')) {
+        existing.sourceUrls = streamUrls;
+        existing.sourceIndex = 0;
+      }
+      
       // Check if existing worker is actually active - if not, restart it
       if (!existing.isActive || !existing.process) {
         console.log(`SnapshotService: Existing worker for ${sanitizedStreamId} is inactive, restarting...`);
-        // Reset restart count for health issue
+        // Reset restart count for health issue, starting over from the primary source
         existing.restartCount = 0;
-        this.startWorker(existing, streamUrl);
+        existing.sourceIndex = 0;
+        this.startWorker(existing);
       }
       return;
     }
@@ -74,11 +115,14 @@ export class SnapshotService {
       process: null,
       lastActivity: Date.now(),
       restartCount: 0,
-      isActive: false
+      isActive: false,
+      sourceUrls: streamUrls,
+      sourceIndex: 0,
+      pendingOutput: ''
     };
 
     this.workers.set(sanitizedStreamId, worker);
-    this.startWorker(worker, streamUrl);
+    this.startWorker(worker);
     console.log(`SnapshotService: Registered new stream ${sanitizedStreamId}`);
   }
 
@@ -104,6 +148,32 @@ export class SnapshotService {
     return join(this.snapshotDir, `${sanitizedStreamId}.jpg`);
   }
 
+  /**
+   * Archived snapshots of a stream, newest first. Frames are only archived while the
+   * stream's worker runs, i.e. while someone has its tile on screen.
+   */
+  getSnapshotHistory(streamId: string): SnapshotHistory {
+    const sanitizedStreamId = streamId.replace(/[^a-zA-Z0-9-_]/g, '');
+    const history: SnapshotHistory = {
+      enabled: this.HISTORY_COUNT > 0,
+      maxCount: this.HISTORY_COUNT,
+      intervalSeconds: this.HISTORY_INTERVAL / 1000,
+      snapshots: [],
+    };
+
+    if (!history.enabled) {
+      return history;
+    }
+
+    history.snapshots = this.listHistoryFiles(sanitizedStreamId)
+      .reverse()
+      .map(file => ({
+        takenAt: new Date(parseInt(file, 10)).toISOString(),
+        url: `/snapshots/history/${sanitizedStreamId}/${file}`,
+      }));
+    return history;
+  }
+
   /**
    * Check if snapshot exists and is recent
    */
@@ -124,29 +194,6 @@ export class SnapshotService {
     }
   }
 
-  /**
-   * Convert WHEP URL to HTTP-HLS URL by parsing server info dynamically
-   */
-  private convertWhepToHttpHls(whepUrl: string, streamId: string): string | null {
-    try {
-      const url = new URL(whepUrl);
-      const streamMatch = whepUrl.match(/[?&]stream=([^&]+)/);
-      const streamName = streamMatch ? streamMatch[1] : streamId;
-      
-      // Use the same port as the WHEP URL for HTTP-HLS
-      const port = url.port || (url.protocol === 'https:' ? '443' : '80');
-      
-      // Use HTTP for HTTP-HLS streams (SRS typically serves HTTP-HLS on HTTP even if WHEP is HTTPS)
-      const protocol = process.env.SRS_FORCE_HTTPS === 'true' ? 'https' : 'http';
-      
-      return `${protocol}://${url.hostname}:${port}/live/${streamName}.m3u8`;
-    } catch (error) {
-      console.error(`SnapshotService: Error parsing WHEP URL ${whepUrl}:`, error);
-      // No fallback - return null if parsing fails
-      return null;
-    }
-  }
-  
   /**
    * Get fallback URL when WHEP parsing fails
    */
@@ -160,26 +207,48 @@ export class SnapshotService {
     return null;
   }
 
+  /**
+   * Move a failing worker on to its next source. Returns false once every source has been tried.
+   */
+  private failOver(worker: StreamWorker): boolean {
+    if (worker.sourceIndex >= worker.sourceUrls.length - 1) {
+      return false;
+    }
+
+    worker.sourceIndex++;
+    worker.restartCount = 0;
+    console.warn(`SnapshotService[${worker.streamId}]: Failing over to source ${worker.sourceIndex + 1} of ${worker.sourceUrls.length}`);
+    this.startWorker(worker);
+    return true;
+  }
+
   /**
    * Start ffmpeg worker for a stream
    */
-  private startWorker(worker: StreamWorker, streamUrl?: string): void {
+  private startWorker(worker: StreamWorker): void {
     if (worker.process || worker.restartCount >= this.MAX_RESTART_COUNT) {
       return;
     }
 
+    const streamUrl: string | undefined = worker.sourceUrls[worker.sourceIndex];
+
     console.log(`SnapshotService: Processing ${worker.streamId} with URL: ${streamUrl}`);
 
     // Derive HTTP-HLS URL from stream URL or use fallback
     let inputUrl: string | null;
-    if (streamUrl && (streamUrl.includes('whep') || streamUrl.includes('rtc/v1'))) {
+    if (streamUrl && isWhepUrl(streamUrl)) {
       // Convert WHEP/WebRTC URL to HTTP-HLS URL dynamically
       console.log(`SnapshotService: Converting WebRTC URL for ${worker.streamId}`);
-      inputUrl = this.convertWhepToHttpHls(streamUrl, worker.streamId);
+      // Use HTTP for HTTP-HLS streams (SRS typically serves HTTP-HLS on HTTP even if WHEP is HTTPS)
+      const protocol = process.env.SRS_FORCE_HTTPS === 'true' ? 'https' : 'http';
+      inputUrl = convertWhepToHttpHls(streamUrl, worker.streamId, protocol);
+      if (!inputUrl) {
+        console.error(`SnapshotService: Error parsing WHEP URL ${streamUrl}`);
+      }
     } else if (streamUrl && (streamUrl.includes('.m3u8') || streamUrl.startsWith('hls://'))) {
       // Use HLS URLs directly - they're already in the correct format for FFmpeg
       console.log(`SnapshotService: Using direct HLS URL for ${worker.streamId}: ${streamUrl}`);
-      inputUrl = streamUrl.startsWith('hls://') ? streamUrl.replace('hls://', 'http://') : streamUrl;
+      inputUrl = normalizeHlsUrl(streamUrl);
     } else {
       // Use fallback for non-WHEP URLs
       console.log(`SnapshotService: Using fallback for ${worker.streamId}, streamUrl was: ${streamUrl}`);
@@ -189,6 +258,7 @@ export class SnapshotService {
     // Skip worker creation if no valid URL available
     if (!inputUrl) {
       console.log(`SnapshotService: Skipping worker for ${worker.streamId} - no valid stream URL`);
+      this.failOver(worker);
       return;
     }
 
@@ -201,18 +271,21 @@ export class SnapshotService {
     // ffmpeg command to capture snapshots every 30 seconds
     const args = [
       '-hide_banner',
-      '-loglevel', 'warning',  // More verbose to see connection errors
+      '-loglevel', this.MEDIA_ALERTS ? 'info' : 'warning',  // detection filters report at info level
+      '-nostats',
       '-reconnect', '1',
       '-reconnect_streamed', '1', 
       '-reconnect_on_network_error', '1',
       '-timeout', '10000000',  // 10 second timeout
       '-i', inputUrl,
-      '-vf', 'fps=1/30,scale=320:-1',  // 1 frame every 30 seconds, scale to 320px width
+      '-map', '0:v:0',  // first rendition only, so a master playlist doesn't pull every variant
+      '-vf', `fps=1/${this.SNAPSHOT_INTERVAL / 1000},scale=320:-1`,  // 1 frame every 30 seconds, scale to 320px width
       '-q:v', '5',  // JPEG quality
       '-f', 'image2',
       '-update', '1',  // Continuously overwrite the same file
       '-y',  // Overwrite output file
-      outputPath
+      outputPath,
+      ...(this.MEDIA_ALERTS ? this.getDetectionArgs() : [])
     ];
 
     const ffmpegProcess = spawn('ffmpeg', args);
@@ -231,17 +304,28 @@ export class SnapshotService {
       if (message.includes('error') || message.includes('failed')) {
         console.error(`SnapshotService[${worker.streamId}]: ${message.trim()}`);
       }
+      if (this.MEDIA_ALERTS && worker.process === ffmpegProcess) {
+        this.handleDetectionOutput(worker, message);
+      }
     });
 
     ffmpegProcess.on('close', (code) => {
       console.log(`SnapshotService[${worker.streamId}]: Process exited with code ${code}`);
+      // Stopped on purpose - the worker has already moved on
+      if (worker.process !== ffmpegProcess) {
+        return;
+      }
       worker.process = null;
       worker.isActive = false;
+      this.clearDetection(worker);
       
       // If process exits immediately (code null), it's likely a network issue
       if (code === null && worker.restartCount >= 2) {
-        console.warn(`SnapshotService[${worker.streamId}]: Network connectivity issue detected, disabling snapshot generation`);
-        // Don't restart - the stream server is unreachable
+        console.warn(`SnapshotService[${worker.streamId}]: Network connectivity issue detected`);
+        // Don't restart - the stream server is unreachable, so try the next source if there is one
+        if (!this.failOver(worker)) {
+          console.warn(`SnapshotService[${worker.streamId}]: No sources left, disabling snapshot generation`);
+        }
         return;
       }
       
@@ -252,10 +336,10 @@ export class SnapshotService {
         
         setTimeout(() => {
           if (this.workers.has(worker.streamId)) {
-            this.startWorker(worker, streamUrl);
+            this.startWorker(worker);
           }
         }, backoffMs);
-      } else {
+      } else if (!this.failOver(worker)) {
         console.error(`SnapshotService[${worker.streamId}]: Max restart attempts exceeded, disabling snapshots`);
       }
     });
@@ -264,9 +348,78 @@ export class SnapshotService {
       console.error(`SnapshotService[${worker.streamId}]: Process error:`, error);
       worker.process = null;
       worker.isActive = false;
+      this.clearDetection(worker);
     });
   }
 
+  /**
+   * Second ffmpeg output that only runs the detection filters. Video is thinned to 2 fps
+   * and shrunk first - plenty to spot black or frozen pictures, at a fraction of the CPU.
+   * blackdetect only reports a black period once it ends, so its start is printed through
+   * the metadata filter and timed here.
+   */
+  private getDetectionArgs(): string[] {
+    return [
+      '-map', '0:v:0',
+      '-map', '0:a:0?',
+      '-vf', [
+        'fps=2',
+        'scale=160:-2',
+        'blackdetect=d=0:pix_th=0.10',
+        'metadata=mode=print:key=lavfi.black_start',
+        `freezedetect=n=-60dB:d=${this.FREEZE_ALERT_SECONDS}`
+      ].join(','),
+      '-af', `silencedetect=n=-50dB:d=${this.SILENCE_ALERT_SECONDS}`,
+      '-f', 'null',
+      '-'
+    ];
+  }
+
+  /**
+   * Turn detection filter log lines into alerts. Output arrives in arbitrary chunks, so
+   * a partial last line waits for the next one.
+   */
+  private handleDetectionOutput(worker: StreamWorker, output: string): void {
+    const lines = (worker.pendingOutput + output).split(/\r?\n/);
+    worker.pendingOutput = lines.pop() ?? '';
+    const alerts = MediaAlertService.getInstance();
+
+    for (const line of lines) {
+      if (line.includes('lavfi.black_start=')) {
+        if (!worker.blackTimer) {
+          worker.blackTimer = setTimeout(() => {
+            alerts.raise(worker.streamId, 'black');
+          }, this.BLACK_ALERT_SECONDS * 1000);
+        }
+      } else if (line.includes('black_end:')) {
+        clearTimeout(worker.blackTimer);
+        worker.blackTimer = undefined;
+        alerts.resolve(worker.streamId, 'black');
+      } else if (line.includes('lavfi.freezedetect.freeze_start')) {
+        alerts.raise(worker.streamId, 'freeze');
+      } else if (line.includes('lavfi.freezedetect.freeze_end')) {
+        alerts.resolve(worker.streamId, 'freeze');
+      } else if (line.includes('silence_start:')) {
+        alerts.raise(worker.streamId, 'silence');
+      } else if (line.includes('silence_end:')) {
+        alerts.resolve(worker.streamId, 'silence');
+      }
+    }
+  }
+
+  /**
+   * Forget detection state once a worker's ffmpeg is gone - nobody is watching the feed
+   * any more, so its open alerts are closed rather than left hanging
+   */
+  private clearDetection(worker: StreamWorker): void {
+    clearTimeout(worker.blackTimer);
+    worker.blackTimer = undefined;
+    worker.pendingOutput = '';
+    if (this.MEDIA_ALERTS) {
+      MediaAlertService.getInstance().resolve(worker.streamId);
+    }
+  }
+
   /**
    * Stop a worker process
    */
@@ -284,6 +437,7 @@ export class SnapshotService {
       
       worker.process = null;
       worker.isActive = false;
+      this.clearDetection(worker);
     }
   }
 
@@ -304,9 +458,11 @@ export class SnapshotService {
         
         // Check if snapshot file is being updated
         if (worker.isActive && !this.hasRecentSnapshot(streamId, 90000)) { // 1.5 minutes
-          console.warn(`SnapshotService[${streamId}]: No recent snapshot, restarting worker`);
+          console.warn(`SnapshotService[${streamId}]: No recent snapshot, restarting worker on the next source`);
           this.stopWorker(worker);
           worker.restartCount = 0; // Reset restart count for health issue
+          // A source that stalls without exiting counts as failed; wrap back to the primary after the last
+          worker.sourceIndex = worker.sourceUrls.length > 0 ? (worker.sourceIndex + 1) % worker.sourceUrls.length : 0;
           this.startWorker(worker);
         }
       }
@@ -327,6 +483,68 @@ export class SnapshotService {
     }, this.HEALTH_CHECK_INTERVAL);
   }
 
+  /**
+   * Copy each active worker's latest snapshot into its history on a timer
+   */
+  private startHistory(): void {
+    if (!existsSync(this.historyDir)) {
+      mkdirSync(this.historyDir, { recursive: true });
+    }
+
+    this.historyTimer = setInterval(() => {
+      for (const worker of Array.from(this.workers.values())) {
+        if (worker.isActive) {
+          this.archiveSnapshot(worker.streamId);
+        }
+      }
+    }, this.HISTORY_INTERVAL);
+  }
+
+  /**
+   * Archive a stream's current snapshot as <history>/<streamId>/<epoch ms>.jpg and drop the
+   * oldest beyond the configured count
+   */
+  private archiveSnapshot(streamId: string): void {
+    const snapshotPath = this.getSnapshotPath(streamId);
+
+    try {
+      if (!existsSync(snapshotPath)) {
+        return;
+      }
+
+      // Stale frames would repeat the last archived one; a file touched this instant may be half written
+      const age = Date.now() - statSync(snapshotPath).mtime.getTime();
+      if (age > this.SNAPSHOT_INTERVAL * 2 || age < 1000) {
+        return;
+      }
+
+      const streamHistoryDir = join(this.historyDir, streamId);
+      mkdirSync(streamHistoryDir, { recursive: true });
+      copyFileSync(snapshotPath, join(streamHistoryDir, `${Date.now()}.jpg`));
+
+      const files = this.listHistoryFiles(streamId);
+      for (const file of files.slice(0, Math.max(0, files.length - this.HISTORY_COUNT))) {
+        rmSync(join(streamHistoryDir, file), { force: true });
+      }
+    } catch (error) {
+      console.error(`SnapshotService[${streamId}]: Error archiving snapshot:`, error);
+    }
+  }
+
+  /**
+   * A stream's archived snapshot file names, oldest first
+   */
+  private listHistoryFiles(streamId: string): string[] {
+    const streamHistoryDir = join(this.historyDir, streamId);
+    if (!existsSync(streamHistoryDir)) {
+      return [];
+    }
+
+    return readdirSync(streamHistoryDir)
+      .filter(file => /^\d+\.jpg$/.test(file))
+      .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+  }
+
   /**
    * Get active worker count
    */
@@ -344,6 +562,10 @@ export class SnapshotService {
       clearInterval(this.healthCheckTimer);
     }
     
+    if (this.historyTimer) {
+      clearInterval(this.historyTimer);
+    }
+    
     for (const worker of Array.from(this.workers.values())) {
       this.stopWorker(worker);
     }
@@ -352,14 +574,3 @@ export class SnapshotService {
     console.log('SnapshotService: Shutdown complete');
   }
 }
-
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  SnapshotService.getInstance().shutdown();
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
-  SnapshotService.getInstance().shutdown();
-  process.exit(0);
-});
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { storage } from './storage';
+import type { Stream, StreamHealth } from '../shared/schema';
+import { convertWebRtcToWhep, convertWhepToHttpHls, detectStreamType, normalizeHlsUrl } from '../shared/streamUrls';
+
+interface ProbeResult {
+  ok: boolean;
+  error: string | null;
+}
+
+export class StreamHealthService {
+  private static instance: StreamHealthService;
+  private health: Map<string, StreamHealth> = new Map();
+  private readonly PROBE_INTERVAL = parseInt(process.env.STREAM_HEALTH_INTERVAL_MS || '60000', 10);
+  private readonly PROBE_TIMEOUT = 8000; // 8 seconds per request
+  private readonly MAX_CONCURRENT_PROBES = 5;
+  private readonly INITIAL_PROBE_DELAY = 5000;
+  private probeTimer?: NodeJS.Timeout;
+  private initialProbeTimer?: NodeJS.Timeout;
+  private isProbing = false;
+
+  private constructor() {
+    this.startProbing();
+
+    console.log(`StreamHealthService initialized: probing every ${this.PROBE_INTERVAL / 1000}s`);
+  }
+
+  static getInstance(): StreamHealthService {
+    if (!StreamHealthService.instance) {
+      StreamHealthService.instance = new StreamHealthService();
+    }
+    return StreamHealthService.instance;
+  }
+
+  /**
+   * Get the latest health record for every probed stream, keyed by streamId
+   */
+  getAllHealth(): Record<string, StreamHealth> {
+    return Object.fromEntries(this.health.entries());
+  }
+
+  /**
+   * Get the latest health record for a single stream
+   */
+  getHealth(streamId: string): StreamHealth | undefined {
+    return this.health.get(streamId);
+  }
+
+  /**
+   * Probe every stream row once (skipped if a cycle is already running)
+   */
+  async probeAll(): Promise<void> {
+    if (this.isProbing) {
+      return;
+    }
+
+    this.isProbing = true;
+    try {
+      const allStreams = await storage.getAllStreams();
+
+      // Forget streams that have been deleted since the last cycle
+      const knownStreamIds = new Set(allStreams.map(s => s.streamId));
+      for (const streamId of Array.from(this.health.keys())) {
+        if (!knownStreamIds.has(streamId)) {
+          this.health.delete(streamId);
+        }
+      }
+
+      // Probe with limited concurrency so a large catalog doesn't flood the media servers
+      const queue = [...allStreams];
+      const probeWorkers = Array.from({ length: Math.min(this.MAX_CONCURRENT_PROBES, queue.length) }, async () => {
+        let stream = queue.shift();
+        while (stream) {
+          await this.probeStream(stream);
+          stream = queue.shift();
+        }
+      });
+      await Promise.all(probeWorkers);
+
+      const offlineCount = Array.from(this.health.values()).filter(h => h.status === 'offline').length;
+      console.log(`StreamHealthService: Probe cycle complete. ${allStreams.length} streams, ${offlineCount} offline`);
+    } catch (error) {
+      console.error('StreamHealthService: Probe cycle failed:', error);
+    } finally {
+      this.isProbing = false;
+    }
+  }
+
+  /**
+   * Probe a single stream and record the result
+   */
+  async probeStream(stream: Stream): Promise<StreamHealth> {
+    const startedAt = Date.now();
+    const previous = this.health.get(stream.streamId);
+
+    const isHls = stream.streamType === 'hls' || detectStreamType(stream.url) === 'hls';
+    const result = isHls
+      ? await this.probeHlsManifest(normalizeHlsUrl(stream.url))
+      : await this.probeWebRtc(stream);
+
+    const checkedAt = new Date().toISOString();
+    const health: StreamHealth = {
+      streamId: stream.streamId,
+      status: result.ok ? 'online' : 'offline',
+      lastChecked: checkedAt,
+      lastSeen: result.ok ? checkedAt : previous?.lastSeen ?? null,
+      error: result.error,
+      responseTimeMs: result.ok ? Date.now() - startedAt : null,
+    };
+
+    if (previous && previous.status !== health.status) {
+      console.log(`StreamHealthService[${stream.streamId}]: ${previous.status} -> ${health.status}${health.error ? ` (${health.error})` : ''}`);
+    }
+
+    this.health.set(stream.streamId, health);
+    return health;
+  }
+
+  /**
+   * Fetch an HLS manifest and make sure it is actually a playlist
+   */
+  private async probeHlsManifest(manifestUrl: string): Promise<ProbeResult> {
+    try {
+      const response = await this.fetchWithTimeout(manifestUrl, { method: 'GET' });
+      if (!response.ok) {
+        return { ok: false, error: `Manifest returned HTTP ${response.status}` };
+      }
+
+      const body = await response.text();
+      if (!body.includes('#EXTM3U')) {
+        return { ok: false, error: 'Response is not an HLS playlist' };
+      }
+
+      return { ok: true, error: null };
+    } catch (error) {
+      return { ok: false, error: this.describeError(error) };
+    }
+  }
+
+  /**
+   * Check the WHEP endpoint is reachable, then confirm the stream is published via SRS HTTP-HLS
+   */
+  private async probeWebRtc(stream: Stream): Promise<ProbeResult> {
+    const whepUrl = stream.url.startsWith('webrtc://') ? convertWebRtcToWhep(stream.url) : stream.url;
+    if (!whepUrl || !/^https?:\/\//i.test(whepUrl)) {
+      return { ok: false, error: 'Unsupported WebRTC URL' };
+    }
+
+    try {
+      const response = await this.fetchWithTimeout(whepUrl, { method: 'OPTIONS' });
+      if (response.status >= 500) {
+        return { ok: false, error: `WHEP endpoint returned HTTP ${response.status}` };
+      }
+    } catch (error) {
+      return { ok: false, error: this.describeError(error) };
+    }
+
+    // A reachable WHEP endpoint only proves the media server is up, so check the
+    // HTTP-HLS mirror (same conversion SnapshotService uses) to see if the stream is live
+    const protocol = process.env.SRS_FORCE_HTTPS === 'true' ? 'https' : 'http';
+    const hlsUrl = convertWhepToHttpHls(whepUrl, stream.streamId, protocol);
+    if (hlsUrl) {
+      try {
+        const response = await this.fetchWithTimeout(hlsUrl, { method: 'GET' });
+        if (response.status === 404) {
+          return { ok: false, error: 'Stream is not being published' };
+        }
+      } catch (error) {
+        // HTTP-HLS isn't served by this media server - WHEP reachability is all we can tell
+      }
+    }
+
+    return { ok: true, error: null };
+  }
+
+  private fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, { ...init, signal: AbortSignal.timeout(this.PROBE_TIMEOUT) });
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof Error) {
+      if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+        return `Timed out after ${this.PROBE_TIMEOUT / 1000}s`;
+      }
+      const cause = (error as Error & { cause?: { code?: string } }).cause;
+      return cause?.code ? `${error.message} (${cause.code})` : error.message;
+    }
+    return String(error);
+  }
+
+  /**
+   * Start the periodic probe timer
+   */
+  private startProbing(): void {
+    this.initialProbeTimer = setTimeout(() => this.probeAll(), this.INITIAL_PROBE_DELAY);
+    this.probeTimer = setInterval(() => this.probeAll(), this.PROBE_INTERVAL);
+  }
+
+  /**
+   * Stop probing on shutdown
+   */
+  shutdown(): void {
+    console.log('StreamHealthService: Shutting down...');
+
+    if (this.initialProbeTimer) {
+      clearTimeout(this.initialProbeTimer);
+    }
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import { spawn, ChildProcess } from 'child_process';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { storage } from './storage';
+import { ViewerService } from './ViewerService';
+import type { Video } from '../shared/schema';
+
+interface TranscodeJob {
+  videoId: string;
+  inputPath: string;
+}
+
+// Upload extensions ffmpeg is asked to read; anything else is refused before it reaches the disk
+export const VIDEO_UPLOAD_EXTENSIONS = ['.mp4', '.m4v', '.mov', '.mkv', '.webm', '.avi', '.ts', '.mts', '.mpg', '.mpeg'];
+export const MAX_VIDEO_UPLOAD_BYTES = parseInt(process.env.VIDEO_MAX_UPLOAD_MB || '4096', 10) * 1024 * 1024;
+
+export class VideoService {
+  private static instance: VideoService;
+  private videosDir: string;
+  private uploadsDir: string;
+  private queue: TranscodeJob[] = [];
+  private current: { job: TranscodeJob; process: ChildProcess | null } | null = null;
+  private readonly SEGMENT_SECONDS = 6;
+  private readonly MAX_HEIGHT = 1080;
+  private readonly POSTER_WIDTH = 640;
+
+  private constructor() {
+    this.videosDir = join(process.cwd(), 'server', 'videos');
+    // A dot directory, so express.static never serves the originals
+    this.uploadsDir = join(this.videosDir, '.uploads');
+
+    if (!existsSync(this.uploadsDir)) {
+      mkdirSync(this.uploadsDir, { recursive: true });
+    }
+
+    this.recoverInterrupted().catch(error => {
+      console.error('VideoService: Failed to recover interrupted transcodes:', error);
+    });
+
+    console.log(`VideoService initialized: ${this.videosDir}`);
+  }
+
+  static getInstance(): VideoService {
+    if (!VideoService.instance) {
+      VideoService.instance = new VideoService();
+    }
+    return VideoService.instance;
+  }
+
+  /**
+   * Where multer writes uploads before they are handed to transcode()
+   */
+  getUploadsDir(): string {
+    return this.uploadsDir;
+  }
+
+  /**
+   * Directory served at /videos - each video's HLS playlist, segments and poster live in <id>/
+   */
+  getVideosDir(): string {
+    return this.videosDir;
+  }
+
+  /**
+   * Take ownership of an uploaded file and queue it for transcoding. Transcodes run one at
+   * a time so a batch of uploads can't starve live playback of CPU.
+   */
+  transcode(video: Video, uploadedPath: string): void {
+    const inputPath = join(this.uploadsDir, `${this.sanitizeId(video.id)}${extname(uploadedPath).toLowerCase()}`);
+    renameSync(uploadedPath, inputPath);
+
+    this.queue.push({ videoId: video.id, inputPath });
+    console.log(`VideoService: Queued ${video.id} for transcoding (${this.queue.length} waiting)`);
+    this.processQueue();
+  }
+
+  /**
+   * Delete a video's files, stopping its transcode if it is running
+   */
+  deleteFiles(id: string): void {
+    this.queue = this.queue.filter(job => job.videoId !== id);
+
+    if (this.current?.job.videoId === id) {
+      this.current.process?.kill('SIGKILL');
+      this.current.process = null;
+    }
+
+    this.removeOutput(id);
+    this.removeUpload(id);
+  }
+
+  private sanitizeId(id: string): string {
+    return id.replace(/[^a-zA-Z0-9-_]/g, '');
+  }
+
+  private getOutputDir(id: string): string {
+    return join(this.videosDir, this.sanitizeId(id));
+  }
+
+  private removeOutput(id: string): void {
+    try {
+      rmSync(this.getOutputDir(id), { recursive: true, force: true });
+    } catch (error) {
+      console.error(`VideoService: Error deleting files for ${id}:`, error);
+    }
+  }
+
+  private removeUpload(id: string): void {
+    const prefix = this.sanitizeId(id);
+    try {
+      for (const file of readdirSync(this.uploadsDir)) {
+        if (file.startsWith(`${prefix}.`)) {
+          rmSync(join(this.uploadsDir, file), { force: true });
+        }
+      }
+    } catch (error) {
+      console.error(`VideoService: Error deleting upload for ${id}:`, error);
+    }
+  }
+
+  /**
+   * Videos left "processing" by a restart are transcoded again from their upload, or
+   * marked failed if the upload is gone
+   */
+  private async recoverInterrupted(): Promise<void> {
+    const uploads = readdirSync(this.uploadsDir);
+    const processing = (await storage.getVideos()).filter(video => video.status === 'processing');
+
+    for (const video of processing) {
+      const upload = uploads.find(file => file.startsWith(`${this.sanitizeId(video.id)}.`));
+      if (upload) {
+        console.log(`VideoService: Resuming interrupted transcode of ${video.id}`);
+        this.removeOutput(video.id);
+        this.queue.push({ videoId: video.id, inputPath: join(this.uploadsDir, upload) });
+      } else {
+        await storage.updateVideo(video.id, { status: 'failed', error: 'Upload was lost in a server restart' });
+      }
+    }
+
+    this.processQueue();
+  }
+
+  private processQueue(): void {
+    if (this.current) {
+      return;
+    }
+
+    const job = this.queue.shift();
+    if (!job) {
+      return;
+    }
+
+    this.current = { job, process: null };
+    this.runJob(job)
+      .catch(error => {
+        console.error(`VideoService[${job.videoId}]: Transcode failed:`, error);
+        this.removeOutput(job.videoId);
+        return storage.updateVideo(job.videoId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .catch(error => {
+        console.error(`VideoService[${job.videoId}]: Failed to record transcode failure:`, error);
+      })
+      .finally(() => {
+        this.removeUpload(job.videoId);
+        this.current = null;
+        this.processQueue();
+      });
+  }
+
+  private async runJob(job: TranscodeJob): Promise<void> {
+    const outputDir = this.getOutputDir(job.videoId);
+    mkdirSync(outputDir, { recursive: true });
+    console.log(`VideoService[${job.videoId}]: Transcoding ${job.inputPath}`);
+
+    // H.264/AAC HLS plays everywhere the live players do, Fire TV included
+    await this.runFfmpeg(job, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-i', job.inputPath,
+      '-map', '0:v:0',
+      '-map', '0:a:0?',
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-crf', '21',
+      '-profile:v', 'high',
+      '-pix_fmt', 'yuv420p',
+      '-vf', `scale=-2:'min(${this.MAX_HEIGHT},ih)'`,
+      '-c:a', 'aac',
+      '-b:a', '128k',
+      '-ac', '2',
+      '-f', 'hls',
+      '-hls_time', String(this.SEGMENT_SECONDS),
+      '-hls_playlist_type', 'vod',
+      '-hls_segment_filename', join(outputDir, 'segment_%05d.ts'),
+      join(outputDir, 'index.m3u8')
+    ]);
+
+    // Deleted while transcoding - nothing left to finish
+    if (!(await storage.getVideo(job.videoId))) {
+      this.removeOutput(job.videoId);
+      return;
+    }
+
+    const durationSeconds = this.getPlaylistDuration(join(outputDir, 'index.m3u8'));
+    if (durationSeconds <= 0) {
+      throw new Error('No video could be read from the upload');
+    }
+
+    // A frame a little way in - the first one is often black
+    await this.runFfmpeg(job, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-ss', String(Math.min(10, durationSeconds * 0.1)),
+      '-i', join(outputDir, 'index.m3u8'),
+      '-frames:v', '1',
+      '-vf', `scale=${this.POSTER_WIDTH}:-2`,
+      '-q:v', '4',
+      '-y',
+      join(outputDir, 'poster.jpg')
+    ]);
+
+    const sizeBytes = readdirSync(outputDir).reduce((total, file) => total + statSync(join(outputDir, file)).size, 0);
+    await storage.updateVideo(job.videoId, { status: 'ready', durationSeconds, sizeBytes, error: null });
+    console.log(`VideoService[${job.videoId}]: Ready (${durationSeconds}s, ${sizeBytes} bytes)`);
+
+    // Only ready videos are in the library, so this is when viewers first see it
+    ViewerService.getInstance().broadcastCatalogChange({ resource: 'videos', action: 'created', id: job.videoId });
+  }
+
+  private runFfmpeg(job: TranscodeJob, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpegProcess = spawn('ffmpeg', args);
+      if (this.current?.job === job) {
+        this.current.process = ffmpegProcess;
+      }
+
+      let lastError = '';
+      ffmpegProcess.stderr?.on('data', (data) => {
+        lastError = data.toString().trim() || lastError;
+      });
+
+      ffmpegProcess.on('error', reject);
+      ffmpegProcess.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(lastError ? `ffmpeg: ${lastError.split('\n').pop()}` : `ffmpeg exited with code ${code}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Length of a VOD playlist - the sum of its segment durations
+   */
+  private getPlaylistDuration(playlistPath: string): number {
+    if (!existsSync(playlistPath)) {
+      return 0;
+    }
+
+    const playlist = readFileSync(playlistPath, 'utf8');
+    const seconds = Array.from(playlist.matchAll(/^#EXTINF:([\d.]+)/gm))
+      .reduce((total, match) => total + parseFloat(match[1]), 0);
+    return Math.round(seconds);
+  }
+}
@@ -0,0 +1,188 @@
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { getSessionUserId } from './auth';
+import {
+  VIEWER_SOCKET_PATH,
+  VIEWER_HEARTBEAT_INTERVAL_MS,
+  MAX_VIEWER_WATCHED_STREAMS,
+  viewerClientMessageSchema,
+  type CatalogChangeMessage,
+  type ViewerServerMessage,
+} from '../shared/schema';
+
+interface ViewerConnection {
+  userId: string;
+  streamIds: Set<string>;
+  lastHeartbeat: number;
+}
+
+/**
+ * Tracks who is watching what over WebSocket connections on /ws and pushes
+ * per-stream viewer counts to every connected client. The same connections carry
+ * catalog change notifications.
+ * A connection (one open app) counts once per stream, however many players it has open.
+ */
+export class ViewerService {
+  private static instance: ViewerService;
+  private wss = new WebSocketServer({ noServer: true });
+  private connections: Map<WebSocket, ViewerConnection> = new Map();
+  private readonly STALE_AFTER = VIEWER_HEARTBEAT_INTERVAL_MS * 3;
+  private readonly BROADCAST_DELAY = 1000; // coalesce bursts of watch/unwatch into one update
+  private sweepTimer?: NodeJS.Timeout;
+  private broadcastTimer?: NodeJS.Timeout;
+  private lastBroadcast = '{}';
+
+  private constructor() {
+    this.sweepTimer = setInterval(() => this.dropStaleConnections(), VIEWER_HEARTBEAT_INTERVAL_MS);
+
+    console.log(`ViewerService initialized: connections time out after ${this.STALE_AFTER / 1000}s without a heartbeat`);
+  }
+
+  static getInstance(): ViewerService {
+    if (!ViewerService.instance) {
+      ViewerService.instance = new ViewerService();
+    }
+    return ViewerService.instance;
+  }
+
+  /**
+   * Accept WebSocket upgrades on /ws from signed-in users.
+   * Other upgrades (e.g. Vite HMR in development) are left to their own listeners.
+   */
+  attach(server: Server): void {
+    server.on('upgrade', async (req, socket, head) => {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== VIEWER_SOCKET_PATH) return;
+
+      const userId = await getSessionUserId(req);
+      if (!userId) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, userId));
+    });
+  }
+
+  /**
+   * Current viewer count per streamId
+   */
+  getViewerCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const connection of Array.from(this.connections.values())) {
+      for (const streamId of Array.from(connection.streamIds)) {
+        counts[streamId] = (counts[streamId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Tell every connected client that part of the catalog changed
+   */
+  broadcastCatalogChange(change: Omit<CatalogChangeMessage, 'type'>): void {
+    const message: CatalogChangeMessage = { type: 'catalog', ...change };
+    for (const ws of Array.from(this.connections.keys())) {
+      this.send(ws, message);
+    }
+  }
+
+  /**
+   * Tell one user's connections that part of their own catalog changed (e.g. a personal wall)
+   */
+  sendCatalogChange(userId: string, change: Omit<CatalogChangeMessage, 'type'>): void {
+    const message: CatalogChangeMessage = { type: 'catalog', ...change };
+    for (const [ws, connection] of Array.from(this.connections.entries())) {
+      if (connection.userId === userId) {
+        this.send(ws, message);
+      }
+    }
+  }
+
+  private handleConnection(ws: WebSocket, userId: string) {
+    this.connections.set(ws, { userId, streamIds: new Set(), lastHeartbeat: Date.now() });
+    this.send(ws, { type: 'viewers', counts: this.getViewerCounts() });
+
+    ws.on('message', (data) => {
+      const connection = this.connections.get(ws);
+      if (!connection) return;
+      connection.lastHeartbeat = Date.now();
+
+      let message;
+      try {
+        message = viewerClientMessageSchema.parse(JSON.parse(data.toString()));
+      } catch (error) {
+        console.warn(`ViewerService: ignoring malformed message from user ${userId}`);
+        return;
+      }
+
+      if (message.type === 'watch') {
+        // Every watched id is broadcast to all clients, so one connection can't register unlimited ids
+        if (connection.streamIds.size >= MAX_VIEWER_WATCHED_STREAMS && !connection.streamIds.has(message.streamId)) {
+          console.warn(`ViewerService: user ${userId} is already watching ${MAX_VIEWER_WATCHED_STREAMS} streams, ignoring ${message.streamId}`);
+          return;
+        }
+        connection.streamIds.add(message.streamId);
+        this.scheduleBroadcast();
+      } else if (message.type === 'unwatch') {
+        connection.streamIds.delete(message.streamId);
+        this.scheduleBroadcast();
+      }
+    });
+
+    ws.on('close', () => {
+      const connection = this.connections.get(ws);
+      this.connections.delete(ws);
+      if (connection && connection.streamIds.size > 0) {
+        this.scheduleBroadcast();
+      }
+    });
+
+    ws.on('error', (error) => {
+      console.warn(`ViewerService: socket error for user ${userId}:`, error.message);
+    });
+  }
+
+  /**
+   * Drop connections that stopped heartbeating (sleeping TVs, dropped networks)
+   */
+  private dropStaleConnections() {
+    const cutoff = Date.now() - this.STALE_AFTER;
+    for (const [ws, connection] of Array.from(this.connections.entries())) {
+      if (connection.lastHeartbeat < cutoff) {
+        console.log(`ViewerService: dropping stale connection for user ${connection.userId}`);
+        ws.terminate();
+        this.connections.delete(ws);
+        if (connection.streamIds.size > 0) {
+          this.scheduleBroadcast();
+        }
+      }
+    }
+  }
+
+  private scheduleBroadcast() {
+    if (this.broadcastTimer) return;
+    this.broadcastTimer = setTimeout(() => {
+      this.broadcastTimer = undefined;
+      this.broadcastCounts();
+    }, this.BROADCAST_DELAY);
+  }
+
+  private broadcastCounts() {
+    const counts = this.getViewerCounts();
+    const serialized = JSON.stringify(counts);
+    if (serialized === this.lastBroadcast) return;
+    this.lastBroadcast = serialized;
+
+    for (const ws of Array.from(this.connections.keys())) {
+      this.send(ws, { type: 'viewers', counts });
+    }
+  }
+
+  private send(ws: WebSocket, message: ViewerServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { storage } from './storage';
+import { PLAYBACK_PING_INTERVAL_MS, type DeviceClass, type PlaybackAnalytics, type PlaybackBeacon, type PlaybackSession, type PlaybackSessionDetail, type Stream } from '../shared/schema';
+
+// Points on the concurrent viewers chart, whatever the window length
+const CONCURRENCY_BUCKETS = 48;
+const TOP_STREAMS_LIMIT = 10;
+
+/**
+ * Apply one beacon from the player on behalf of the signed-in user.
+ * Returns false if it names an unknown stream, or a session that is not the user's.
+ */
+export async function recordPlaybackBeacon(userId: string, beacon: PlaybackBeacon): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  switch (beacon.event) {
+    case 'start': {
+      const stream = await storage.getStreamByStreamId(beacon.streamId);
+      if (!stream) return false;
+
+      await storage.createPlaybackSession({
+        id: beacon.sessionId,
+        userId,
+        streamId: stream.id,
+        deviceClass: beacon.deviceClass,
+        streamType: beacon.streamType,
+        startedAt: now,
+        lastSeenAt: now,
+      });
+      return true;
+    }
+    case 'ping':
+      return storage.updatePlaybackSession(beacon.sessionId, userId, { lastSeenAt: now });
+    case 'error':
+      return storage.updatePlaybackSession(beacon.sessionId, userId, { lastSeenAt: now, error: beacon.error });
+    case 'end':
+      return storage.updatePlaybackSession(beacon.sessionId, userId, { lastSeenAt: now, endedAt: now });
+    case 'source':
+      return storage.updatePlaybackSession(beacon.sessionId, userId, {
+        lastSeenAt: now,
+        streamType: beacon.streamType,
+        source: beacon.source,
+      });
+    case 'stats': {
+      // Also proves the session is the user's before the sample is stored
+      const updated = await storage.updatePlaybackSession(beacon.sessionId, userId, { lastSeenAt: now });
+      if (!updated) return false;
+
+      await storage.createPlaybackStatsSample({ sessionId: beacon.sessionId, recordedAt: now, ...beacon.stats });
+      return true;
+    }
+  }
+}
+
+/**
+ * A session with its stats samples, named for the admin looking into a viewer's report
+ */
+export async function getPlaybackSessionDetail(sessionId: string): Promise<PlaybackSessionDetail | undefined> {
+  const session = await storage.getPlaybackSession(sessionId);
+  if (!session) return undefined;
+
+  const [stream, user, samples] = await Promise.all([
+    storage.getStream(session.streamId),
+    session.userId ? storage.getUser(session.userId) : Promise.resolve(undefined),
+    storage.getPlaybackStatsSamples(sessionId),
+  ]);
+
+  return {
+    session,
+    streamTitle: stream?.title ?? null,
+    username: user?.username ?? null,
+    samples,
+  };
+}
+
+/**
+ * When a session stopped playing. Sessions still pinging count as playing until now;
+ * ones that went quiet without an end beacon stop at their last ping.
+ */
+function getSessionEnd(session: PlaybackSession, now: number): number {
+  if (session.endedAt) return Date.parse(session.endedAt);
+
+  const lastSeen = Date.parse(session.lastSeenAt);
+  return now - lastSeen <= PLAYBACK_PING_INTERVAL_MS * 2 ? now : lastSeen;
+}
+
+/**
+ * Summarize the playback sessions overlapping [from, to] for the admin dashboard
+ */
+export function summarizePlaybackSessions(
+  sessions: PlaybackSession[],
+  streams: Stream[],
+  from: Date,
+  to: Date,
+): PlaybackAnalytics {
+  const now = Date.now();
+  const windowStart = from.getTime();
+  const windowEnd = to.getTime();
+  const titles = new Map(streams.map(stream => [stream.id, stream.title]));
+
+  const intervals = sessions.map(session => ({
+    session,
+    start: Date.parse(session.startedAt),
+    end: getSessionEnd(session, now),
+  }));
+
+  // Concurrent viewers, sampled at the end of each bucket
+  const step = (windowEnd - windowStart) / CONCURRENCY_BUCKETS;
+  const concurrentViewers = Array.from({ length: CONCURRENCY_BUCKETS }, (_, i) => {
+    const time = windowStart + step * (i + 1);
+    return {
+      time: new Date(time).toISOString(),
+      viewers: intervals.filter(({ start, end }) => start <= time && end >= time).length,
+    };
+  });
+
+  const perStream = new Map<string, { sessions: number; failures: number; watchSeconds: number }>();
+  const perDevice = new Map<DeviceClass, number>();
+  let totalWatchSeconds = 0;
+
+  for (const { session, start, end } of intervals) {
+    // Only the part of the session inside the window counts
+    const watchSeconds = Math.max(0, Math.round((Math.min(end, windowEnd) - Math.max(start, windowStart)) / 1000));
+    totalWatchSeconds += watchSeconds;
+
+    const stats = perStream.get(session.streamId) ?? { sessions: 0, failures: 0, watchSeconds: 0 };
+    stats.sessions += 1;
+    stats.failures += session.error ? 1 : 0;
+    stats.watchSeconds += watchSeconds;
+    perStream.set(session.streamId, stats);
+
+    perDevice.set(session.deviceClass, (perDevice.get(session.deviceClass) ?? 0) + 1);
+  }
+
+  const streamStats = Array.from(perStream.entries()).map(([streamId, stats]) => ({
+    streamId,
+    title: titles.get(streamId) ?? streamId,
+    ...stats,
+  }));
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totalSessions: sessions.length,
+    uniqueViewers: new Set(sessions.map(session => session.userId).filter(Boolean)).size,
+    totalWatchSeconds,
+    concurrentViewers,
+    topStreams: [...streamStats]
+      .sort((a, b) => b.sessions - a.sessions || b.watchSeconds - a.watchSeconds)
+      .slice(0, TOP_STREAMS_LIMIT)
+      .map(({ streamId, title, sessions, watchSeconds }) => ({ streamId, title, sessions, watchSeconds })),
+    failureRates: streamStats
+      .map(({ streamId, title, sessions, failures }) => ({
+        streamId,
+        title,
+        sessions,
+        failures,
+        failureRate: failures / sessions,
+      }))
+      .sort((a, b) => b.failureRate - a.failureRate || b.sessions - a.sessions),
+    devices: Array.from(perDevice.entries())
+      .map(([deviceClass, count]) => ({ deviceClass, sessions: count }))
+      .sort((a, b) => b.sessions - a.sessions),
+  };
+}
@@ -1,6 +1,7 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
 import bcrypt from "bcrypt";
 import { randomBytes } from "crypto";
@@ -24,6 +25,9 @@ declare global {
 
 const SALT_ROUNDS = 12;
 
+// Kept so WebSocket upgrades, which skip the Express middleware stack, can read the same session
+let sessionParser: RequestHandler | undefined;
+
 // TV-friendly passcode authentication constants
 const PASSCODE_PEPPER = process.env.PASSCODE_PEPPER || 'obtv-universal-pepper-change-in-production';
 const ADMIN_PASSCODE = process.env.ADMIN_PASSCODE || '1234';  // Admin-only passcode
@@ -221,7 +225,8 @@ export function setupAuth(app: Express) {
 
   app.set("trust proxy", true); // Trust all proxies (Replit uses multiple proxies)
   
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
   
@@ -407,6 +412,19 @@ export function setupAuth(app: Express) {
   });
 }
 
+/**
+ * Resolve the signed-in user's id for a raw HTTP request, e.g. a WebSocket upgrade.
+ * Resolves to null when there is no session or nobody is logged in.
+ */
+export function getSessionUserId(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!sessionParser) return resolve(null);
+    sessionParser(req as any, {} as any, () => {
+      resolve((req as any).session?.passport?.user ?? null);
+    });
+  });
+}
+
 // Authentication middleware to protect all routes
 export function requireAuth(req: any, res: any, next: any) {
   if (!req.isAuthenticated()) {
@@ -2,9 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage, seedDatabase } from "./storage";
-import { insertStreamSchema, updateStreamSchema, insertStudioSchema, updateStudioSchema, insertUserSchema } from "../shared/schema";
+import { insertStreamSchema, updateStreamSchema, insertStudioSchema, updateStudioSchema, insertUserSchema, insertProgramSchema, updateProgramSchema, insertCategorySchema, updateCategorySchema, reorderStreamsSchema, streamSourcesSchema, probeStreamSchema, startWatchSchema, updateUserPreferencesSchema, playbackBeaconSchema, insertWallLayoutSchema, startRecordingSchema, scheduleRecordingSchema, createClipSchema, videoUploadSchema, videoProgressSchema, BUILT_IN_CATEGORIES, DEFAULT_PLAYBACK_PREFERENCES, type NowNextPrograms, type Stream, type InsertWallLayout, type CatalogChangeMessage } from "../shared/schema";
 import { z } from "zod";
 import { setupAuth, requireAuth, requireAdmin, csrfProtection } from "./auth";
+import { importXmltv } from "./xmltv";
+import { recordPlaybackBeacon, summarizePlaybackSessions, getPlaybackSessionDetail } from "./analytics";
+import { probeStreamUrl } from "./streamProbe";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import { studios } from "../shared/schema";
@@ -120,6 +123,79 @@ async function registerRoutes(app: Express): Promise<Server> {
     console.error("❌ SnapshotService initialization failed:", error);
     // Continue startup - frontend will fallback to thumbnails
   }
+
+  // Initialize StreamHealthService for periodic per-stream probes
+  let streamHealthService: any;
+  try {
+    const { StreamHealthService } = await import("./StreamHealthService.js");
+    streamHealthService = StreamHealthService.getInstance();
+    console.log(`✅ StreamHealthService initialized in production mode`);
+  } catch (error) {
+    console.error("❌ StreamHealthService initialization failed:", error);
+    // Continue startup - tiles will show unknown health
+  }
+
+  // Initialize RecordingService for admin stream recordings
+  let recordingService: any;
+  try {
+    const { RecordingService } = await import("./RecordingService.js");
+    recordingService = RecordingService.getInstance();
+    console.log(`✅ RecordingService initialized in production mode`);
+  } catch (error) {
+    console.error("❌ RecordingService initialization failed:", error);
+    // Continue startup - recording endpoints answer 503
+  }
+
+  // Initialize ClipService for clips of live streams
+  let clipService: any;
+  try {
+    const { ClipService } = await import("./ClipService.js");
+    clipService = ClipService.getInstance();
+    console.log(`✅ ClipService initialized in production mode`);
+  } catch (error) {
+    console.error("❌ ClipService initialization failed:", error);
+    // Continue startup - clip endpoints answer 503
+  }
+
+  // Initialize MediaAlertService for black, frozen and silent feed alerts
+  let mediaAlertService: any;
+  try {
+    const { MediaAlertService } = await import("./MediaAlertService.js");
+    mediaAlertService = MediaAlertService.getInstance();
+    console.log(`✅ MediaAlertService initialized in production mode`);
+  } catch (error) {
+    console.error("❌ MediaAlertService initialization failed:", error);
+    // Continue startup - the alerts endpoint answers 503
+  }
+
+  // Initialize VideoService for the on-demand library
+  let videoService: any;
+  try {
+    const { VideoService } = await import("./VideoService.js");
+    videoService = VideoService.getInstance();
+    
+    // Serve transcoded videos and posters to signed-in users
+    app.use('/videos', requireAuth, express.static(videoService.getVideosDir(), {
+      etag: true,
+      lastModified: true
+    }));
+    
+    console.log(`✅ VideoService initialized in production mode`);
+  } catch (error) {
+    console.error("❌ VideoService initialization failed:", error);
+    // Continue startup - the library stays empty and uploads answer 503
+  }
+
+  // Initialize ViewerService for live viewer counts and catalog change pushes
+  let viewerService: any;
+  try {
+    const { ViewerService } = await import("./ViewerService.js");
+    viewerService = ViewerService.getInstance();
+    console.log(`✅ ViewerService initialized in production mode`);
+  } catch (error) {
+    console.error("❌ ViewerService initialization failed:", error);
+    // Continue startup - viewer counts stay empty and clients refresh the catalog on reload
+  }
   
   // Health check endpoint
   app.get('/api/health', (req, res) => {
@@ -142,14 +218,15 @@ async function registerRoutes(app: Express): Promise<Server> {
     try {
       const allStreams = await storage.getAllStreams();
       
-      // Group streams by category for easier frontend consumption
-      const groupedStreams = {
-        featured: allStreams.filter(s => s.category === 'featured'),
-        overTheAir: allStreams.filter(s => s.category === 'overTheAir'),
-        liveFeeds: allStreams.filter(s => s.category === 'liveFeeds'),
-        studios: allStreams.filter(s => s.category === 'studios'),
-        uhd: allStreams.filter(s => s.category === 'uhd')
-      };
+      const allCategories = await storage.getAllCategories();
+      
+      // Group streams by category slug for easier frontend consumption - every category gets a key, even when empty
+      const groupedStreams: Record<string, Stream[]> = Object.fromEntries(
+        allCategories.map(category => [category.slug, [] as Stream[]])
+      );
+      for (const stream of allStreams) {
+        (groupedStreams[stream.category] ||= []).push(stream);
+      }
       
       res.json(groupedStreams);
     } catch (error) {
@@ -158,6 +235,16 @@ async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Per-stream health from the periodic probes, keyed by streamId
+  app.get('/api/streams/health', (req, res) => {
+    try {
+      res.json(streamHealthService ? streamHealthService.getAllHealth() : {});
+    } catch (error) {
+      console.error('Error fetching stream health:', error);
+      res.status(500).json({ error: 'Failed to fetch stream health' });
+    }
+  });
+
   // More specific routes first to avoid conflicts
   app.get('/api/streams/studio/:studioId', async (req, res) => {
     try {
@@ -197,10 +284,39 @@ async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Backup sources for a stream, in failover order
+  app.get('/api/streams/:id/sources', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const stream = await storage.getStream(id);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      res.json(await storage.getStreamSources(id));
+    } catch (error) {
+      console.error(`Error fetching sources for stream ${req.params.id}:`, error);
+      res.status(500).json({ error: 'Failed to fetch stream sources' });
+    }
+  });
+
   app.post('/api/streams', requireAdmin, csrfProtection, async (req, res) => {
     try {
       const validatedData = insertStreamSchema.parse(req.body);
+      const sources = req.body.sources !== undefined ? streamSourcesSchema.parse(req.body.sources) : [];
+      
+      if (!(await storage.getCategoryBySlug(validatedData.category))) {
+        return res.status(400).json({ error: `Unknown category: ${validatedData.category}` });
+      }
+      
+      if (validatedData.channelNumber && await storage.getStreamByChannelNumber(validatedData.channelNumber)) {
+        return res.status(409).json({ error: `Channel ${validatedData.channelNumber} is already taken` });
+      }
+      
       const stream = await storage.createStream(validatedData);
+      await storage.setStreamSources(stream.id, sources);
+      viewerService?.broadcastCatalogChange({ resource: 'streams', action: 'created', id: stream.id });
       res.status(201).json(stream);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -212,16 +328,76 @@ async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Probe a stream URL from the admin form before it is saved
+  app.post('/api/streams/probe', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const { url, streamType } = probeStreamSchema.parse(req.body);
+      const result = await probeStreamUrl(url.trim(), streamType);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid probe data', details: error.errors });
+      } else {
+        console.error('Error probing stream URL:', error);
+        res.status(500).json({ error: 'Failed to probe stream URL' });
+      }
+    }
+  });
+
+  // Registered before /api/streams/:id so "reorder" is not taken as an id
+  app.put('/api/streams/reorder', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const { streamIds } = reorderStreamsSchema.parse(req.body);
+      
+      const allStreams = await storage.getAllStreams();
+      const knownIds = new Set(allStreams.map(s => s.id));
+      const unknownIds = streamIds.filter(id => !knownIds.has(id));
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ error: 'Unknown stream IDs', details: unknownIds });
+      }
+      
+      await storage.reorderStreams(streamIds);
+      viewerService?.broadcastCatalogChange({ resource: 'streams', action: 'reordered' });
+      res.json({ reordered: streamIds.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid reorder data', details: error.errors });
+      } else {
+        console.error('Error reordering streams:', error);
+        res.status(500).json({ error: 'Failed to reorder streams' });
+      }
+    }
+  });
+
   app.put('/api/streams/:id', requireAdmin, csrfProtection, async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = updateStreamSchema.parse(req.body);
+      // Sources are only replaced when the request includes them
+      const sources = req.body.sources !== undefined ? streamSourcesSchema.parse(req.body.sources) : undefined;
+      
+      if (validatedData.category && !(await storage.getCategoryBySlug(validatedData.category))) {
+        return res.status(400).json({ error: `Unknown category: ${validatedData.category}` });
+      }
+      
+      if (validatedData.channelNumber) {
+        const existing = await storage.getStreamByChannelNumber(validatedData.channelNumber);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ error: `Channel ${validatedData.channelNumber} is already taken` });
+        }
+      }
+      
       const stream = await storage.updateStream(id, validatedData);
       
       if (!stream) {
         return res.status(404).json({ error: 'Stream not found' });
       }
       
+      if (sources) {
+        await storage.setStreamSources(id, sources);
+      }
+      
+      viewerService?.broadcastCatalogChange({ resource: 'streams', action: 'updated', id });
       res.json(stream);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -242,6 +418,7 @@ async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Stream not found' });
       }
       
+      viewerService?.broadcastCatalogChange({ resource: 'streams', action: 'deleted', id });
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting stream:', error);
@@ -271,60 +448,596 @@ async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(studio);
     } catch (error) {
-      console.error('Error fetching studio:', error);
-      res.status(500).json({ error: 'Failed to fetch studio' });
+      console.error('Error fetching studio:', error);
+      res.status(500).json({ error: 'Failed to fetch studio' });
+    }
+  });
+
+  app.post('/api/studios', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const validatedData = insertStudioSchema.parse(req.body);
+      const studio = await storage.createStudio(validatedData);
+      viewerService?.broadcastCatalogChange({ resource: 'studios', action: 'created', id: studio.id });
+      res.status(201).json(studio);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid studio data', details: error.errors });
+      } else {
+        console.error('Error creating studio:', error);
+        res.status(500).json({ error: 'Failed to create studio' });
+      }
+    }
+  });
+
+  app.put('/api/studios/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateStudioSchema.parse(req.body);
+      const studio = await storage.updateStudio(id, validatedData);
+      
+      if (!studio) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      
+      viewerService?.broadcastCatalogChange({ resource: 'studios', action: 'updated', id });
+      res.json(studio);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid studio data', details: error.errors });
+      } else {
+        console.error('Error updating studio:', error);
+        res.status(500).json({ error: 'Failed to update studio' });
+      }
+    }
+  });
+
+  app.delete('/api/studios/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteStudio(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      
+      viewerService?.broadcastCatalogChange({ resource: 'studios', action: 'deleted', id });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting studio:', error);
+      res.status(500).json({ error: 'Failed to delete studio' });
+    }
+  });
+
+  // Category endpoints
+  app.get('/api/categories', async (req, res) => {
+    try {
+      const categories = await storage.getAllCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      res.status(500).json({ error: 'Failed to fetch categories' });
+    }
+  });
+
+  app.post('/api/categories', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const validatedData = insertCategorySchema.parse(req.body);
+      
+      if (await storage.getCategoryBySlug(validatedData.slug)) {
+        return res.status(409).json({ error: 'A category with this slug already exists' });
+      }
+      
+      const category = await storage.createCategory(validatedData);
+      viewerService?.broadcastCatalogChange({ resource: 'categories', action: 'created', id: category.id });
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid category data', details: error.errors });
+      } else {
+        console.error('Error creating category:', error);
+        res.status(500).json({ error: 'Failed to create category' });
+      }
+    }
+  });
+
+  app.put('/api/categories/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateCategorySchema.parse(req.body);
+      
+      if (validatedData.slug) {
+        const existing = await storage.getCategoryBySlug(validatedData.slug);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ error: 'A category with this slug already exists' });
+        }
+        
+        const current = await storage.getCategory(id);
+        if (current && current.slug !== validatedData.slug && BUILT_IN_CATEGORIES.includes(current.slug)) {
+          return res.status(400).json({ error: 'Built-in category slugs cannot be changed' });
+        }
+      }
+      
+      const category = await storage.updateCategory(id, validatedData);
+      
+      if (!category) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      
+      viewerService?.broadcastCatalogChange({ resource: 'categories', action: 'updated', id });
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid category data', details: error.errors });
+      } else {
+        console.error('Error updating category:', error);
+        res.status(500).json({ error: 'Failed to update category' });
+      }
+    }
+  });
+
+  app.delete('/api/categories/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const category = await storage.getCategory(id);
+      
+      if (!category) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      
+      if (BUILT_IN_CATEGORIES.includes(category.slug)) {
+        return res.status(400).json({ error: 'Built-in categories cannot be deleted - hide them instead' });
+      }
+      
+      // Refuse to orphan streams - they must be moved to another category first
+      const categoryStreams = await storage.getStreamsByCategory(category.slug);
+      if (categoryStreams.length > 0) {
+        return res.status(409).json({ 
+          error: `Category still has ${categoryStreams.length} stream(s) - move them to another category first` 
+        });
+      }
+      
+      await storage.deleteCategory(id);
+      viewerService?.broadcastCatalogChange({ resource: 'categories', action: 'deleted', id });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      res.status(500).json({ error: 'Failed to delete category' });
+    }
+  });
+
+  // Per-user favorites - keyed by the stream's database id
+  app.get('/api/me/favorites', requireAuth, async (req, res) => {
+    try {
+      const favorites = await storage.getFavoriteStreams(req.user!.id);
+      res.json(favorites);
+    } catch (error) {
+      console.error('Error fetching favorites:', error);
+      res.status(500).json({ error: 'Failed to fetch favorites' });
+    }
+  });
+
+  app.post('/api/me/favorites/:streamId', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { streamId } = req.params;
+      const stream = await storage.getStream(streamId);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      const favorite = await storage.addFavorite(req.user!.id, streamId);
+      res.status(201).json(favorite);
+    } catch (error) {
+      console.error('Error adding favorite:', error);
+      res.status(500).json({ error: 'Failed to add favorite' });
+    }
+  });
+
+  app.delete('/api/me/favorites/:streamId', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { streamId } = req.params;
+      const removed = await storage.removeFavorite(req.user!.id, streamId);
+      
+      if (!removed) {
+        return res.status(404).json({ error: 'Favorite not found' });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error removing favorite:', error);
+      res.status(500).json({ error: 'Failed to remove favorite' });
+    }
+  });
+
+  // Per-user watch history - the player opens an entry and ends it when it closes
+  app.get('/api/me/history', requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const history = await storage.getWatchHistory(req.user!.id, limit);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching watch history:', error);
+      res.status(500).json({ error: 'Failed to fetch watch history' });
+    }
+  });
+
+  app.post('/api/me/history', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { streamId } = startWatchSchema.parse(req.body);
+      const stream = await storage.getStreamByStreamId(streamId);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      const entry = await storage.startWatching(req.user!.id, stream.id);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid watch history data', details: error.errors });
+      } else {
+        console.error('Error recording watch history:', error);
+        res.status(500).json({ error: 'Failed to record watch history' });
+      }
+    }
+  });
+
+  app.put('/api/me/history/:id/end', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const entry = await storage.stopWatching(req.user!.id, id);
+      
+      if (!entry) {
+        return res.status(404).json({ error: 'History entry not found' });
+      }
+      
+      res.json(entry);
+    } catch (error) {
+      console.error('Error ending watch history entry:', error);
+      res.status(500).json({ error: 'Failed to update watch history' });
+    }
+  });
+
+  // Per-user playback preferences - the audio and caption tracks the player picks by default
+  app.get('/api/me/preferences', requireAuth, async (req, res) => {
+    try {
+      const preferences = await storage.getUserPreferences(req.user!.id);
+      res.json({
+        audioLanguage: preferences?.audioLanguage ?? DEFAULT_PLAYBACK_PREFERENCES.audioLanguage,
+        captionLanguage: preferences?.captionLanguage ?? DEFAULT_PLAYBACK_PREFERENCES.captionLanguage,
+      });
+    } catch (error) {
+      console.error('Error fetching preferences:', error);
+      res.status(500).json({ error: 'Failed to fetch preferences' });
+    }
+  });
+
+  app.put('/api/me/preferences', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const update = updateUserPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateUserPreferences(req.user!.id, update);
+      res.json({ audioLanguage: preferences.audioLanguage, captionLanguage: preferences.captionLanguage });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid preferences data', details: error.errors });
+      } else {
+        console.error('Error updating preferences:', error);
+        res.status(500).json({ error: 'Failed to update preferences' });
+      }
+    }
+  });
+
+  // On-demand video library - ready videos with the user's resume positions
+  app.get('/api/videos', requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getLibraryVideos(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching videos:', error);
+      res.status(500).json({ error: 'Failed to fetch videos' });
+    }
+  });
+
+  // Remember where the user got to in a video
+  app.put('/api/me/videos/:id/progress', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { positionSeconds } = videoProgressSchema.parse(req.body);
+      const video = await storage.getVideo(req.params.id);
+      
+      if (!video || video.status !== 'ready') {
+        return res.status(404).json({ error: 'Video not found' });
+      }
+      
+      const position = Math.floor(Math.min(positionSeconds, video.durationSeconds));
+      res.json(await storage.saveVideoProgress(req.user!.id, video.id, position));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid progress data', details: error.errors });
+      } else {
+        console.error('Error saving video progress:', error);
+        res.status(500).json({ error: 'Failed to save video progress' });
+      }
+    }
+  });
+
+  // Playback analytics beacons - sent with navigator.sendBeacon, so the CSRF token rides in the body
+  app.post('/api/analytics/beacon', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const beacon = playbackBeaconSchema.parse(req.body);
+      const recorded = await recordPlaybackBeacon(req.user!.id, beacon);
+      
+      if (!recorded) {
+        return res.status(404).json({ error: 'Stream or playback session not found' });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid beacon data', details: error.errors });
+      } else {
+        console.error('Error recording playback beacon:', error);
+        res.status(500).json({ error: 'Failed to record playback beacon' });
+      }
+    }
+  });
+
+  // Wall layouts - shared walls (ownerId null) are managed by admins, anyone can save personal ones
+  const validateWallStreams = async (wall: InsertWallLayout) => {
+    const missing: string[] = [];
+    for (const tile of wall.tiles) {
+      if (!(await storage.getStream(tile.streamId))) missing.push(tile.streamId);
+    }
+    return missing;
+  };
+
+  // Shared walls are in everyone's list; a personal wall only concerns its owner's connections
+  const notifyWallChange = (action: CatalogChangeMessage['action'], id: string, ownerIds: Array<string | null>) => {
+    const change = { resource: 'walls' as const, action, id };
+    if (ownerIds.includes(null)) {
+      viewerService?.broadcastCatalogChange(change);
+      return;
+    }
+    for (const ownerId of Array.from(new Set(ownerIds))) {
+      viewerService?.sendCatalogChange(ownerId!, change);
+    }
+  };
+
+  app.get('/api/walls', requireAuth, async (req, res) => {
+    try {
+      const walls = await storage.getWallLayouts(req.user!.id);
+      res.json(walls);
+    } catch (error) {
+      console.error('Error fetching walls:', error);
+      res.status(500).json({ error: 'Failed to fetch walls' });
+    }
+  });
+
+  app.get('/api/walls/:id', requireAuth, async (req, res) => {
+    try {
+      const wall = await storage.getWallLayout(req.params.id);
+      if (!wall || (wall.ownerId !== null && wall.ownerId !== req.user!.id)) {
+        return res.status(404).json({ error: 'Wall not found' });
+      }
+      res.json(wall);
+    } catch (error) {
+      console.error('Error fetching wall:', error);
+      res.status(500).json({ error: 'Failed to fetch wall' });
+    }
+  });
+
+  app.post('/api/walls', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const wallData = insertWallLayoutSchema.parse(req.body);
+      if (wallData.shared && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+      
+      const missing = await validateWallStreams(wallData);
+      if (missing.length > 0) {
+        return res.status(400).json({ error: 'Unknown streams in wall', details: missing });
+      }
+      
+      const wall = await storage.createWallLayout(wallData.shared ? null : req.user!.id, wallData);
+      notifyWallChange('created', wall.id, [wall.ownerId]);
+      res.status(201).json(wall);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid wall data', details: error.errors });
+      } else {
+        console.error('Error creating wall:', error);
+        res.status(500).json({ error: 'Failed to create wall' });
+      }
+    }
+  });
+
+  app.put('/api/walls/:id', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const wallData = insertWallLayoutSchema.parse(req.body);
+      const existing = await storage.getWallLayout(id);
+      if (!existing || (existing.ownerId !== null && existing.ownerId !== req.user!.id)) {
+        return res.status(404).json({ error: 'Wall not found' });
+      }
+      
+      // Shared walls, and turning a wall into one, are admin only
+      const isAdmin = req.user!.role === 'admin';
+      if ((existing.ownerId === null || wallData.shared) && !isAdmin) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+      
+      const missing = await validateWallStreams(wallData);
+      if (missing.length > 0) {
+        return res.status(400).json({ error: 'Unknown streams in wall', details: missing });
+      }
+      
+      const ownerId = wallData.shared ? null : existing.ownerId ?? req.user!.id;
+      const wall = await storage.updateWallLayout(id, ownerId, wallData);
+      if (!wall) {
+        return res.status(404).json({ error: 'Wall not found' });
+      }
+      
+      // Sharing or unsharing a wall changes everyone's list, not just the owner's
+      notifyWallChange('updated', id, [existing.ownerId, wall.ownerId]);
+      res.json(wall);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid wall data', details: error.errors });
+      } else {
+        console.error('Error updating wall:', error);
+        res.status(500).json({ error: 'Failed to update wall' });
+      }
+    }
+  });
+
+  app.delete('/api/walls/:id', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await storage.getWallLayout(id);
+      if (!existing || (existing.ownerId !== null && existing.ownerId !== req.user!.id)) {
+        return res.status(404).json({ error: 'Wall not found' });
+      }
+      if (existing.ownerId === null && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+      
+      await storage.deleteWallLayout(id);
+      notifyWallChange('deleted', id, [existing.ownerId]);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting wall:', error);
+      res.status(500).json({ error: 'Failed to delete wall' });
+    }
+  });
+
+  // Program guide (EPG) endpoints
+  const parseGuideTime = (value: unknown): string | undefined =>
+    typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+
+  app.get('/api/programs', async (req, res) => {
+    try {
+      const { streamId, from, to } = req.query;
+      const programList = await storage.getPrograms({
+        streamId: typeof streamId === 'string' ? streamId : undefined,
+        from: parseGuideTime(from),
+        to: parseGuideTime(to),
+      });
+      res.json(programList);
+    } catch (error) {
+      console.error('Error fetching programs:', error);
+      res.status(500).json({ error: 'Failed to fetch programs' });
+    }
+  });
+
+  // Now / Next for every stream that has guide data, keyed by streamId
+  app.get('/api/programs/now', async (req, res) => {
+    try {
+      const now = new Date().toISOString();
+      const dayAhead = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+      const [allStreams, upcoming] = await Promise.all([
+        storage.getAllStreams(),
+        storage.getPrograms({ from: now, to: dayAhead }),
+      ]);
+      
+      const nowNext: Record<string, NowNextPrograms> = {};
+      for (const stream of allStreams) {
+        const streamPrograms = upcoming.filter(p => p.streamId === stream.id);
+        const current = streamPrograms.find(p => p.startTime <= now) ?? null;
+        const next = streamPrograms.find(p => p.startTime > now) ?? null;
+        if (current || next) {
+          nowNext[stream.streamId] = { now: current, next };
+        }
+      }
+      
+      res.json(nowNext);
+    } catch (error) {
+      console.error('Error fetching now/next programs:', error);
+      res.status(500).json({ error: 'Failed to fetch now/next programs' });
+    }
+  });
+
+  app.post('/api/admin/programs', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      const validatedData = insertProgramSchema.parse(req.body);
+      if (validatedData.endTime <= validatedData.startTime) {
+        return res.status(400).json({ error: 'End time must be after start time' });
+      }
+      
+      const stream = await storage.getStream(validatedData.streamId);
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      const program = await storage.createProgram(validatedData);
+      viewerService?.broadcastCatalogChange({ resource: 'programs', action: 'created', id: program.id });
+      res.status(201).json(program);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid program data', details: error.errors });
+      } else {
+        console.error('Error creating program:', error);
+        res.status(500).json({ error: 'Failed to create program' });
+      }
     }
   });
 
-  app.post('/api/studios', requireAdmin, csrfProtection, async (req, res) => {
+  app.post('/api/admin/programs/import', requireAdmin, csrfProtection, async (req, res) => {
     try {
-      const validatedData = insertStudioSchema.parse(req.body);
-      const studio = await storage.createStudio(validatedData);
-      res.status(201).json(studio);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ error: 'Invalid studio data', details: error.errors });
-      } else {
-        console.error('Error creating studio:', error);
-        res.status(500).json({ error: 'Failed to create studio' });
+      const { xml } = req.body;
+      if (typeof xml !== 'string' || !xml.includes('<tv')) {
+        return res.status(400).json({ error: 'Request body must include an XMLTV document in "xml"' });
       }
+      
+      const result = await importXmltv(xml);
+      viewerService?.broadcastCatalogChange({ resource: 'programs', action: 'imported' });
+      res.json(result);
+    } catch (error) {
+      console.error('Error importing XMLTV:', error);
+      res.status(500).json({ error: 'Failed to import XMLTV guide' });
     }
   });
 
-  app.put('/api/studios/:id', requireAdmin, csrfProtection, async (req, res) => {
+  app.put('/api/admin/programs/:id', requireAdmin, csrfProtection, async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = updateStudioSchema.parse(req.body);
-      const studio = await storage.updateStudio(id, validatedData);
+      const validatedData = updateProgramSchema.parse(req.body);
       
-      if (!studio) {
-        return res.status(404).json({ error: 'Studio not found' });
+      const existing = await storage.getProgram(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Program not found' });
       }
       
-      res.json(studio);
+      const startTime = validatedData.startTime ?? existing.startTime;
+      const endTime = validatedData.endTime ?? existing.endTime;
+      if (endTime <= startTime) {
+        return res.status(400).json({ error: 'End time must be after start time' });
+      }
+      
+      const program = await storage.updateProgram(id, validatedData);
+      viewerService?.broadcastCatalogChange({ resource: 'programs', action: 'updated', id });
+      res.json(program);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ error: 'Invalid studio data', details: error.errors });
+        res.status(400).json({ error: 'Invalid program data', details: error.errors });
       } else {
-        console.error('Error updating studio:', error);
-        res.status(500).json({ error: 'Failed to update studio' });
+        console.error('Error updating program:', error);
+        res.status(500).json({ error: 'Failed to update program' });
       }
     }
   });
 
-  app.delete('/api/studios/:id', requireAdmin, csrfProtection, async (req, res) => {
+  app.delete('/api/admin/programs/:id', requireAdmin, csrfProtection, async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteStudio(id);
+      const deleted = await storage.deleteProgram(id);
       
       if (!deleted) {
-        return res.status(404).json({ error: 'Studio not found' });
+        return res.status(404).json({ error: 'Program not found' });
       }
       
+      viewerService?.broadcastCatalogChange({ resource: 'programs', action: 'deleted', id });
       res.status(204).send();
     } catch (error) {
-      console.error('Error deleting studio:', error);
-      res.status(500).json({ error: 'Failed to delete studio' });
+      console.error('Error deleting program:', error);
+      res.status(500).json({ error: 'Failed to delete program' });
     }
   });
 
@@ -465,7 +1178,9 @@ async function registerRoutes(app: Express): Promise<Server> {
             const stream = allStreams.find(s => s.streamId === streamId);
             
             if (stream) {
-              snapshotService.registerStream(streamId, stream.url);
+              // Snapshots fail over through the backup sources like the players do
+            const sources = await storage.getStreamSources(stream.id);
+            snapshotService.registerStream(streamId, [stream.url, ...sources.map(source => source.url)]);
               registeredStreams.push(streamId);
             }
           } catch (error) {
@@ -494,6 +1209,465 @@ async function registerRoutes(app: Express): Promise<Server> {
     });
   }
 
+  // Archived snapshots of a stream, for the contact sheet in the admin streams list
+  app.get('/api/streams/:id/snapshots', requireAdmin, async (req, res) => {
+    try {
+      if (!snapshotService) {
+        return res.status(503).json({ error: 'Snapshot service not available' });
+      }
+      
+      const stream = await storage.getStream(req.params.id);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      res.json(snapshotService.getSnapshotHistory(stream.streamId));
+    } catch (error) {
+      console.error(`Error fetching snapshot history for ${req.params.id}:`, error);
+      res.status(500).json({ error: 'Failed to fetch snapshot history' });
+    }
+  });
+
+  // Black-frame, frozen-frame and silence alerts, newest first - open ones have no endedAt
+  app.get('/api/admin/alerts', requireAdmin, async (req, res) => {
+    try {
+      if (!mediaAlertService) {
+        return res.status(503).json({ error: 'Alert service not available' });
+      }
+      
+      const limit = req.query.limit ? Math.max(1, parseInt(req.query.limit as string, 10) || 1) : undefined;
+      res.json(mediaAlertService.getAlerts(limit));
+    } catch (error) {
+      console.error('Error fetching media alerts:', error);
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  });
+
+  app.get('/api/admin/users/:id/history', requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = await storage.getUser(id);
+      
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const history = await storage.getWatchHistory(id, limit);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching user watch history:', error);
+      res.status(500).json({ error: 'Failed to fetch watch history' });
+    }
+  });
+
+  // Viewer analytics (admin only) - ?hours= sets the window ending now, 24 by default
+  app.get('/api/admin/analytics', requireAdmin, async (req, res) => {
+    try {
+      const hours = Math.min(Math.max(Number(req.query.hours) || 24, 1), 24 * 30);
+      const to = new Date();
+      const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+      
+      const [sessions, streams] = await Promise.all([
+        storage.getPlaybackSessions(from.toISOString(), to.toISOString()),
+        storage.getAllStreams(),
+      ]);
+      
+      res.json(summarizePlaybackSessions(sessions, streams, from, to));
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      res.status(500).json({ error: 'Failed to fetch analytics' });
+    }
+  });
+
+  // One playback session with its stats samples, looked up by the session id a viewer quotes in a ticket
+  app.get('/api/admin/analytics/sessions/:id', requireAdmin, async (req, res) => {
+    try {
+      const detail = await getPlaybackSessionDetail(req.params.id);
+      
+      if (!detail) {
+        return res.status(404).json({ error: 'Playback session not found' });
+      }
+      
+      res.json(detail);
+    } catch (error) {
+      console.error('Error fetching playback session:', error);
+      res.status(500).json({ error: 'Failed to fetch playback session' });
+    }
+  });
+
+  // Recordings library (admin only)
+  app.get('/api/admin/recordings', requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getRecordings());
+    } catch (error) {
+      console.error('Error fetching recordings:', error);
+      res.status(500).json({ error: 'Failed to fetch recordings' });
+    }
+  });
+
+  app.get('/api/admin/recordings/limits', requireAdmin, async (req, res) => {
+    try {
+      if (!recordingService) {
+        return res.status(503).json({ error: 'Recording service not available' });
+      }
+      
+      res.json(await recordingService.getLimits());
+    } catch (error) {
+      console.error('Error fetching recording limits:', error);
+      res.status(500).json({ error: 'Failed to fetch recording limits' });
+    }
+  });
+
+  // Start recording a stream now - runs until stopped, or for durationMinutes
+  app.post('/api/admin/recordings/start', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!recordingService) {
+        return res.status(503).json({ error: 'Recording service not available' });
+      }
+      
+      const data = startRecordingSchema.parse(req.body);
+      const stream = await storage.getStream(data.streamId);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      if (recordingService.isRecording(stream.id)) {
+        return res.status(409).json({ error: 'Stream is already being recorded' });
+      }
+      
+      const recording = await recordingService.startRecording(stream, {
+        title: data.title,
+        durationMinutes: data.durationMinutes,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(recording);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid recording data', details: error.errors });
+      }
+      console.error('Error starting recording:', error);
+      res.status(500).json({ error: 'Failed to start recording' });
+    }
+  });
+
+  // Schedule a recording for later
+  app.post('/api/admin/recordings', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!recordingService) {
+        return res.status(503).json({ error: 'Recording service not available' });
+      }
+      
+      const data = scheduleRecordingSchema.parse(req.body);
+      const stream = await storage.getStream(data.streamId);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      if (data.scheduledEnd <= new Date().toISOString()) {
+        return res.status(400).json({ error: 'End time must be in the future' });
+      }
+      
+      const recording = await recordingService.scheduleRecording(stream, {
+        title: data.title,
+        scheduledStart: data.scheduledStart,
+        scheduledEnd: data.scheduledEnd,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(recording);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid recording data', details: error.errors });
+      }
+      console.error('Error scheduling recording:', error);
+      res.status(500).json({ error: 'Failed to schedule recording' });
+    }
+  });
+
+  // Stop a running recording, or cancel a scheduled one
+  app.post('/api/admin/recordings/:id/stop', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!recordingService) {
+        return res.status(503).json({ error: 'Recording service not available' });
+      }
+      
+      const recording = await storage.getRecording(req.params.id);
+      
+      if (!recording) {
+        return res.status(404).json({ error: 'Recording not found' });
+      }
+      
+      if (recording.status !== 'recording' && recording.status !== 'scheduled') {
+        return res.status(409).json({ error: 'Recording is not running or scheduled' });
+      }
+      
+      res.json(await recordingService.stopRecording(recording));
+    } catch (error) {
+      console.error('Error stopping recording:', error);
+      res.status(500).json({ error: 'Failed to stop recording' });
+    }
+  });
+
+  app.delete('/api/admin/recordings/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!recordingService) {
+        return res.status(503).json({ error: 'Recording service not available' });
+      }
+      
+      const recording = await storage.getRecording(req.params.id);
+      
+      if (!recording) {
+        return res.status(404).json({ error: 'Recording not found' });
+      }
+      
+      if (recording.status === 'recording') {
+        return res.status(409).json({ error: 'Stop the recording before deleting it' });
+      }
+      
+      await recordingService.deleteRecording(recording.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting recording:', error);
+      res.status(500).json({ error: 'Failed to delete recording' });
+    }
+  });
+
+  // Download a finished recording as MP4, remuxed on the fly
+  app.get('/api/admin/recordings/:id/download', requireAdmin, async (req, res) => {
+    try {
+      if (!recordingService) {
+        return res.status(503).json({ error: 'Recording service not available' });
+      }
+      
+      const recording = await storage.getRecording(req.params.id);
+      
+      if (!recording) {
+        return res.status(404).json({ error: 'Recording not found' });
+      }
+      
+      if (recording.status !== 'completed') {
+        return res.status(409).json({ error: 'Recording is not finished' });
+      }
+      
+      const download = recordingService.createDownload(recording.id);
+      if (!download) {
+        return res.status(404).json({ error: 'Recording files not found' });
+      }
+      
+      res.setHeader('Content-Type', 'video/mp4');
+      res.setHeader('Content-Disposition', `attachment; filename="${recordingService.getDownloadFilename(recording)}"`);
+      download.stdout?.pipe(res);
+      download.on('error', (error: Error) => {
+        console.error('Error remuxing recording for download:', error);
+        res.destroy();
+      });
+      // Client gave up - stop remuxing
+      res.on('close', () => download.kill('SIGKILL'));
+    } catch (error) {
+      console.error('Error downloading recording:', error);
+      res.status(500).json({ error: 'Failed to download recording' });
+    }
+  });
+
+  // Clips of a live stream's last moments (admin only)
+  app.get('/api/admin/clips', requireAdmin, async (req, res) => {
+    try {
+      const clips = await storage.getClips();
+      res.json(clips);
+    } catch (error) {
+      console.error('Error fetching clips:', error);
+      res.status(500).json({ error: 'Failed to fetch clips' });
+    }
+  });
+
+  // Cut a clip ending now; it is "processing" until the segments are downloaded
+  app.post('/api/admin/clips', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!clipService) {
+        return res.status(503).json({ error: 'Clip service not available' });
+      }
+      
+      const data = createClipSchema.parse(req.body);
+      const stream = await storage.getStream(data.streamId);
+      
+      if (!stream) {
+        return res.status(404).json({ error: 'Stream not found' });
+      }
+      
+      const clip = await clipService.createClip(stream, {
+        title: data.title,
+        durationSeconds: data.durationSeconds,
+        createdBy: req.user!.id,
+        createdByUsername: req.user!.username,
+      });
+      res.status(201).json(clip);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid clip data', details: error.errors });
+      }
+      console.error('Error creating clip:', error);
+      res.status(500).json({ error: 'Failed to create clip' });
+    }
+  });
+
+  app.delete('/api/admin/clips/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!clipService) {
+        return res.status(503).json({ error: 'Clip service not available' });
+      }
+      
+      const clip = await storage.getClip(req.params.id);
+      
+      if (!clip) {
+        return res.status(404).json({ error: 'Clip not found' });
+      }
+      
+      await clipService.deleteClip(clip.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting clip:', error);
+      res.status(500).json({ error: 'Failed to delete clip' });
+    }
+  });
+
+  app.get('/api/admin/clips/:id/download', requireAdmin, async (req, res) => {
+    try {
+      if (!clipService) {
+        return res.status(503).json({ error: 'Clip service not available' });
+      }
+      
+      const clip = await storage.getClip(req.params.id);
+      
+      if (!clip) {
+        return res.status(404).json({ error: 'Clip not found' });
+      }
+      
+      if (clip.status !== 'ready') {
+        return res.status(409).json({ error: 'Clip is not ready' });
+      }
+      
+      const clipPath = clipService.getClipPath(clip.id);
+      if (!clipPath) {
+        return res.status(404).json({ error: 'Clip file not found' });
+      }
+      
+      res.download(clipPath, clipService.getDownloadFilename(clip));
+    } catch (error) {
+      console.error('Error downloading clip:', error);
+      res.status(500).json({ error: 'Failed to download clip' });
+    }
+  });
+
+  // Video library management (admin only)
+  app.get('/api/admin/videos', requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getVideos());
+    } catch (error) {
+      console.error('Error fetching videos:', error);
+      res.status(500).json({ error: 'Failed to fetch videos' });
+    }
+  });
+
+  // Upload a video (multipart field "video", plus title and description) - it is listed as
+  // processing until the HLS transcode and poster are done
+  app.post('/api/admin/videos', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!videoService) {
+        return res.status(503).json({ error: 'Video service not available' });
+      }
+      
+      const multer = (await import('multer')).default;
+      const { extname } = await import("path");
+      const { existsSync, unlinkSync } = await import("fs");
+      const { VIDEO_UPLOAD_EXTENSIONS, MAX_VIDEO_UPLOAD_BYTES } = await import("./VideoService.js");
+      
+      const videoUpload = multer({
+        storage: multer.diskStorage({
+          destination: (req, file, cb) => {
+            cb(null, videoService.getUploadsDir());
+          },
+          filename: (req, file, cb) => {
+            cb(null, `temp-${Date.now()}${extname(file.originalname).toLowerCase()}`);
+          }
+        }),
+        limits: { fileSize: MAX_VIDEO_UPLOAD_BYTES, files: 1 },
+        fileFilter: (req, file, cb) => {
+          if (VIDEO_UPLOAD_EXTENSIONS.includes(extname(file.originalname).toLowerCase())) {
+            cb(null, true);
+          } else {
+            cb(new Error(`Only video files are allowed (${VIDEO_UPLOAD_EXTENSIONS.join(', ')})`));
+          }
+        }
+      }).single('video');
+      
+      videoUpload(req, res, async (err) => {
+        if (err) {
+          console.error('Video upload error:', err);
+          return res.status(400).json({ error: err.message });
+        }
+        
+        if (!req.file) {
+          return res.status(400).json({ error: 'No video file provided' });
+        }
+        
+        try {
+          const data = videoUploadSchema.parse(req.body);
+          const video = await storage.createVideo({
+            ...data,
+            uploadedBy: req.user!.id,
+            createdAt: new Date().toISOString(),
+          });
+          try {
+            videoService.transcode(video, req.file.path);
+          } catch (error) {
+            // Nothing will ever finish this row - drop it with whatever was moved into place
+            videoService.deleteFiles(video.id);
+            await storage.deleteVideo(video.id);
+            throw error;
+          }
+          res.status(201).json(video);
+        } catch (error) {
+          if (existsSync(req.file.path)) {
+            unlinkSync(req.file.path);
+          }
+          if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Invalid video data', details: error.errors });
+          }
+          console.error('Error saving uploaded video:', error);
+          res.status(500).json({ error: 'Failed to upload video' });
+        }
+      });
+    } catch (error) {
+      console.error('Error uploading video:', error);
+      res.status(500).json({ error: 'Failed to upload video' });
+    }
+  });
+
+  app.delete('/api/admin/videos/:id', requireAdmin, csrfProtection, async (req, res) => {
+    try {
+      if (!videoService) {
+        return res.status(503).json({ error: 'Video service not available' });
+      }
+      
+      const video = await storage.getVideo(req.params.id);
+      
+      if (!video) {
+        return res.status(404).json({ error: 'Video not found' });
+      }
+      
+      videoService.deleteFiles(video.id);
+      await storage.deleteVideo(video.id);
+      viewerService?.broadcastCatalogChange({ resource: 'videos', action: 'deleted', id: video.id });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting video:', error);
+      res.status(500).json({ error: 'Failed to delete video' });
+    }
+  });
+
   // APK management endpoints (admin only)
   app.get('/api/admin/apk/info', requireAdmin, async (req, res) => {
     try {
@@ -632,6 +1806,9 @@ async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
+  // Live viewer counts and catalog changes over WebSocket on /ws
+  viewerService?.attach(httpServer);
+
   return httpServer;
 }
 
@@ -0,0 +1,44 @@
+type ShutdownHandler = () => void | Promise<void>;
+
+const handlers: Array<{ name: string; handler: ShutdownHandler }> = [];
+const SHUTDOWN_TIMEOUT = 15000; // exit anyway if a service takes longer than this to stop
+let isShuttingDown = false;
+
+/**
+ * Run a service's cleanup when the server is stopped. Every registered handler is awaited
+ * before the process exits, so no service can exit the process under another one.
+ * Any further SIGINT or SIGTERM while shutting down exits immediately.
+ */
+export function onShutdown(name: string, handler: ShutdownHandler): void {
+  if (handlers.length === 0) {
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  }
+  handlers.push({ name, handler });
+}
+
+async function shutdown(signal: string): Promise<void> {
+  if (isShuttingDown) {
+    console.warn(`Received ${signal} while shutting down, exiting now`);
+    process.exit(1);
+  }
+  isShuttingDown = true;
+  console.log(`Received ${signal}, shutting down ${handlers.map(({ name }) => name).join(', ')}`);
+
+  const stopped = Promise.all(handlers.map(async ({ name, handler }) => {
+    try {
+      await handler();
+    } catch (error) {
+      console.error(`${name}: Shutdown failed:`, error);
+    }
+  }));
+  const timedOut = new Promise<void>(resolve => {
+    setTimeout(() => {
+      console.warn(`Shutdown still running after ${SHUTDOWN_TIMEOUT / 1000}s, exiting anyway`);
+      resolve();
+    }, SHUTDOWN_TIMEOUT).unref();
+  });
+
+  await Promise.race([stopped, timedOut]);
+  process.exit(0);
+}
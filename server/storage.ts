@@ -1,15 +1,66 @@
-import { type User, type InsertUser, type Stream, type InsertStream, type Studio, type InsertStudio, users, streams, studios } from "../shared/schema";
+import { type User, type InsertUser, type Stream, type InsertStream, type StreamSource, type InsertStreamSource, type Studio, type InsertStudio, type Program, type InsertProgram, type Category, type InsertCategory, type UserFavorite, type WatchHistoryEntry, type WatchHistoryItem, type UserPreferences, type UpdateUserPreferences, type PlaybackSession, type InsertPlaybackSession, type PlaybackStatsSample, type InsertPlaybackStatsSample, type Recording, type InsertRecording, type Clip, type InsertClip, type Video, type InsertVideo, type VideoProgress, type LibraryVideo, type WallLayout, type WallLayoutTile, type WallLayoutWithTiles, type InsertWallLayout, users, streams, streamSources, studios, programs, categories, userFavorites, watchHistory, userPreferences, playbackSessions, playbackStatsSamples, recordings, clips, videos, videoProgress, wallLayouts, wallLayoutTiles } from "../shared/schema";
+import { detectStreamType } from "../shared/streamUrls";
 import { randomUUID } from "crypto";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPgSimple from "connect-pg-simple";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, and, or, gt, gte, lt, asc, desc, max, inArray, isNull, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Categories every install starts with - the original hardcoded home screen sections
+export const DEFAULT_CATEGORIES: InsertCategory[] = [
+  { slug: 'featured', label: 'Featured', sortOrder: 0, icon: 'home', visible: true },
+  { slug: 'overTheAir', label: 'Over The Air', sortOrder: 1, icon: 'radio', visible: true },
+  { slug: 'liveFeeds', label: 'Live Feeds', sortOrder: 2, icon: 'tv', visible: true },
+  { slug: 'uhd', label: 'UHD', sortOrder: 3, icon: 'monitor', visible: true },
+  { slug: 'studios', label: 'Studios', sortOrder: 4, icon: 'video', visible: true },
+];
+
+const sortStreams = (list: Stream[]) =>
+  list.sort((a, b) => a.position - b.position || a.title.localeCompare(b.title));
+
+const sortCategories = (list: Category[]) =>
+  list.sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+
+// Whole seconds between two ISO timestamps, never negative
+const getWatchDuration = (startedAt: string, endedAt: string) =>
+  Math.max(0, Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 1000));
+
+// Failover order - lowest priority first, label breaks ties
+const sortStreamSources = (list: StreamSource[]) =>
+  list.sort((a, b) => a.priority - b.priority || a.label.localeCompare(b.label));
+
+// Shared walls first, then the user's own, each by name
+const sortWallLayouts = (list: WallLayoutWithTiles[]) =>
+  list.sort((a, b) => Number(a.ownerId !== null) - Number(b.ownerId !== null) || a.name.localeCompare(b.name));
+
+// Tiles in reading order, top row first
+const sortWallTiles = <T extends WallLayoutTile>(list: T[]) =>
+  list.sort((a, b) => a.y - b.y || a.x - b.x);
+
+// Program guide lookups - from/to select programs overlapping that window
+export interface ProgramFilter {
+  streamId?: string;
+  from?: string;
+  to?: string;
+}
+
+// Fields a playback beacon may change on an existing session
+export type PlaybackSessionUpdate = Partial<Pick<PlaybackSession, 'lastSeenAt' | 'endedAt' | 'error' | 'streamType' | 'source'>>;
+
+// Fields RecordingService changes as a recording runs
+export type RecordingUpdate = Partial<Pick<Recording, 'status' | 'startedAt' | 'endedAt' | 'durationSeconds' | 'sizeBytes' | 'error'>>;
+
+// Fields ClipService sets once a clip is cut
+export type ClipUpdate = Partial<Pick<Clip, 'status' | 'durationSeconds' | 'sizeBytes' | 'error'>>;
+
+// Fields VideoService sets once a transcode finishes
+export type VideoUpdate = Partial<Pick<Video, 'status' | 'durationSeconds' | 'sizeBytes' | 'error'>>;
+
 export interface IStorage {
   // Session store
   sessionStore: any;
@@ -27,9 +78,16 @@ export interface IStorage {
   getStreamsByCategory(category: string): Promise<Stream[]>;
   getStreamsByStudio(studioId: string): Promise<Stream[]>;
   getStream(id: string): Promise<Stream | undefined>;
+  getStreamByStreamId(streamId: string): Promise<Stream | undefined>;
+  getStreamByChannelNumber(channelNumber: number): Promise<Stream | undefined>;
   createStream(stream: InsertStream): Promise<Stream>;
   updateStream(id: string, stream: Partial<InsertStream>): Promise<Stream | undefined>;
   deleteStream(id: string): Promise<boolean>;
+  reorderStreams(streamIds: string[]): Promise<void>;
+  
+  // Stream source operations (backups for streams.url, in failover order)
+  getStreamSources(streamId: string): Promise<StreamSource[]>;
+  setStreamSources(streamId: string, sources: InsertStreamSource[]): Promise<StreamSource[]>;
   
   // Studio operations
   getAllStudios(): Promise<Studio[]>;
@@ -37,6 +95,74 @@ export interface IStorage {
   createStudio(studio: InsertStudio): Promise<Studio>;
   updateStudio(id: string, studio: Partial<InsertStudio>): Promise<Studio | undefined>;
   deleteStudio(id: string): Promise<boolean>;
+  
+  // Favorite operations (per user, oldest first)
+  getFavoriteStreams(userId: string): Promise<Stream[]>;
+  addFavorite(userId: string, streamId: string): Promise<UserFavorite>;
+  removeFavorite(userId: string, streamId: string): Promise<boolean>;
+  
+  // Watch history operations (per user, newest first)
+  getWatchHistory(userId: string, limit: number): Promise<WatchHistoryItem[]>;
+  startWatching(userId: string, streamId: string): Promise<WatchHistoryEntry>;
+  stopWatching(userId: string, entryId: string): Promise<WatchHistoryEntry | undefined>;
+  
+  // Playback preference operations (per user; fields left out of an update are kept)
+  getUserPreferences(userId: string): Promise<UserPreferences | undefined>;
+  updateUserPreferences(userId: string, update: UpdateUserPreferences): Promise<UserPreferences>;
+  
+  // Playback analytics operations
+  getPlaybackSessions(from: string, to: string): Promise<PlaybackSession[]>;
+  createPlaybackSession(session: InsertPlaybackSession): Promise<PlaybackSession>;
+  updatePlaybackSession(id: string, userId: string, update: PlaybackSessionUpdate): Promise<boolean>;
+  getPlaybackSession(id: string): Promise<PlaybackSession | undefined>;
+  getPlaybackStatsSamples(sessionId: string): Promise<PlaybackStatsSample[]>;
+  createPlaybackStatsSample(sample: InsertPlaybackStatsSample): Promise<PlaybackStatsSample>;
+  
+  // Wall layout operations (shared walls plus the user's own)
+  getWallLayouts(userId: string): Promise<WallLayoutWithTiles[]>;
+  getWallLayout(id: string): Promise<WallLayoutWithTiles | undefined>;
+  createWallLayout(ownerId: string | null, wall: InsertWallLayout): Promise<WallLayoutWithTiles>;
+  updateWallLayout(id: string, ownerId: string | null, wall: InsertWallLayout): Promise<WallLayoutWithTiles | undefined>;
+  deleteWallLayout(id: string): Promise<boolean>;
+  
+  // Recording operations (newest first)
+  getRecordings(): Promise<Recording[]>;
+  getRecording(id: string): Promise<Recording | undefined>;
+  createRecording(recording: InsertRecording): Promise<Recording>;
+  updateRecording(id: string, update: RecordingUpdate): Promise<Recording | undefined>;
+  deleteRecording(id: string): Promise<boolean>;
+  
+  // Clip operations (newest first)
+  getClips(): Promise<Clip[]>;
+  getClip(id: string): Promise<Clip | undefined>;
+  createClip(clip: InsertClip): Promise<Clip>;
+  updateClip(id: string, update: ClipUpdate): Promise<Clip | undefined>;
+  deleteClip(id: string): Promise<boolean>;
+  
+  // Video library operations (newest first)
+  getVideos(): Promise<Video[]>;
+  getVideo(id: string): Promise<Video | undefined>;
+  createVideo(video: InsertVideo): Promise<Video>;
+  updateVideo(id: string, update: VideoUpdate): Promise<Video | undefined>;
+  deleteVideo(id: string): Promise<boolean>;
+  getLibraryVideos(userId: string): Promise<LibraryVideo[]>; // ready videos only, with the user's resume positions
+  saveVideoProgress(userId: string, videoId: string, positionSeconds: number): Promise<VideoProgress>;
+  
+  // Category operations
+  getAllCategories(): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | undefined>;
+  getCategoryBySlug(slug: string): Promise<Category | undefined>;
+  createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(id: string): Promise<boolean>;
+  
+  // Program guide operations
+  getPrograms(filter?: ProgramFilter): Promise<Program[]>;
+  getProgram(id: string): Promise<Program | undefined>;
+  createProgram(program: InsertProgram): Promise<Program>;
+  updateProgram(id: string, program: Partial<InsertProgram>): Promise<Program | undefined>;
+  deleteProgram(id: string): Promise<boolean>;
+  replacePrograms(streamId: string, from: string, to: string, programs: InsertProgram[]): Promise<Program[]>;
 }
 
 const MemoryStore = createMemoryStore(session);
@@ -45,7 +171,21 @@ export class MemStorage implements IStorage {
   public sessionStore: any;
   private users: Map<string, User>;
   private streams: Map<string, Stream>;
+  private streamSources: Map<string, StreamSource>;
   private studios: Map<string, Studio>;
+  private programs: Map<string, Program>;
+  private categories: Map<string, Category>;
+  private favorites: Map<string, UserFavorite>;
+  private watchHistory: Map<string, WatchHistoryEntry>;
+  private userPreferences: Map<string, UserPreferences>;
+  private playbackSessions: Map<string, PlaybackSession>;
+  private playbackStatsSamples: Map<string, PlaybackStatsSample>;
+  private recordings: Map<string, Recording>;
+  private clips: Map<string, Clip>;
+  private videos: Map<string, Video>;
+  private videoProgress: Map<string, VideoProgress>;
+  private wallLayouts: Map<string, WallLayout>;
+  private wallTiles: Map<string, WallLayoutTile>;
 
   constructor() {
     this.sessionStore = new MemoryStore({
@@ -53,7 +193,21 @@ export class MemStorage implements IStorage {
     });
     this.users = new Map();
     this.streams = new Map();
+    this.streamSources = new Map();
     this.studios = new Map();
+    this.programs = new Map();
+    this.categories = new Map();
+    this.favorites = new Map();
+    this.watchHistory = new Map();
+    this.userPreferences = new Map();
+    this.playbackSessions = new Map();
+    this.playbackStatsSamples = new Map();
+    this.recordings = new Map();
+    this.clips = new Map();
+    this.videos = new Map();
+    this.videoProgress = new Map();
+    this.wallLayouts = new Map();
+    this.wallTiles = new Map();
     this.seedData();
   }
 
@@ -105,28 +259,42 @@ export class MemStorage implements IStorage {
 
   // Stream operations
   async getAllStreams(): Promise<Stream[]> {
-    return Array.from(this.streams.values());
+    return sortStreams(Array.from(this.streams.values()));
   }
 
   async getStreamsByCategory(category: string): Promise<Stream[]> {
-    return Array.from(this.streams.values()).filter(stream => stream.category === category);
+    return sortStreams(Array.from(this.streams.values()).filter(stream => stream.category === category));
   }
 
   async getStreamsByStudio(studioId: string): Promise<Stream[]> {
-    return Array.from(this.streams.values()).filter(stream => stream.studioId === studioId);
+    return sortStreams(Array.from(this.streams.values()).filter(stream => stream.studioId === studioId));
   }
 
   async getStream(id: string): Promise<Stream | undefined> {
     return this.streams.get(id);
   }
 
+  async getStreamByStreamId(streamId: string): Promise<Stream | undefined> {
+    return Array.from(this.streams.values()).find(stream => stream.streamId === streamId);
+  }
+
+  async getStreamByChannelNumber(channelNumber: number): Promise<Stream | undefined> {
+    return Array.from(this.streams.values()).find(stream => stream.channelNumber === channelNumber);
+  }
+
   async createStream(insertStream: InsertStream): Promise<Stream> {
     const id = randomUUID();
+    // New streams go to the end of their category unless a position is given
+    const categoryStreams = await this.getStreamsByCategory(insertStream.category);
     const stream: Stream = {
       ...insertStream,
       id,
       studioId: insertStream.studioId ?? null,
       streamType: insertStream.streamType ?? 'webrtc',
+      position: insertStream.position ?? Math.max(-1, ...categoryStreams.map(s => s.position)) + 1,
+      channelNumber: insertStream.channelNumber ?? null,
+      fallbackUrl: insertStream.fallbackUrl ?? null,
+      dvrWindowSeconds: insertStream.dvrWindowSeconds ?? 0,
     };
     this.streams.set(id, stream);
     
@@ -164,9 +332,76 @@ export class MemStorage implements IStorage {
       }
     }
     
+    // Remove the stream's sources, program guide entries, favorites, watch history and playback sessions
+    Array.from(this.streamSources.values())
+      .filter(source => source.streamId === id)
+      .forEach(source => this.streamSources.delete(source.id));
+    Array.from(this.programs.values())
+      .filter(program => program.streamId === id)
+      .forEach(program => this.programs.delete(program.id));
+    Array.from(this.favorites.values())
+      .filter(favorite => favorite.streamId === id)
+      .forEach(favorite => this.favorites.delete(favorite.id));
+    Array.from(this.watchHistory.values())
+      .filter(entry => entry.streamId === id)
+      .forEach(entry => this.watchHistory.delete(entry.id));
+    Array.from(this.playbackSessions.values())
+      .filter(session => session.streamId === id)
+      .forEach(session => this.playbackSessions.delete(session.id));
+    Array.from(this.playbackStatsSamples.values())
+      .filter(sample => !this.playbackSessions.has(sample.sessionId))
+      .forEach(sample => this.playbackStatsSamples.delete(sample.id));
+    
+    // Wall tiles stay in place so the wall can report the missing feed
+    Array.from(this.wallTiles.values())
+      .filter(tile => tile.streamId === id)
+      .forEach(tile => this.wallTiles.set(tile.id, { ...tile, streamId: null }));
+    
+    // Recordings are kept, named by the stream title they were made with
+    Array.from(this.recordings.values())
+      .filter(recording => recording.streamId === id)
+      .forEach(recording => this.recordings.set(recording.id, { ...recording, streamId: null }));
+    
+    Array.from(this.clips.values())
+      .filter(clip => clip.streamId === id)
+      .forEach(clip => this.clips.set(clip.id, { ...clip, streamId: null }));
+    
     return this.streams.delete(id);
   }
 
+  async reorderStreams(streamIds: string[]): Promise<void> {
+    streamIds.forEach((id, position) => {
+      const stream = this.streams.get(id);
+      if (stream) {
+        this.streams.set(id, { ...stream, position });
+      }
+    });
+  }
+
+  // Stream source operations
+  async getStreamSources(streamId: string): Promise<StreamSource[]> {
+    const sources = Array.from(this.streamSources.values()).filter(source => source.streamId === streamId);
+    return sortStreamSources(sources);
+  }
+
+  async setStreamSources(streamId: string, sources: InsertStreamSource[]): Promise<StreamSource[]> {
+    Array.from(this.streamSources.values())
+      .filter(source => source.streamId === streamId)
+      .forEach(source => this.streamSources.delete(source.id));
+    
+    sources.forEach(insertSource => {
+      const id = randomUUID();
+      const source: StreamSource = {
+        ...insertSource,
+        id,
+        streamId,
+        streamType: insertSource.streamType ?? detectStreamType(insertSource.url),
+      };
+      this.streamSources.set(id, source);
+    });
+    return this.getStreamSources(streamId);
+  }
+
   // Studio operations
   async getAllStudios(): Promise<Studio[]> {
     return Array.from(this.studios.values());
@@ -204,7 +439,456 @@ export class MemStorage implements IStorage {
     return this.studios.delete(id);
   }
 
+  // Favorite operations
+  async getFavoriteStreams(userId: string): Promise<Stream[]> {
+    return Array.from(this.favorites.values())
+      .filter(favorite => favorite.userId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(favorite => this.streams.get(favorite.streamId))
+      .filter((stream): stream is Stream => !!stream);
+  }
+
+  async addFavorite(userId: string, streamId: string): Promise<UserFavorite> {
+    const existing = Array.from(this.favorites.values())
+      .find(favorite => favorite.userId === userId && favorite.streamId === streamId);
+    if (existing) return existing;
+    
+    const id = randomUUID();
+    const favorite: UserFavorite = { id, userId, streamId, createdAt: new Date().toISOString() };
+    this.favorites.set(id, favorite);
+    return favorite;
+  }
+
+  async removeFavorite(userId: string, streamId: string): Promise<boolean> {
+    const existing = Array.from(this.favorites.values())
+      .find(favorite => favorite.userId === userId && favorite.streamId === streamId);
+    return existing ? this.favorites.delete(existing.id) : false;
+  }
+
+  // Watch history operations
+  async getWatchHistory(userId: string, limit: number): Promise<WatchHistoryItem[]> {
+    return Array.from(this.watchHistory.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .flatMap(entry => {
+        const stream = this.streams.get(entry.streamId);
+        return stream ? [{ ...entry, stream }] : [];
+      })
+      .slice(0, limit);
+  }
+
+  async startWatching(userId: string, streamId: string): Promise<WatchHistoryEntry> {
+    const id = randomUUID();
+    const entry: WatchHistoryEntry = {
+      id,
+      userId,
+      streamId,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+      durationSeconds: 0,
+    };
+    this.watchHistory.set(id, entry);
+    return entry;
+  }
+
+  async stopWatching(userId: string, entryId: string): Promise<WatchHistoryEntry | undefined> {
+    const existing = this.watchHistory.get(entryId);
+    if (!existing || existing.userId !== userId) return undefined;
+    if (existing.endedAt) return existing;
+    
+    const endedAt = new Date().toISOString();
+    const updated: WatchHistoryEntry = { ...existing, endedAt, durationSeconds: getWatchDuration(existing.startedAt, endedAt) };
+    this.watchHistory.set(entryId, updated);
+    return updated;
+  }
+
+  // Playback preference operations
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    return this.userPreferences.get(userId);
+  }
+
+  async updateUserPreferences(userId: string, update: UpdateUserPreferences): Promise<UserPreferences> {
+    const existing = this.userPreferences.get(userId);
+    const preferences: UserPreferences = {
+      userId,
+      audioLanguage: update.audioLanguage !== undefined ? update.audioLanguage : existing?.audioLanguage ?? null,
+      captionLanguage: update.captionLanguage !== undefined ? update.captionLanguage : existing?.captionLanguage ?? null,
+      updatedAt: new Date().toISOString(),
+    };
+    this.userPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  // Playback analytics operations
+  async getPlaybackSessions(from: string, to: string): Promise<PlaybackSession[]> {
+    return Array.from(this.playbackSessions.values())
+      .filter(session => session.startedAt < to && session.lastSeenAt >= from)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  async createPlaybackSession(insertSession: InsertPlaybackSession): Promise<PlaybackSession> {
+    // A repeated start beacon keeps the original session
+    const existing = this.playbackSessions.get(insertSession.id);
+    if (existing) return existing;
+    
+    const session: PlaybackSession = {
+      ...insertSession,
+      userId: insertSession.userId ?? null,
+      endedAt: insertSession.endedAt ?? null,
+      error: insertSession.error ?? null,
+      source: insertSession.source ?? null,
+    };
+    this.playbackSessions.set(session.id, session);
+    return session;
+  }
+
+  async updatePlaybackSession(id: string, userId: string, update: PlaybackSessionUpdate): Promise<boolean> {
+    const existing = this.playbackSessions.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    
+    this.playbackSessions.set(id, { ...existing, ...update });
+    return true;
+  }
+
+  async getPlaybackSession(id: string): Promise<PlaybackSession | undefined> {
+    return this.playbackSessions.get(id);
+  }
+
+  async getPlaybackStatsSamples(sessionId: string): Promise<PlaybackStatsSample[]> {
+    return Array.from(this.playbackStatsSamples.values())
+      .filter(sample => sample.sessionId === sessionId)
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  }
+
+  async createPlaybackStatsSample(insertSample: InsertPlaybackStatsSample): Promise<PlaybackStatsSample> {
+    const id = randomUUID();
+    const sample: PlaybackStatsSample = {
+      id,
+      sessionId: insertSample.sessionId,
+      recordedAt: insertSample.recordedAt,
+      width: insertSample.width ?? null,
+      height: insertSample.height ?? null,
+      fps: insertSample.fps ?? null,
+      bitrateKbps: insertSample.bitrateKbps ?? null,
+      packetLossPercent: insertSample.packetLossPercent ?? null,
+      jitterMs: insertSample.jitterMs ?? null,
+      rttMs: insertSample.rttMs ?? null,
+      bufferSeconds: insertSample.bufferSeconds ?? null,
+      qualityLevel: insertSample.qualityLevel ?? null,
+      droppedFrames: insertSample.droppedFrames ?? null,
+    };
+    this.playbackStatsSamples.set(id, sample);
+    return sample;
+  }
+
+  // Wall layout operations
+  private withWallTiles(layout: WallLayout): WallLayoutWithTiles {
+    const tiles = Array.from(this.wallTiles.values())
+      .filter(tile => tile.layoutId === layout.id)
+      .map(tile => ({ ...tile, stream: tile.streamId ? this.streams.get(tile.streamId) ?? null : null }));
+    return { ...layout, tiles: sortWallTiles(tiles) };
+  }
+
+  private setWallTiles(layoutId: string, wall: InsertWallLayout) {
+    Array.from(this.wallTiles.values())
+      .filter(tile => tile.layoutId === layoutId)
+      .forEach(tile => this.wallTiles.delete(tile.id));
+    
+    wall.tiles.forEach(insertTile => {
+      const id = randomUUID();
+      const tile: WallLayoutTile = {
+        ...insertTile,
+        id,
+        layoutId,
+        streamTitle: this.streams.get(insertTile.streamId)?.title ?? '',
+      };
+      this.wallTiles.set(id, tile);
+    });
+  }
+
+  async getWallLayouts(userId: string): Promise<WallLayoutWithTiles[]> {
+    const layouts = Array.from(this.wallLayouts.values())
+      .filter(layout => layout.ownerId === null || layout.ownerId === userId)
+      .map(layout => this.withWallTiles(layout));
+    return sortWallLayouts(layouts);
+  }
+
+  async getWallLayout(id: string): Promise<WallLayoutWithTiles | undefined> {
+    const layout = this.wallLayouts.get(id);
+    return layout ? this.withWallTiles(layout) : undefined;
+  }
+
+  async createWallLayout(ownerId: string | null, wall: InsertWallLayout): Promise<WallLayoutWithTiles> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const layout: WallLayout = { id, name: wall.name, ownerId, columns: wall.columns, rows: wall.rows, createdAt: now, updatedAt: now };
+    this.wallLayouts.set(id, layout);
+    this.setWallTiles(id, wall);
+    return this.withWallTiles(layout);
+  }
+
+  async updateWallLayout(id: string, ownerId: string | null, wall: InsertWallLayout): Promise<WallLayoutWithTiles | undefined> {
+    const existing = this.wallLayouts.get(id);
+    if (!existing) return undefined;
+    
+    const layout: WallLayout = { ...existing, name: wall.name, ownerId, columns: wall.columns, rows: wall.rows, updatedAt: new Date().toISOString() };
+    this.wallLayouts.set(id, layout);
+    this.setWallTiles(id, wall);
+    return this.withWallTiles(layout);
+  }
+
+  async deleteWallLayout(id: string): Promise<boolean> {
+    Array.from(this.wallTiles.values())
+      .filter(tile => tile.layoutId === id)
+      .forEach(tile => this.wallTiles.delete(tile.id));
+    return this.wallLayouts.delete(id);
+  }
+
+  // Recording operations
+  async getRecordings(): Promise<Recording[]> {
+    return Array.from(this.recordings.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getRecording(id: string): Promise<Recording | undefined> {
+    return this.recordings.get(id);
+  }
+
+  async createRecording(insertRecording: InsertRecording): Promise<Recording> {
+    const id = insertRecording.id ?? randomUUID();
+    const recording: Recording = {
+      ...insertRecording,
+      id,
+      streamId: insertRecording.streamId ?? null,
+      scheduledStart: insertRecording.scheduledStart ?? null,
+      scheduledEnd: insertRecording.scheduledEnd ?? null,
+      startedAt: insertRecording.startedAt ?? null,
+      endedAt: insertRecording.endedAt ?? null,
+      durationSeconds: insertRecording.durationSeconds ?? 0,
+      sizeBytes: insertRecording.sizeBytes ?? 0,
+      error: insertRecording.error ?? null,
+      createdBy: insertRecording.createdBy ?? null,
+    };
+    this.recordings.set(id, recording);
+    return recording;
+  }
+
+  async updateRecording(id: string, update: RecordingUpdate): Promise<Recording | undefined> {
+    const existing = this.recordings.get(id);
+    if (!existing) return undefined;
+    
+    const updated: Recording = { ...existing, ...update };
+    this.recordings.set(id, updated);
+    return updated;
+  }
+
+  async deleteRecording(id: string): Promise<boolean> {
+    return this.recordings.delete(id);
+  }
+
+  // Clip operations
+  async getClips(): Promise<Clip[]> {
+    return Array.from(this.clips.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getClip(id: string): Promise<Clip | undefined> {
+    return this.clips.get(id);
+  }
+
+  async createClip(insertClip: InsertClip): Promise<Clip> {
+    const id = insertClip.id ?? randomUUID();
+    const clip: Clip = {
+      ...insertClip,
+      id,
+      streamId: insertClip.streamId ?? null,
+      status: insertClip.status ?? "processing",
+      durationSeconds: insertClip.durationSeconds ?? 0,
+      sizeBytes: insertClip.sizeBytes ?? 0,
+      error: insertClip.error ?? null,
+      createdBy: insertClip.createdBy ?? null,
+      createdByUsername: insertClip.createdByUsername ?? null,
+    };
+    this.clips.set(id, clip);
+    return clip;
+  }
+
+  async updateClip(id: string, update: ClipUpdate): Promise<Clip | undefined> {
+    const existing = this.clips.get(id);
+    if (!existing) return undefined;
+    
+    const updated: Clip = { ...existing, ...update };
+    this.clips.set(id, updated);
+    return updated;
+  }
+
+  async deleteClip(id: string): Promise<boolean> {
+    return this.clips.delete(id);
+  }
+
+  // Video library operations
+  async getVideos(): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getVideo(id: string): Promise<Video | undefined> {
+    return this.videos.get(id);
+  }
+
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const id = insertVideo.id ?? randomUUID();
+    const video: Video = {
+      ...insertVideo,
+      id,
+      description: insertVideo.description ?? "",
+      status: insertVideo.status ?? "processing",
+      durationSeconds: insertVideo.durationSeconds ?? 0,
+      sizeBytes: insertVideo.sizeBytes ?? 0,
+      error: insertVideo.error ?? null,
+      uploadedBy: insertVideo.uploadedBy ?? null,
+    };
+    this.videos.set(id, video);
+    return video;
+  }
+
+  async updateVideo(id: string, update: VideoUpdate): Promise<Video | undefined> {
+    const existing = this.videos.get(id);
+    if (!existing) return undefined;
+    
+    const updated: Video = { ...existing, ...update };
+    this.videos.set(id, updated);
+    return updated;
+  }
+
+  async deleteVideo(id: string): Promise<boolean> {
+    // Cascade to resume positions, as the database does
+    Array.from(this.videoProgress.values())
+      .filter(progress => progress.videoId === id)
+      .forEach(progress => this.videoProgress.delete(progress.id));
+    return this.videos.delete(id);
+  }
+
+  async getLibraryVideos(userId: string): Promise<LibraryVideo[]> {
+    const positions = new Map(
+      Array.from(this.videoProgress.values())
+        .filter(progress => progress.userId === userId)
+        .map(progress => [progress.videoId, progress.positionSeconds]),
+    );
+    return (await this.getVideos())
+      .filter(video => video.status === "ready")
+      .map(video => ({ ...video, positionSeconds: positions.get(video.id) ?? 0 }));
+  }
+
+  async saveVideoProgress(userId: string, videoId: string, positionSeconds: number): Promise<VideoProgress> {
+    const existing = Array.from(this.videoProgress.values())
+      .find(progress => progress.userId === userId && progress.videoId === videoId);
+    const progress: VideoProgress = {
+      id: existing?.id ?? randomUUID(),
+      userId,
+      videoId,
+      positionSeconds,
+      updatedAt: new Date().toISOString(),
+    };
+    this.videoProgress.set(progress.id, progress);
+    return progress;
+  }
+
+  // Category operations
+  async getAllCategories(): Promise<Category[]> {
+    return sortCategories(Array.from(this.categories.values()));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    return Array.from(this.categories.values()).find(category => category.slug === slug);
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const id = randomUUID();
+    const category: Category = {
+      ...insertCategory,
+      id,
+      sortOrder: insertCategory.sortOrder ?? 0,
+      icon: insertCategory.icon ?? 'tv',
+      visible: insertCategory.visible ?? true,
+    };
+    this.categories.set(id, category);
+    return category;
+  }
+
+  async updateCategory(id: string, updateData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const existing = this.categories.get(id);
+    if (!existing) return undefined;
+    
+    // Streams point at the slug, so carry them over when it is renamed
+    if (updateData.slug && updateData.slug !== existing.slug) {
+      Array.from(this.streams.values())
+        .filter(stream => stream.category === existing.slug)
+        .forEach(stream => stream.category = updateData.slug!);
+    }
+    
+    const updated: Category = { ...existing, ...updateData };
+    this.categories.set(id, updated);
+    return updated;
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    return this.categories.delete(id);
+  }
+
+  // Program guide operations
+  async getPrograms(filter: ProgramFilter = {}): Promise<Program[]> {
+    return Array.from(this.programs.values())
+      .filter(program =>
+        (!filter.streamId || program.streamId === filter.streamId) &&
+        (!filter.from || program.endTime > filter.from) &&
+        (!filter.to || program.startTime < filter.to)
+      )
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  async getProgram(id: string): Promise<Program | undefined> {
+    return this.programs.get(id);
+  }
+
+  async createProgram(insertProgram: InsertProgram): Promise<Program> {
+    const id = randomUUID();
+    const program: Program = {
+      ...insertProgram,
+      id,
+      description: insertProgram.description ?? '',
+    };
+    this.programs.set(id, program);
+    return program;
+  }
+
+  async updateProgram(id: string, updateData: Partial<InsertProgram>): Promise<Program | undefined> {
+    const existing = this.programs.get(id);
+    if (!existing) return undefined;
+    
+    const updated: Program = { ...existing, ...updateData };
+    this.programs.set(id, updated);
+    return updated;
+  }
+
+  async deleteProgram(id: string): Promise<boolean> {
+    return this.programs.delete(id);
+  }
+
+  async replacePrograms(streamId: string, from: string, to: string, newPrograms: InsertProgram[]): Promise<Program[]> {
+    const existing = await this.getPrograms({ streamId, from, to });
+    existing.forEach(program => this.programs.delete(program.id));
+    
+    return Promise.all(newPrograms.map(program => this.createProgram(program)));
+  }
+
   private seedData(): void {
+    DEFAULT_CATEGORIES.forEach(category => this.createCategory(category));
+    
     // Seed initial studio data
     const studioData: Omit<Studio, 'id'>[] = [
       {
@@ -253,7 +937,7 @@ export class MemStorage implements IStorage {
     });
 
     // Seed initial stream data
-    const streamDataEntries: Omit<Stream, 'id'>[] = [
+    const streamDataEntries: Omit<Stream, 'id' | 'position' | 'channelNumber' | 'fallbackUrl' | 'dvrWindowSeconds'>[] = [
       // Featured streams
       {
         title: 'Featured Live Production',
@@ -572,9 +1256,11 @@ export class MemStorage implements IStorage {
       }
     ];
 
-    streamDataEntries.forEach(streamEntry => {
+    // Seeded streams are numbered 1..n in seed order
+    streamDataEntries.forEach((streamEntry, index) => {
       const id = randomUUID();
-      const newStream: Stream = { ...streamEntry, id };
+      const position = Array.from(this.streams.values()).filter(s => s.category === streamEntry.category).length;
+      const newStream: Stream = { ...streamEntry, id, position, channelNumber: index + 1, fallbackUrl: null, dvrWindowSeconds: 0 };
       this.streams.set(id, newStream);
     });
   }
@@ -650,26 +1336,54 @@ export class DatabaseStorage implements IStorage {
 
   // Stream operations
   async getAllStreams(): Promise<Stream[]> {
-    return await db.select().from(streams);
+    return await db.select().from(streams).orderBy(asc(streams.position), asc(streams.title));
   }
 
   async getStreamsByCategory(category: string): Promise<Stream[]> {
-    return await db.select().from(streams).where(eq(streams.category, category));
+    return await db
+      .select()
+      .from(streams)
+      .where(eq(streams.category, category))
+      .orderBy(asc(streams.position), asc(streams.title));
   }
 
   async getStreamsByStudio(studioId: string): Promise<Stream[]> {
-    return await db.select().from(streams).where(eq(streams.studioId, studioId));
+    return await db
+      .select()
+      .from(streams)
+      .where(eq(streams.studioId, studioId))
+      .orderBy(asc(streams.position), asc(streams.title));
   }
 
   async getStream(id: string): Promise<Stream | undefined> {
     const [stream] = await db.select().from(streams).where(eq(streams.id, id));
     return stream || undefined;
   }
+  async getStreamByStreamId(streamId: string): Promise<Stream | undefined> {
+    const [stream] = await db.select().from(streams).where(eq(streams.streamId, streamId));
+    return stream || undefined;
+  }
+
+  async getStreamByChannelNumber(channelNumber: number): Promise<Stream | undefined> {
+    const [stream] = await db.select().from(streams).where(eq(streams.channelNumber, channelNumber));
+    return stream || undefined;
+  }
+
 
   async createStream(insertStream: InsertStream): Promise<Stream> {
+    // New streams go to the end of their category unless a position is given
+    let position = insertStream.position;
+    if (position === undefined) {
+      const [last] = await db
+        .select({ position: max(streams.position) })
+        .from(streams)
+        .where(eq(streams.category, insertStream.category));
+      position = (last?.position ?? -1) + 1;
+    }
+    
     const [stream] = await db
       .insert(streams)
-      .values(insertStream)
+      .values({ ...insertStream, position })
       .returning();
     
     // Update feed count for associated studio
@@ -714,6 +1428,37 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async reorderStreams(streamIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [position, id] of Array.from(streamIds.entries())) {
+        await tx.update(streams).set({ position }).where(eq(streams.id, id));
+      }
+    });
+  }
+
+  // Stream source operations
+  async getStreamSources(streamId: string): Promise<StreamSource[]> {
+    return await db
+      .select()
+      .from(streamSources)
+      .where(eq(streamSources.streamId, streamId))
+      .orderBy(asc(streamSources.priority), asc(streamSources.label));
+  }
+
+  async setStreamSources(streamId: string, sources: InsertStreamSource[]): Promise<StreamSource[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(streamSources).where(eq(streamSources.streamId, streamId));
+      if (sources.length > 0) {
+        await tx.insert(streamSources).values(sources.map(source => ({
+          ...source,
+          streamId,
+          streamType: source.streamType ?? detectStreamType(source.url),
+        })));
+      }
+    });
+    return this.getStreamSources(streamId);
+  }
+
   // Studio operations
   async getAllStudios(): Promise<Studio[]> {
     return await db.select().from(studios);
@@ -748,6 +1493,452 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(studios).where(eq(studios.id, id)).returning();
     return result.length > 0;
   }
+
+  // Favorite operations
+  async getFavoriteStreams(userId: string): Promise<Stream[]> {
+    const rows = await db
+      .select({ stream: streams })
+      .from(userFavorites)
+      .innerJoin(streams, eq(userFavorites.streamId, streams.id))
+      .where(eq(userFavorites.userId, userId))
+      .orderBy(asc(userFavorites.createdAt));
+    return rows.map(row => row.stream);
+  }
+
+  async addFavorite(userId: string, streamId: string): Promise<UserFavorite> {
+    const [favorite] = await db
+      .insert(userFavorites)
+      .values({ userId, streamId })
+      .onConflictDoNothing()
+      .returning();
+    if (favorite) return favorite;
+    
+    // Already a favorite - adding is idempotent
+    const [existing] = await db
+      .select()
+      .from(userFavorites)
+      .where(and(eq(userFavorites.userId, userId), eq(userFavorites.streamId, streamId)));
+    return existing;
+  }
+
+  async removeFavorite(userId: string, streamId: string): Promise<boolean> {
+    const result = await db
+      .delete(userFavorites)
+      .where(and(eq(userFavorites.userId, userId), eq(userFavorites.streamId, streamId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Watch history operations
+  async getWatchHistory(userId: string, limit: number): Promise<WatchHistoryItem[]> {
+    const rows = await db
+      .select({ entry: watchHistory, stream: streams })
+      .from(watchHistory)
+      .innerJoin(streams, eq(watchHistory.streamId, streams.id))
+      .where(eq(watchHistory.userId, userId))
+      .orderBy(desc(watchHistory.startedAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row.entry, stream: row.stream }));
+  }
+
+  async startWatching(userId: string, streamId: string): Promise<WatchHistoryEntry> {
+    const [entry] = await db
+      .insert(watchHistory)
+      .values({ userId, streamId, startedAt: new Date().toISOString() })
+      .returning();
+    return entry;
+  }
+
+  async stopWatching(userId: string, entryId: string): Promise<WatchHistoryEntry | undefined> {
+    const [existing] = await db
+      .select()
+      .from(watchHistory)
+      .where(and(eq(watchHistory.id, entryId), eq(watchHistory.userId, userId)));
+    if (!existing) return undefined;
+    if (existing.endedAt) return existing;
+    
+    const endedAt = new Date().toISOString();
+    const [updated] = await db
+      .update(watchHistory)
+      .set({ endedAt, durationSeconds: getWatchDuration(existing.startedAt, endedAt) })
+      .where(eq(watchHistory.id, entryId))
+      .returning();
+    return updated;
+  }
+
+  // Playback preference operations
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    const [preferences] = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return preferences || undefined;
+  }
+
+  async updateUserPreferences(userId: string, update: UpdateUserPreferences): Promise<UserPreferences> {
+    const updatedAt = new Date().toISOString();
+    const [preferences] = await db
+      .insert(userPreferences)
+      .values({ userId, ...update, updatedAt })
+      .onConflictDoUpdate({ target: userPreferences.userId, set: { ...update, updatedAt } })
+      .returning();
+    return preferences;
+  }
+
+  // Playback analytics operations
+  async getPlaybackSessions(from: string, to: string): Promise<PlaybackSession[]> {
+    return await db
+      .select()
+      .from(playbackSessions)
+      .where(and(lt(playbackSessions.startedAt, to), gte(playbackSessions.lastSeenAt, from)))
+      .orderBy(asc(playbackSessions.startedAt));
+  }
+
+  async createPlaybackSession(insertSession: InsertPlaybackSession): Promise<PlaybackSession> {
+    const [session] = await db
+      .insert(playbackSessions)
+      .values(insertSession)
+      .onConflictDoNothing()
+      .returning();
+    if (session) return session;
+    
+    // A repeated start beacon keeps the original session
+    const [existing] = await db.select().from(playbackSessions).where(eq(playbackSessions.id, insertSession.id));
+    return existing;
+  }
+
+  async updatePlaybackSession(id: string, userId: string, update: PlaybackSessionUpdate): Promise<boolean> {
+    const result = await db
+      .update(playbackSessions)
+      .set(update)
+      .where(and(eq(playbackSessions.id, id), eq(playbackSessions.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getPlaybackSession(id: string): Promise<PlaybackSession | undefined> {
+    const [session] = await db.select().from(playbackSessions).where(eq(playbackSessions.id, id));
+    return session || undefined;
+  }
+
+  async getPlaybackStatsSamples(sessionId: string): Promise<PlaybackStatsSample[]> {
+    return await db
+      .select()
+      .from(playbackStatsSamples)
+      .where(eq(playbackStatsSamples.sessionId, sessionId))
+      .orderBy(asc(playbackStatsSamples.recordedAt));
+  }
+
+  async createPlaybackStatsSample(insertSample: InsertPlaybackStatsSample): Promise<PlaybackStatsSample> {
+    const [sample] = await db
+      .insert(playbackStatsSamples)
+      .values(insertSample)
+      .returning();
+    return sample;
+  }
+
+  // Wall layout operations
+  private async withWallTiles(layouts: WallLayout[]): Promise<WallLayoutWithTiles[]> {
+    if (layouts.length === 0) return [];
+    
+    const rows = await db
+      .select({ tile: wallLayoutTiles, stream: streams })
+      .from(wallLayoutTiles)
+      .leftJoin(streams, eq(wallLayoutTiles.streamId, streams.id))
+      .where(inArray(wallLayoutTiles.layoutId, layouts.map(layout => layout.id)));
+    
+    return layouts.map(layout => ({
+      ...layout,
+      tiles: sortWallTiles(rows
+        .filter(row => row.tile.layoutId === layout.id)
+        .map(row => ({ ...row.tile, stream: row.stream }))),
+    }));
+  }
+
+  // Tile rows for a wall, with the current stream titles remembered for when a feed goes missing
+  private async getWallTileValues(layoutId: string, wall: InsertWallLayout) {
+    const wallStreams = await db
+      .select()
+      .from(streams)
+      .where(inArray(streams.id, wall.tiles.map(tile => tile.streamId)));
+    
+    return wall.tiles.map(tile => ({
+      ...tile,
+      layoutId,
+      streamTitle: wallStreams.find(stream => stream.id === tile.streamId)?.title ?? '',
+    }));
+  }
+
+  async getWallLayouts(userId: string): Promise<WallLayoutWithTiles[]> {
+    const layouts = await db
+      .select()
+      .from(wallLayouts)
+      .where(or(isNull(wallLayouts.ownerId), eq(wallLayouts.ownerId, userId)));
+    return sortWallLayouts(await this.withWallTiles(layouts));
+  }
+
+  async getWallLayout(id: string): Promise<WallLayoutWithTiles | undefined> {
+    const [layout] = await db.select().from(wallLayouts).where(eq(wallLayouts.id, id));
+    if (!layout) return undefined;
+    const [withTiles] = await this.withWallTiles([layout]);
+    return withTiles;
+  }
+
+  async createWallLayout(ownerId: string | null, wall: InsertWallLayout): Promise<WallLayoutWithTiles> {
+    const id = await db.transaction(async (tx) => {
+      const [layout] = await tx
+        .insert(wallLayouts)
+        .values({ name: wall.name, ownerId, columns: wall.columns, rows: wall.rows })
+        .returning();
+      await tx.insert(wallLayoutTiles).values(await this.getWallTileValues(layout.id, wall));
+      return layout.id;
+    });
+    return (await this.getWallLayout(id))!;
+  }
+
+  async updateWallLayout(id: string, ownerId: string | null, wall: InsertWallLayout): Promise<WallLayoutWithTiles | undefined> {
+    // Tiles are replaced wholesale, in the same transaction as the layout itself
+    const tileValues = await this.getWallTileValues(id, wall);
+    const updated = await db.transaction(async (tx) => {
+      const [layout] = await tx
+        .update(wallLayouts)
+        .set({ name: wall.name, ownerId, columns: wall.columns, rows: wall.rows, updatedAt: new Date().toISOString() })
+        .where(eq(wallLayouts.id, id))
+        .returning();
+      if (!layout) return false;
+      
+      await tx.delete(wallLayoutTiles).where(eq(wallLayoutTiles.layoutId, id));
+      await tx.insert(wallLayoutTiles).values(tileValues);
+      return true;
+    });
+    return updated ? await this.getWallLayout(id) : undefined;
+  }
+
+  async deleteWallLayout(id: string): Promise<boolean> {
+    const result = await db.delete(wallLayouts).where(eq(wallLayouts.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Recording operations
+  async getRecordings(): Promise<Recording[]> {
+    return await db.select().from(recordings).orderBy(desc(recordings.createdAt));
+  }
+
+  async getRecording(id: string): Promise<Recording | undefined> {
+    const [recording] = await db.select().from(recordings).where(eq(recordings.id, id));
+    return recording || undefined;
+  }
+
+  async createRecording(insertRecording: InsertRecording): Promise<Recording> {
+    const [recording] = await db
+      .insert(recordings)
+      .values(insertRecording)
+      .returning();
+    return recording;
+  }
+
+  async updateRecording(id: string, update: RecordingUpdate): Promise<Recording | undefined> {
+    const [recording] = await db
+      .update(recordings)
+      .set(update)
+      .where(eq(recordings.id, id))
+      .returning();
+    return recording || undefined;
+  }
+
+  async deleteRecording(id: string): Promise<boolean> {
+    const result = await db.delete(recordings).where(eq(recordings.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Clip operations
+  async getClips(): Promise<Clip[]> {
+    return await db.select().from(clips).orderBy(desc(clips.createdAt));
+  }
+
+  async getClip(id: string): Promise<Clip | undefined> {
+    const [clip] = await db.select().from(clips).where(eq(clips.id, id));
+    return clip || undefined;
+  }
+
+  async createClip(insertClip: InsertClip): Promise<Clip> {
+    const [clip] = await db
+      .insert(clips)
+      .values(insertClip)
+      .returning();
+    return clip;
+  }
+
+  async updateClip(id: string, update: ClipUpdate): Promise<Clip | undefined> {
+    const [clip] = await db
+      .update(clips)
+      .set(update)
+      .where(eq(clips.id, id))
+      .returning();
+    return clip || undefined;
+  }
+
+  async deleteClip(id: string): Promise<boolean> {
+    const result = await db.delete(clips).where(eq(clips.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Video library operations
+  async getVideos(): Promise<Video[]> {
+    return await db.select().from(videos).orderBy(desc(videos.createdAt));
+  }
+
+  async getVideo(id: string): Promise<Video | undefined> {
+    const [video] = await db.select().from(videos).where(eq(videos.id, id));
+    return video || undefined;
+  }
+
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const [video] = await db
+      .insert(videos)
+      .values(insertVideo)
+      .returning();
+    return video;
+  }
+
+  async updateVideo(id: string, update: VideoUpdate): Promise<Video | undefined> {
+    const [video] = await db
+      .update(videos)
+      .set(update)
+      .where(eq(videos.id, id))
+      .returning();
+    return video || undefined;
+  }
+
+  async deleteVideo(id: string): Promise<boolean> {
+    const result = await db.delete(videos).where(eq(videos.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getLibraryVideos(userId: string): Promise<LibraryVideo[]> {
+    const rows = await db
+      .select({ video: videos, positionSeconds: videoProgress.positionSeconds })
+      .from(videos)
+      .leftJoin(videoProgress, and(eq(videoProgress.videoId, videos.id), eq(videoProgress.userId, userId)))
+      .where(eq(videos.status, "ready"))
+      .orderBy(desc(videos.createdAt));
+    return rows.map(row => ({ ...row.video, positionSeconds: row.positionSeconds ?? 0 }));
+  }
+
+  async saveVideoProgress(userId: string, videoId: string, positionSeconds: number): Promise<VideoProgress> {
+    const updatedAt = new Date().toISOString();
+    const [progress] = await db
+      .insert(videoProgress)
+      .values({ userId, videoId, positionSeconds, updatedAt })
+      .onConflictDoUpdate({ target: [videoProgress.userId, videoProgress.videoId], set: { positionSeconds, updatedAt } })
+      .returning();
+    return progress;
+  }
+
+  // Category operations
+  async getAllCategories(): Promise<Category[]> {
+    return await db
+      .select()
+      .from(categories)
+      .orderBy(asc(categories.sortOrder), asc(categories.label));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category || undefined;
+  }
+
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.slug, slug));
+    return category || undefined;
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const [category] = await db
+      .insert(categories)
+      .values(insertCategory)
+      .returning();
+    return category;
+  }
+
+  async updateCategory(id: string, updateData: Partial<InsertCategory>): Promise<Category | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(categories).where(eq(categories.id, id));
+      if (!existing) return undefined;
+      
+      // Streams point at the slug, so carry them over when it is renamed
+      if (updateData.slug && updateData.slug !== existing.slug) {
+        await tx
+          .update(streams)
+          .set({ category: updateData.slug })
+          .where(eq(streams.category, existing.slug));
+      }
+      
+      const [updated] = await tx
+        .update(categories)
+        .set(updateData)
+        .where(eq(categories.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    const result = await db.delete(categories).where(eq(categories.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Program guide operations
+  async getPrograms(filter: ProgramFilter = {}): Promise<Program[]> {
+    const conditions: SQL[] = [];
+    if (filter.streamId) conditions.push(eq(programs.streamId, filter.streamId));
+    if (filter.from) conditions.push(gt(programs.endTime, filter.from));
+    if (filter.to) conditions.push(lt(programs.startTime, filter.to));
+    
+    return await db
+      .select()
+      .from(programs)
+      .where(and(...conditions))
+      .orderBy(asc(programs.startTime));
+  }
+
+  async getProgram(id: string): Promise<Program | undefined> {
+    const [program] = await db.select().from(programs).where(eq(programs.id, id));
+    return program || undefined;
+  }
+
+  async createProgram(insertProgram: InsertProgram): Promise<Program> {
+    const [program] = await db
+      .insert(programs)
+      .values(insertProgram)
+      .returning();
+    return program;
+  }
+
+  async updateProgram(id: string, updateData: Partial<InsertProgram>): Promise<Program | undefined> {
+    const [updated] = await db
+      .update(programs)
+      .set(updateData)
+      .where(eq(programs.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteProgram(id: string): Promise<boolean> {
+    const result = await db.delete(programs).where(eq(programs.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async replacePrograms(streamId: string, from: string, to: string, newPrograms: InsertProgram[]): Promise<Program[]> {
+    // Swap the whole window in one transaction so the guide never shows a half-imported schedule
+    return await db.transaction(async (tx) => {
+      await tx.delete(programs).where(and(
+        eq(programs.streamId, streamId),
+        gt(programs.endTime, from),
+        lt(programs.startTime, to)
+      ));
+      
+      if (newPrograms.length === 0) return [];
+      return await tx.insert(programs).values(newPrograms).returning();
+    });
+  }
 }
 
 // Switch to database storage
@@ -762,6 +1953,15 @@ const USER_PASSCODE = process.env.USER_PASSCODE || '1111';
 // Database seeding function - now lighter weight for runtime, main seeding happens at build time
 export async function seedDatabase() {
   try {
+    // Categories drive the home screen, so databases created before they existed get the defaults
+    const existingCategories = await storage.getAllCategories();
+    if (existingCategories.length === 0) {
+      for (const category of DEFAULT_CATEGORIES) {
+        await storage.createCategory(category);
+      }
+      console.log(`Seeded ${DEFAULT_CATEGORIES.length} default categories`);
+    }
+    
     // Quick check if database is populated - if so, skip runtime seeding
     const existingStudios = await storage.getAllStudios();
     if (existingStudios.length > 0) {
@@ -0,0 +1,292 @@
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import type { HlsVariantInfo, StreamMediaInfo, StreamProbeCheck, StreamProbeResult } from '../shared/schema';
+import { convertWebRtcToWhep, convertWhepToHttpHls, detectStreamType, normalizeHlsUrl } from '../shared/streamUrls';
+
+const PROBE_TIMEOUT = 10000; // 10 seconds per request
+const FFPROBE_TIMEOUT = 20000; // ffprobe has to open the stream and read a few packets
+
+function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  return fetch(url, { ...init, signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      return `Timed out after ${PROBE_TIMEOUT / 1000}s`;
+    }
+    const cause = (error as Error & { cause?: { code?: string } }).cause;
+    return cause?.code ? `${error.message} (${cause.code})` : error.message;
+  }
+  return String(error);
+}
+
+/**
+ * Read the variant streams out of an HLS master playlist (empty for media playlists)
+ */
+export function parseHlsVariants(playlist: string): HlsVariantInfo[] {
+  return playlist
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('#EXT-X-STREAM-INF:'))
+    .map(line => {
+      const attributes = line.slice('#EXT-X-STREAM-INF:'.length);
+      const bandwidth = attributes.match(/(?:^|,)BANDWIDTH=(\d+)/);
+      const resolution = attributes.match(/(?:^|,)RESOLUTION=(\d+x\d+)/);
+      const codecs = attributes.match(/(?:^|,)CODECS="([^"]*)"/);
+      return {
+        bandwidth: bandwidth ? Number(bandwidth[1]) : null,
+        resolution: resolution ? resolution[1] : null,
+        codecs: codecs ? codecs[1] : null,
+      };
+    });
+}
+
+/**
+ * Minimal receive-only offer, enough for a WHEP server to answer with the codecs it will send
+ */
+function createWhepOffer(): string {
+  const sessionId = randomBytes(4).readUInt32BE();
+  const iceUfrag = randomBytes(4).toString('hex');
+  const icePwd = randomBytes(12).toString('hex');
+  const fingerprint = Array.from(randomBytes(32), byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+
+  const media = (kind: 'audio' | 'video', mid: number, payloads: string[]) => [
+    `m=${kind} 9 UDP/TLS/RTP/SAVPF ${payloads.map((_, index) => 96 + mid * 10 + index).join(' ')}`,
+    'c=IN IP4 0.0.0.0',
+    `a=ice-ufrag:${iceUfrag}`,
+    `a=ice-pwd:${icePwd}`,
+    `a=fingerprint:sha-256 ${fingerprint}`,
+    'a=setup:actpass',
+    `a=mid:${mid}`,
+    'a=recvonly',
+    'a=rtcp-mux',
+    ...payloads.map((payload, index) => `a=rtpmap:${96 + mid * 10 + index} ${payload}`),
+  ];
+
+  return [
+    'v=0',
+    `o=- ${sessionId} 2 IN IP4 127.0.0.1`,
+    's=-',
+    't=0 0',
+    'a=group:BUNDLE 0 1',
+    ...media('audio', 0, ['opus/48000/2']),
+    ...media('video', 1, ['H264/90000', 'VP8/90000', 'VP9/90000']),
+  ].join('\r\n') + '\r\n';
+}
+
+/**
+ * Codec names from an SDP answer, in the order the server offered them
+ */
+function parseSdpCodecs(sdp: string): string[] {
+  const codecs = Array.from(sdp.matchAll(/^a=rtpmap:\d+ ([^/\r\n]+)/gm), match => match[1]);
+  return Array.from(new Set(codecs.filter(codec => !['rtx', 'red', 'ulpfec'].includes(codec.toLowerCase()))));
+}
+
+/**
+ * Run ffprobe against the stream for codecs, resolution and frame rate
+ */
+function runFfprobe(url: string): Promise<{ media: StreamMediaInfo | null; error: string | null }> {
+  return new Promise(resolve => {
+    const args = [
+      '-v', 'error',
+      '-rw_timeout', String(PROBE_TIMEOUT * 1000), // microseconds
+      '-show_entries', 'stream=codec_type,codec_name,width,height,avg_frame_rate',
+      '-of', 'json',
+      url,
+    ];
+
+    const ffprobe = spawn('ffprobe', args);
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+
+    const finish = (result: { media: StreamMediaInfo | null; error: string | null }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      ffprobe.kill('SIGKILL');
+      finish({ media: null, error: `ffprobe timed out after ${FFPROBE_TIMEOUT / 1000}s` });
+    }, FFPROBE_TIMEOUT);
+
+    ffprobe.stdout.on('data', data => { stdout += data.toString(); });
+    ffprobe.stderr.on('data', data => { stderr += data.toString(); });
+
+    ffprobe.on('error', (error: NodeJS.ErrnoException) => {
+      finish({ media: null, error: error.code === 'ENOENT' ? 'ffprobe is not installed on the server' : error.message });
+    });
+
+    ffprobe.on('close', code => {
+      if (code !== 0) {
+        finish({ media: null, error: stderr.trim().split('\n').pop() || `ffprobe exited with code ${code}` });
+        return;
+      }
+
+      try {
+        const streams: Array<Record<string, any>> = JSON.parse(stdout).streams ?? [];
+        const video = streams.find(stream => stream.codec_type === 'video');
+        const audio = streams.find(stream => stream.codec_type === 'audio');
+        if (!video && !audio) {
+          finish({ media: null, error: 'No audio or video tracks found' });
+          return;
+        }
+
+        // avg_frame_rate is a fraction such as "30000/1001"
+        const [numerator, denominator] = String(video?.avg_frame_rate ?? '0/0').split('/').map(Number);
+        finish({
+          media: {
+            videoCodec: video?.codec_name ?? null,
+            audioCodec: audio?.codec_name ?? null,
+            width: video?.width ?? null,
+            height: video?.height ?? null,
+            frameRate: denominator ? Math.round((numerator / denominator) * 100) / 100 : null,
+          },
+          error: null,
+        });
+      } catch (error) {
+        finish({ media: null, error: 'Could not parse ffprobe output' });
+      }
+    });
+  });
+}
+
+async function probeHls(url: string, checks: StreamProbeCheck[], result: StreamProbeResult): Promise<string | null> {
+  const manifestUrl = normalizeHlsUrl(url);
+  if (!/^https?:\/\//i.test(manifestUrl)) {
+    result.error = 'HLS URLs must use http://, https:// or hls://';
+    checks.push({ name: 'Manifest', ok: false, detail: result.error });
+    return null;
+  }
+
+  const startedAt = Date.now();
+  try {
+    const response = await fetchWithTimeout(manifestUrl, { method: 'GET' });
+    result.responseTimeMs = Date.now() - startedAt;
+    if (!response.ok) {
+      result.error = `Manifest returned HTTP ${response.status}`;
+      checks.push({ name: 'Manifest', ok: false, detail: result.error });
+      return null;
+    }
+
+    const body = await response.text();
+    if (!body.includes('#EXTM3U')) {
+      result.error = 'Response is not an HLS playlist';
+      checks.push({ name: 'Manifest', ok: false, detail: result.error });
+      return null;
+    }
+
+    result.variants = parseHlsVariants(body);
+    checks.push({
+      name: 'Manifest',
+      ok: true,
+      detail: result.variants.length > 0
+        ? `Master playlist with ${result.variants.length} variant${result.variants.length === 1 ? '' : 's'}`
+        : 'Media playlist',
+    });
+    result.ok = true;
+    return manifestUrl;
+  } catch (error) {
+    result.error = describeError(error);
+    checks.push({ name: 'Manifest', ok: false, detail: result.error });
+    return null;
+  }
+}
+
+async function probeWhep(url: string, checks: StreamProbeCheck[], result: StreamProbeResult): Promise<string | null> {
+  const whepUrl = url.startsWith('webrtc://') ? convertWebRtcToWhep(url) : url;
+  if (!whepUrl || !/^https?:\/\//i.test(whepUrl)) {
+    result.error = 'Unsupported WebRTC URL';
+    checks.push({ name: 'WHEP offer', ok: false, detail: result.error });
+    return null;
+  }
+
+  const startedAt = Date.now();
+  try {
+    const response = await fetchWithTimeout(whepUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp' },
+      body: createWhepOffer(),
+    });
+    result.responseTimeMs = Date.now() - startedAt;
+
+    const answer = await response.text();
+    if (!response.ok || !answer.startsWith('v=0')) {
+      result.error = response.ok ? 'WHEP endpoint did not return an SDP answer' : `WHEP endpoint returned HTTP ${response.status}`;
+      checks.push({ name: 'WHEP offer', ok: false, detail: result.error });
+      return null;
+    }
+
+    const codecs = parseSdpCodecs(answer);
+    checks.push({ name: 'WHEP offer', ok: true, detail: codecs.length > 0 ? `Answered with ${codecs.join(', ')}` : 'Answered' });
+    result.ok = true;
+
+    // Nobody will connect to this session, so release it straight away
+    const location = response.headers.get('location');
+    if (location) {
+      fetchWithTimeout(new URL(location, whepUrl).toString(), { method: 'DELETE' }).catch(() => {});
+    }
+  } catch (error) {
+    result.error = describeError(error);
+    checks.push({ name: 'WHEP offer', ok: false, detail: result.error });
+    return null;
+  }
+
+  // ffprobe cannot speak WHEP, so read media info from the SRS HTTP-HLS mirror when there is one
+  const protocol = process.env.SRS_FORCE_HTTPS === 'true' ? 'https' : 'http';
+  const hlsUrl = convertWhepToHttpHls(whepUrl, 'probe', protocol);
+  if (!hlsUrl) return null;
+
+  try {
+    const response = await fetchWithTimeout(hlsUrl, { method: 'GET' });
+    checks.push({
+      name: 'HTTP-HLS mirror',
+      ok: response.ok,
+      detail: response.ok ? hlsUrl : response.status === 404 ? 'Stream is not being published' : `HTTP ${response.status}`,
+    });
+    return response.ok ? hlsUrl : null;
+  } catch (error) {
+    checks.push({ name: 'HTTP-HLS mirror', ok: false, detail: describeError(error) });
+    return null;
+  }
+}
+
+/**
+ * Probe a stream URL before it is saved: fetch the HLS manifest or negotiate a WHEP offer,
+ * then ask ffprobe for codecs and resolution. `ok` reflects the transport check only -
+ * the ffprobe step is informational since not every host has ffprobe installed.
+ */
+export async function probeStreamUrl(url: string, streamType?: 'webrtc' | 'hls'): Promise<StreamProbeResult> {
+  const checks: StreamProbeCheck[] = [];
+  const result: StreamProbeResult = {
+    ok: false,
+    streamType: streamType ?? detectStreamType(url),
+    error: null,
+    responseTimeMs: null,
+    checks,
+    variants: [],
+    media: null,
+  };
+
+  const mediaUrl = result.streamType === 'hls'
+    ? await probeHls(url, checks, result)
+    : await probeWhep(url, checks, result);
+
+  if (mediaUrl) {
+    const { media, error } = await runFfprobe(mediaUrl);
+    result.media = media;
+    checks.push({
+      name: 'ffprobe',
+      ok: media !== null,
+      detail: media
+        ? [media.videoCodec, media.width && media.height ? `${media.width}x${media.height}` : null, media.audioCodec]
+            .filter(Boolean)
+            .join(' / ')
+        : error ?? 'No media information',
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,176 @@
+import { storage } from './storage';
+import type { InsertProgram, Stream } from '../shared/schema';
+
+export interface XmltvChannel {
+  id: string;
+  displayNames: string[];
+}
+
+export interface XmltvProgramme {
+  channel: string;
+  start: string;
+  stop: string | null;
+  title: string;
+  description: string;
+}
+
+export interface XmltvImportResult {
+  imported: number;
+  skipped: number;
+  matchedChannels: string[];
+  unmatchedChannels: string[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .trim();
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  if (!match) return null;
+  return decodeXml(match[2] ?? match[3] ?? '');
+}
+
+function getElementTexts(body: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(body.matchAll(pattern), match => decodeXml(match[1]));
+}
+
+/**
+ * Parse an XMLTV timestamp ("20240101120000 +0100") into an ISO 8601 UTC string
+ */
+export function parseXmltvTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?\s*([+-]\d{4})?/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', offset] = match;
+  const utcMs = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (Number.isNaN(utcMs)) return null;
+
+  let offsetMs = 0;
+  if (offset) {
+    const sign = offset[0] === '-' ? -1 : 1;
+    offsetMs = sign * (parseInt(offset.slice(1, 3), 10) * 60 + parseInt(offset.slice(3, 5), 10)) * 60000;
+  }
+
+  return new Date(utcMs - offsetMs).toISOString();
+}
+
+/**
+ * Minimal XMLTV reader - only the channel and programme fields the guide uses
+ */
+export function parseXmltv(xml: string): { channels: XmltvChannel[]; programmes: XmltvProgramme[] } {
+  const channels: XmltvChannel[] = [];
+  for (const match of Array.from(xml.matchAll(/<channel\s([^>]*)>([\s\S]*?)<\/channel>/g))) {
+    const id = getAttribute(match[1], 'id');
+    if (id) {
+      channels.push({ id, displayNames: getElementTexts(match[2], 'display-name') });
+    }
+  }
+
+  const programmes: XmltvProgramme[] = [];
+  for (const match of Array.from(xml.matchAll(/<programme\s([^>]*)>([\s\S]*?)<\/programme>/g))) {
+    const channel = getAttribute(match[1], 'channel');
+    const startAttr = getAttribute(match[1], 'start');
+    const stopAttr = getAttribute(match[1], 'stop');
+    const start = startAttr ? parseXmltvTime(startAttr) : null;
+    const [title] = getElementTexts(match[2], 'title');
+    if (!channel || !start || !title) continue;
+
+    programmes.push({
+      channel,
+      start,
+      stop: stopAttr ? parseXmltvTime(stopAttr) : null,
+      title,
+      description: getElementTexts(match[2], 'desc')[0] ?? '',
+    });
+  }
+
+  return { channels, programmes };
+}
+
+/**
+ * Find the stream an XMLTV channel belongs to by streamId or title (case-insensitive)
+ */
+function matchChannelToStream(channelId: string, displayNames: string[], allStreams: Stream[]): Stream | undefined {
+  const candidates = [channelId, ...displayNames].map(name => name.toLowerCase());
+  return allStreams.find(stream =>
+    candidates.includes(stream.streamId.toLowerCase()) ||
+    candidates.includes(stream.title.toLowerCase())
+  );
+}
+
+/**
+ * Import an XMLTV document, replacing each matched stream's schedule for the imported time span
+ */
+export async function importXmltv(xml: string): Promise<XmltvImportResult> {
+  const { channels, programmes } = parseXmltv(xml);
+  const allStreams = await storage.getAllStreams();
+
+  const channelNames = new Map(channels.map(channel => [channel.id, channel.displayNames]));
+  const programmesByChannel = new Map<string, XmltvProgramme[]>();
+  for (const programme of programmes) {
+    const list = programmesByChannel.get(programme.channel) ?? [];
+    list.push(programme);
+    programmesByChannel.set(programme.channel, list);
+  }
+
+  const result: XmltvImportResult = { imported: 0, skipped: 0, matchedChannels: [], unmatchedChannels: [] };
+
+  for (const [channelId, channelProgrammes] of Array.from(programmesByChannel.entries())) {
+    const stream = matchChannelToStream(channelId, channelNames.get(channelId) ?? [], allStreams);
+    if (!stream) {
+      result.unmatchedChannels.push(channelId);
+      result.skipped += channelProgrammes.length;
+      continue;
+    }
+
+    channelProgrammes.sort((a, b) => a.start.localeCompare(b.start));
+
+    // Programmes without a stop time run until the next one starts
+    const entries: InsertProgram[] = [];
+    channelProgrammes.forEach((programme, index) => {
+      const endTime = programme.stop ?? channelProgrammes[index + 1]?.start;
+      if (!endTime || endTime <= programme.start) {
+        result.skipped++;
+        return;
+      }
+      entries.push({
+        streamId: stream.id,
+        title: programme.title,
+        description: programme.description,
+        startTime: programme.start,
+        endTime,
+      });
+    });
+
+    if (entries.length === 0) continue;
+
+    const from = entries[0].startTime;
+    const to = entries.reduce((latest, entry) => entry.endTime > latest ? entry.endTime : latest, entries[0].endTime);
+    const saved = await storage.replacePrograms(stream.id, from, to, entries);
+
+    result.imported += saved.length;
+    result.matchedChannels.push(channelId);
+  }
+
+  console.log(`XMLTV import: ${result.imported} programs imported, ${result.skipped} skipped, ${result.unmatchedChannels.length} unmatched channels`);
+  return result;
+}
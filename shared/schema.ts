@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, real, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { detectStreamType } from "./streamUrls";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -12,15 +13,181 @@ export const users = pgTable("users", {
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
+export const categories = pgTable("categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: text("slug").notNull().unique(), // referenced by streams.category
+  label: text("label").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  icon: text("icon").notNull().default("tv"), // lucide icon name, see CATEGORY_ICONS in client/src/hooks/use-categories.ts
+  visible: boolean("visible").notNull().default(true),
+});
+
 export const streams = pgTable("streams", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   thumbnail: text("thumbnail").notNull(),
   streamId: text("stream_id").notNull().unique(),
   url: text("url").notNull(),
-  category: text("category").notNull(), // featured, overTheAir, liveFeeds, studios, uhd
+  category: text("category").notNull(), // categories.slug
   studioId: text("studio_id"), // optional, for studio-specific feeds
   streamType: text("stream_type", { enum: ["webrtc", "hls"] }).notNull().default("webrtc"), // webrtc or hls stream type
+  position: integer("position").notNull().default(0), // manual order within the category, lowest first
+  channelNumber: integer("channel_number").unique(), // optional, typed on the remote to tune straight to the stream
+  fallbackUrl: text("fallback_url"), // optional HLS URL played when WebRTC cannot connect; WHEP streams derive one otherwise
+  dvrWindowSeconds: integer("dvr_window_seconds").notNull().default(0), // how far back viewers may rewind live HLS, 0 for live only
+});
+
+// Backup sources for a stream, tried in priority order (lowest first) after streams.url fails
+export const streamSources = pgTable("stream_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  streamId: varchar("stream_id").notNull().references(() => streams.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  streamType: text("stream_type", { enum: ["webrtc", "hls"] }).notNull(),
+  priority: integer("priority").notNull().default(0),
+  label: text("label").notNull(), // e.g. "Backup CDN", shown to viewers and in analytics
+});
+
+export const programs = pgTable("programs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  streamId: varchar("stream_id").notNull().references(() => streams.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description").notNull().default(""),
+  startTime: text("start_time").notNull(), // ISO 8601 UTC, so lexical order matches time order
+  endTime: text("end_time").notNull(),
+});
+
+// Recordings of a live stream to disk, started by hand or on a schedule (files live in server/recordings/<id>)
+export const recordings = pgTable("recordings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  streamId: varchar("stream_id").references(() => streams.id, { onDelete: "set null" }), // null once the stream is deleted
+  streamTitle: text("stream_title").notNull(), // title when the recording was made
+  title: text("title").notNull(),
+  status: text("status", { enum: ["scheduled", "recording", "completed", "failed", "cancelled"] }).notNull(),
+  scheduledStart: text("scheduled_start"), // ISO 8601 UTC, null when started by hand
+  scheduledEnd: text("scheduled_end"), // recording stops on its own at this time; null runs until stopped
+  startedAt: text("started_at"),
+  endedAt: text("ended_at"),
+  durationSeconds: integer("duration_seconds").notNull().default(0),
+  sizeBytes: bigint("size_bytes", { mode: "number" }).notNull().default(0),
+  error: text("error"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("created_at").notNull(),
+});
+
+// Short clips cut from the last moments of a live stream (files live in server/clips/<id>.mp4)
+export const clips = pgTable("clips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  streamId: varchar("stream_id").references(() => streams.id, { onDelete: "set null" }), // null once the stream is deleted
+  streamTitle: text("stream_title").notNull(), // title when the clip was cut
+  title: text("title").notNull(),
+  status: text("status", { enum: ["processing", "ready", "failed"] }).notNull().default("processing"),
+  durationSeconds: integer("duration_seconds").notNull().default(0), // requested length until ready, then the clip's own
+  sizeBytes: bigint("size_bytes", { mode: "number" }).notNull().default(0),
+  error: text("error"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdByUsername: text("created_by_username"), // kept when the user is deleted
+  createdAt: text("created_at").notNull(), // the clip ends at this moment
+});
+
+// On-demand videos uploaded by admins, transcoded to HLS under server/videos/<id>
+export const videos = pgTable("videos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  description: text("description").notNull().default(""),
+  status: text("status", { enum: ["processing", "ready", "failed"] }).notNull().default("processing"),
+  durationSeconds: integer("duration_seconds").notNull().default(0),
+  sizeBytes: bigint("size_bytes", { mode: "number" }).notNull().default(0), // HLS output on disk
+  error: text("error"),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("created_at").notNull(),
+});
+
+// Where each user stopped watching a video, to resume from
+export const videoProgress = pgTable("video_progress", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  videoId: varchar("video_id").notNull().references(() => videos.id, { onDelete: "cascade" }),
+  positionSeconds: integer("position_seconds").notNull().default(0),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  unique("video_progress_user_video").on(table.userId, table.videoId),
+]);
+
+export const userFavorites = pgTable("user_favorites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  streamId: varchar("stream_id").notNull().references(() => streams.id, { onDelete: "cascade" }),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  unique("user_favorites_user_stream").on(table.userId, table.streamId),
+]);
+
+export const watchHistory = pgTable("watch_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  streamId: varchar("stream_id").notNull().references(() => streams.id, { onDelete: "cascade" }),
+  startedAt: text("started_at").notNull(), // ISO 8601 UTC, set when the player opens
+  endedAt: text("ended_at"), // null while watching, or if the player never reported closing
+  durationSeconds: integer("duration_seconds").notNull().default(0),
+});
+
+export const userPreferences = pgTable("user_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  audioLanguage: text("audio_language"), // preferred alternate audio track, null for the stream's default
+  captionLanguage: text("caption_language"), // captions shown in this language, null when captions are off
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const playbackSessions = pgTable("playback_sessions", {
+  id: varchar("id").primaryKey(), // generated by the player so later beacons can refer to it
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  streamId: varchar("stream_id").notNull().references(() => streams.id, { onDelete: "cascade" }),
+  deviceClass: text("device_class", { enum: ["firetv", "tv", "desktop"] }).notNull(),
+  streamType: text("stream_type", { enum: ["webrtc", "hls"] }).notNull(),
+  startedAt: text("started_at").notNull(), // ISO 8601 UTC
+  lastSeenAt: text("last_seen_at").notNull(), // bumped by every beacon; stands in for endedAt if the player vanished
+  endedAt: text("ended_at"),
+  error: text("error"), // last playback error reported, null if it played cleanly
+  source: text("source"), // label of the stream source that served the session, once one did
+});
+
+// Periodic player stats for troubleshooting a session; fields the player cannot measure are null
+export const playbackStatsSamples = pgTable("playback_stats_samples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => playbackSessions.id, { onDelete: "cascade" }),
+  recordedAt: text("recorded_at").notNull(), // ISO 8601 UTC
+  width: integer("width"),
+  height: integer("height"),
+  fps: real("fps"),
+  bitrateKbps: real("bitrate_kbps"),
+  packetLossPercent: real("packet_loss_percent"), // WebRTC only
+  jitterMs: real("jitter_ms"), // WebRTC only
+  rttMs: real("rtt_ms"), // WebRTC only
+  bufferSeconds: real("buffer_seconds"), // HLS only
+  qualityLevel: integer("quality_level"), // HLS only, hls.js level index
+  droppedFrames: integer("dropped_frames"),
+});
+
+export const wallLayouts = pgTable("wall_layouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }), // null for shared walls defined by admins
+  columns: integer("columns").notNull().default(2),
+  rows: integer("rows").notNull().default(2),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const wallLayoutTiles = pgTable("wall_layout_tiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  layoutId: varchar("layout_id").notNull().references(() => wallLayouts.id, { onDelete: "cascade" }),
+  streamId: varchar("stream_id").references(() => streams.id, { onDelete: "set null" }), // null once the feed is deleted
+  streamTitle: text("stream_title").notNull(), // title when the wall was saved, to name missing feeds
+  x: integer("x").notNull(), // grid cell of the top-left corner, 0-based
+  y: integer("y").notNull(),
+  width: integer("width").notNull().default(1), // in grid cells
+  height: integer("height").notNull().default(1),
+  audio: boolean("audio").notNull().default(false), // at most one tile per wall starts with audio
 });
 
 export const studios = pgTable("studios", {
@@ -93,15 +260,61 @@ export type PasscodeLoginResponse = z.infer<typeof passcodeLoginResponseSchema>;
 export type PasscodeErrorResponse = z.infer<typeof passcodeErrorResponseSchema>;
 
 // Stream schemas
+// Channel numbers are entered digit by digit on the remote, so keep them to 4 digits
+export const MAX_CHANNEL_NUMBER = 9999;
+
+// Rewinding is also limited by how much the HLS playlist itself keeps
+export const MAX_DVR_WINDOW_SECONDS = 4 * 60 * 60;
+
 export const insertStreamSchema = createInsertSchema(streams).omit({
   id: true,
+}).extend({
+  channelNumber: z.number()
+    .int("Channel number must be a whole number")
+    .min(1, "Channel number must be at least 1")
+    .max(MAX_CHANNEL_NUMBER, `Channel number must be at most ${MAX_CHANNEL_NUMBER}`)
+    .nullable()
+    .optional(),
+  fallbackUrl: z.string()
+    .refine((url) => detectStreamType(url) === 'hls', "Fallback URL must be an HLS (.m3u8) URL")
+    .nullable()
+    .optional(),
+  dvrWindowSeconds: z.number()
+    .int("Rewind window must be a whole number of seconds")
+    .min(0, "Rewind window cannot be negative")
+    .max(MAX_DVR_WINDOW_SECONDS, `Rewind window must be at most ${MAX_DVR_WINDOW_SECONDS / 3600} hours`)
+    .optional(),
 });
 
 export const updateStreamSchema = insertStreamSchema.partial();
 
+// Bulk reorder - the listed streams get positions 0..n-1 in the given order
+export const reorderStreamsSchema = z.object({
+  streamIds: z.array(z.string()).min(1, "At least one stream is required"),
+});
+
 export type InsertStream = z.infer<typeof insertStreamSchema>;
+export type ReorderStreams = z.infer<typeof reorderStreamsSchema>;
 export type Stream = typeof streams.$inferSelect;
 
+// Stream source schemas - the admin form sends the full list with the stream
+export const PRIMARY_SOURCE_LABEL = "Primary";
+
+export const streamSourceInputSchema = z.object({
+  url: z.string().url("Must be a valid URL").refine(
+    (url) => url.startsWith('webrtc://') || url.startsWith('http://') || url.startsWith('https://'),
+    "Must be a valid stream URL (webrtc://, http://, or https://)"
+  ),
+  streamType: z.enum(["webrtc", "hls"]).optional(), // detected from the URL when omitted
+  priority: z.number().int().min(0, "Priority must be 0 or more"),
+  label: z.string().trim().min(1, "Label is required").max(50, "Label too long"),
+});
+
+export const streamSourcesSchema = z.array(streamSourceInputSchema).max(10, "At most 10 backup sources");
+
+export type InsertStreamSource = z.infer<typeof streamSourceInputSchema>;
+export type StreamSource = typeof streamSources.$inferSelect;
+
 // Studio schemas
 export const insertStudioSchema = createInsertSchema(studios).omit({
   id: true,
@@ -111,3 +324,391 @@ export const updateStudioSchema = insertStudioSchema.partial();
 
 export type InsertStudio = z.infer<typeof insertStudioSchema>;
 export type Studio = typeof studios.$inferSelect;
+
+// Favorite schemas
+export type UserFavorite = typeof userFavorites.$inferSelect;
+
+// Watch history schemas
+export const startWatchSchema = z.object({
+  streamId: z.string().min(1, "Stream is required"), // the stream's public streamId, as the player knows it
+});
+
+export type WatchHistoryEntry = typeof watchHistory.$inferSelect;
+
+// A history entry with the stream it refers to, newest first from GET /api/me/history
+export type WatchHistoryItem = WatchHistoryEntry & { stream: Stream };
+
+// Playback preference schemas - a track is remembered by its language code, or its name
+// when the playlist doesn't tag one
+const trackPreferenceSchema = z.string().min(1).max(50).nullable();
+
+export const updateUserPreferencesSchema = z.object({
+  audioLanguage: trackPreferenceSchema.optional(),
+  captionLanguage: trackPreferenceSchema.optional(),
+});
+
+export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+export type UserPreferences = typeof userPreferences.$inferSelect;
+
+// What GET /api/me/preferences returns - defaults until the user picks a track
+export type PlaybackPreferences = Pick<UserPreferences, "audioLanguage" | "captionLanguage">;
+export const DEFAULT_PLAYBACK_PREFERENCES: PlaybackPreferences = { audioLanguage: null, captionLanguage: null };
+
+// Category schemas
+export const insertCategorySchema = createInsertSchema(categories).omit({
+  id: true,
+}).extend({
+  slug: z.string()
+    .min(1, "Slug is required")
+    .max(50, "Slug too long")
+    .regex(/^[a-zA-Z][a-zA-Z0-9-]*$/, "Slug must start with a letter and contain only letters, numbers and dashes"),
+  label: z.string().min(1, "Label is required").max(50, "Label too long"),
+});
+
+export const updateCategorySchema = insertCategorySchema.partial();
+
+// Built-in categories have dedicated screens, so their slugs cannot be renamed or deleted
+export const FEATURED_CATEGORY = "featured";
+export const STUDIOS_CATEGORY = "studios";
+export const BUILT_IN_CATEGORIES = [FEATURED_CATEGORY, STUDIOS_CATEGORY];
+
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Category = typeof categories.$inferSelect;
+
+// Program guide (EPG) schemas
+const programTimeSchema = z.string()
+  .datetime({ offset: true, message: "Must be an ISO 8601 date-time" })
+  .transform((value) => new Date(value).toISOString());
+
+export const insertProgramSchema = createInsertSchema(programs).omit({
+  id: true,
+}).extend({
+  title: z.string().min(1, "Title is required"),
+  startTime: programTimeSchema,
+  endTime: programTimeSchema,
+});
+
+export const updateProgramSchema = insertProgramSchema.partial();
+
+export type InsertProgram = z.infer<typeof insertProgramSchema>;
+export type Program = typeof programs.$inferSelect;
+
+// What is airing on a stream right now and what follows it
+export interface NowNextPrograms {
+  now: Program | null;
+  next: Program | null;
+}
+
+// Recording schemas
+// A single recording can't run longer than this, however it was started
+export const MAX_RECORDING_MINUTES = 12 * 60;
+
+const recordingTitleSchema = z.string().trim().max(100, "Title too long").optional();
+
+export const startRecordingSchema = z.object({
+  streamId: z.string().min(1, "Stream is required"), // streams.id
+  title: recordingTitleSchema,
+  durationMinutes: z.number()
+    .int("Duration must be a whole number of minutes")
+    .min(1, "Duration must be at least 1 minute")
+    .max(MAX_RECORDING_MINUTES, `Duration must be at most ${MAX_RECORDING_MINUTES} minutes`)
+    .optional(), // stops on its own after this long; runs until stopped otherwise
+});
+
+export const scheduleRecordingSchema = z.object({
+  streamId: z.string().min(1, "Stream is required"),
+  title: recordingTitleSchema,
+  scheduledStart: programTimeSchema,
+  scheduledEnd: programTimeSchema,
+}).refine((recording) => recording.scheduledEnd > recording.scheduledStart, {
+  message: "End time must be after start time",
+  path: ["scheduledEnd"],
+}).refine((recording) => Date.parse(recording.scheduledEnd) - Date.parse(recording.scheduledStart) <= MAX_RECORDING_MINUTES * 60 * 1000, {
+  message: `Recordings can be at most ${MAX_RECORDING_MINUTES / 60} hours long`,
+  path: ["scheduledEnd"],
+});
+
+export type StartRecording = z.infer<typeof startRecordingSchema>;
+export type ScheduleRecording = z.infer<typeof scheduleRecordingSchema>;
+export type Recording = typeof recordings.$inferSelect;
+export type InsertRecording = typeof recordings.$inferInsert;
+export type RecordingStatus = Recording["status"];
+
+// Retention limits, enforced by RecordingService and shown on the recordings page
+export interface RecordingLimits {
+  retentionDays: number; // finished recordings older than this are deleted
+  maxTotalBytes: number; // oldest finished recordings are deleted once the library is bigger
+  usedBytes: number;
+}
+
+// Clip schemas - a clip always ends at the moment it is requested
+export const MIN_CLIP_SECONDS = 5;
+export const MAX_CLIP_SECONDS = 300;
+export const DEFAULT_CLIP_SECONDS = 60;
+
+export const createClipSchema = z.object({
+  streamId: z.string().min(1, "Stream is required"), // streams.id
+  title: z.string().trim().max(100, "Title too long").optional(),
+  durationSeconds: z.number()
+    .int("Duration must be a whole number of seconds")
+    .min(MIN_CLIP_SECONDS, `Clips must be at least ${MIN_CLIP_SECONDS} seconds long`)
+    .max(MAX_CLIP_SECONDS, `Clips can be at most ${MAX_CLIP_SECONDS} seconds long`)
+    .default(DEFAULT_CLIP_SECONDS),
+});
+
+export type CreateClip = z.input<typeof createClipSchema>;
+export type Clip = typeof clips.$inferSelect;
+export type InsertClip = typeof clips.$inferInsert;
+export type ClipStatus = Clip["status"];
+
+// Video library schemas - the file itself arrives as multipart form data alongside these fields
+export const videoUploadSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title too long"),
+  description: z.string().trim().max(2000, "Description too long").default(""),
+});
+
+export const videoProgressSchema = z.object({
+  positionSeconds: z.number().min(0, "Position can't be negative"),
+});
+
+export type VideoUpload = z.infer<typeof videoUploadSchema>;
+export type Video = typeof videos.$inferSelect;
+export type InsertVideo = typeof videos.$inferInsert;
+export type VideoStatus = Video["status"];
+export type VideoProgress = typeof videoProgress.$inferSelect;
+
+// A ready video with the signed-in user's resume position, as GET /api/videos returns it
+export type LibraryVideo = Video & { positionSeconds: number };
+
+// Wall layout schemas - named multiview walls, shared (admin) or personal
+export const MAX_WALL_SIZE = 4; // columns and rows
+
+const wallTileSchema = z.object({
+  streamId: z.string().min(1, "Stream is required"), // streams.id, so walls survive renames
+  x: z.number().int().min(0),
+  y: z.number().int().min(0),
+  width: z.number().int().min(1).default(1),
+  height: z.number().int().min(1).default(1),
+  audio: z.boolean().default(false),
+});
+
+export const insertWallLayoutSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100, "Name too long"),
+  columns: z.number().int().min(1).max(MAX_WALL_SIZE),
+  rows: z.number().int().min(1).max(MAX_WALL_SIZE),
+  tiles: z.array(wallTileSchema).min(1, "Add at least one tile"),
+  shared: z.boolean().optional(), // admins only; everyone else saves personal walls
+}).superRefine((wall, ctx) => {
+  const occupied = new Set<string>();
+  wall.tiles.forEach((tile, index) => {
+    if (tile.x + tile.width > wall.columns || tile.y + tile.height > wall.rows) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tile does not fit in the wall", path: ["tiles", index] });
+      return;
+    }
+    for (let x = tile.x; x < tile.x + tile.width; x++) {
+      for (let y = tile.y; y < tile.y + tile.height; y++) {
+        if (occupied.has(`${x},${y}`)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tiles overlap", path: ["tiles", index] });
+          return;
+        }
+        occupied.add(`${x},${y}`);
+      }
+    }
+  });
+  if (wall.tiles.filter(tile => tile.audio).length > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Only one tile can have audio", path: ["tiles"] });
+  }
+});
+
+export type InsertWallLayout = z.infer<typeof insertWallLayoutSchema>;
+export type InsertWallTile = InsertWallLayout["tiles"][number];
+export type WallLayout = typeof wallLayouts.$inferSelect;
+export type WallLayoutTile = typeof wallLayoutTiles.$inferSelect;
+
+// A wall with its tiles; stream is null when the feed has been deleted
+export type WallLayoutWithTiles = WallLayout & {
+  tiles: (WallLayoutTile & { stream: Stream | null })[];
+};
+
+// Stream URL probe - run from the admin stream form before saving
+export const probeStreamSchema = z.object({
+  url: z.string().min(1, "URL is required"),
+  streamType: z.enum(["webrtc", "hls"]).optional(), // detected from the URL when omitted
+});
+
+export interface StreamProbeCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+// Rolling archive of a stream's past snapshots, as GET /api/streams/:id/snapshots returns it
+export interface SnapshotHistoryEntry {
+  takenAt: string; // ISO 8601 UTC
+  url: string; // under /snapshots/history
+}
+
+export interface SnapshotHistory {
+  enabled: boolean; // off unless SNAPSHOT_HISTORY_COUNT is set
+  maxCount: number;
+  intervalSeconds: number;
+  snapshots: SnapshotHistoryEntry[]; // newest first
+}
+
+export interface HlsVariantInfo {
+  bandwidth: number | null;
+  resolution: string | null;
+  codecs: string | null;
+}
+
+export interface StreamMediaInfo {
+  videoCodec: string | null;
+  audioCodec: string | null;
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+}
+
+export interface StreamProbeResult {
+  ok: boolean; // the transport itself answered; media info is best effort
+  streamType: "webrtc" | "hls";
+  error: string | null;
+  responseTimeMs: number | null;
+  checks: StreamProbeCheck[];
+  variants: HlsVariantInfo[]; // HLS master playlists only
+  media: StreamMediaInfo | null; // from ffprobe, when it could read the stream
+}
+
+// Stream health schemas (reported by StreamHealthService, kept in memory)
+export const streamHealthSchema = z.object({
+  streamId: z.string(),
+  status: z.enum(["online", "offline", "unknown"]),
+  lastChecked: z.string().nullable(),
+  lastSeen: z.string().nullable(),
+  error: z.string().nullable(),
+  responseTimeMs: z.number().nullable(),
+});
+
+export type StreamHealth = z.infer<typeof streamHealthSchema>;
+export type StreamHealthStatus = StreamHealth["status"];
+
+// Media alerts (raised by the snapshot worker's ffmpeg detection filters, kept in memory)
+export const MEDIA_ALERT_TYPES = ["black", "freeze", "silence"] as const;
+
+export type MediaAlertType = typeof MEDIA_ALERT_TYPES[number];
+
+export interface MediaAlert {
+  id: string;
+  streamId: string; // streams.streamId
+  type: MediaAlertType;
+  startedAt: string; // when the condition had lasted long enough to alert on
+  endedAt: string | null; // null while it is still going on
+}
+
+// Playback analytics schemas - sent by the player with navigator.sendBeacon
+export const DEVICE_CLASSES = ["firetv", "tv", "desktop"] as const;
+
+// Players ping this often while open; a session silent for twice as long has ended
+export const PLAYBACK_PING_INTERVAL_MS = 60000;
+
+// Players send their latest stats sample this often while open
+export const PLAYBACK_STATS_INTERVAL_MS = 30000;
+
+const statsValue = z.number().nonnegative().nullable();
+
+export const playbackStatsSchema = z.object({
+  width: z.number().int().nonnegative().nullable(),
+  height: z.number().int().nonnegative().nullable(),
+  fps: statsValue,
+  bitrateKbps: statsValue,
+  packetLossPercent: z.number().min(0).max(100).nullable(),
+  jitterMs: statsValue,
+  rttMs: statsValue,
+  bufferSeconds: statsValue,
+  qualityLevel: z.number().int().nullable(),
+  droppedFrames: z.number().int().nonnegative().nullable(),
+});
+
+const beaconSessionId = z.string().uuid("Session id must be a UUID");
+
+export const playbackBeaconSchema = z.discriminatedUnion("event", [
+  z.object({
+    event: z.literal("start"),
+    sessionId: beaconSessionId,
+    streamId: z.string().min(1, "Stream is required"), // the stream's public streamId
+    streamType: z.enum(["webrtc", "hls"]),
+    deviceClass: z.enum(DEVICE_CLASSES),
+  }),
+  z.object({ event: z.literal("ping"), sessionId: beaconSessionId }),
+  z.object({ event: z.literal("error"), sessionId: beaconSessionId, error: z.string().min(1).max(500) }),
+  z.object({ event: z.literal("end"), sessionId: beaconSessionId }),
+  z.object({ event: z.literal("stats"), sessionId: beaconSessionId, stats: playbackStatsSchema }),
+  // Sent when a source starts playing - again after every failover
+  z.object({
+    event: z.literal("source"),
+    sessionId: beaconSessionId,
+    streamType: z.enum(["webrtc", "hls"]),
+    source: z.string().min(1).max(100),
+  }),
+]);
+
+export type PlaybackBeacon = z.infer<typeof playbackBeaconSchema>;
+export type PlaybackSession = typeof playbackSessions.$inferSelect;
+export type InsertPlaybackSession = typeof playbackSessions.$inferInsert;
+export type DeviceClass = PlaybackSession["deviceClass"];
+export type PlaybackStats = z.infer<typeof playbackStatsSchema>;
+export type PlaybackStatsSample = typeof playbackStatsSamples.$inferSelect;
+export type InsertPlaybackStatsSample = typeof playbackStatsSamples.$inferInsert;
+
+// One session with its stats samples, oldest first, for troubleshooting a viewer's ticket
+export interface PlaybackSessionDetail {
+  session: PlaybackSession;
+  streamTitle: string | null;
+  username: string | null;
+  samples: PlaybackStatsSample[];
+}
+
+// Summary served to the admin analytics page for one time window
+export interface PlaybackAnalytics {
+  from: string;
+  to: string;
+  totalSessions: number;
+  uniqueViewers: number;
+  totalWatchSeconds: number;
+  concurrentViewers: { time: string; viewers: number }[];
+  topStreams: { streamId: string; title: string; sessions: number; watchSeconds: number }[];
+  failureRates: { streamId: string; title: string; sessions: number; failures: number; failureRate: number }[];
+  devices: { deviceClass: DeviceClass; sessions: number }[];
+}
+
+// Live viewer counts and catalog change pushes - one WebSocket per client
+export const VIEWER_SOCKET_PATH = "/ws";
+export const VIEWER_HEARTBEAT_INTERVAL_MS = 15000;
+export const MAX_VIEWER_WATCHED_STREAMS = MAX_WALL_SIZE * MAX_WALL_SIZE + 1; // a full wall plus the player
+const viewerStreamIdSchema = z.string().min(1).max(200);
+
+export const viewerClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("watch"), streamId: viewerStreamIdSchema }), // the stream's public streamId
+  z.object({ type: z.literal("unwatch"), streamId: viewerStreamIdSchema }),
+  z.object({ type: z.literal("heartbeat") }),
+]);
+
+export type ViewerClientMessage = z.infer<typeof viewerClientMessageSchema>;
+
+// Sent on connect and whenever a count changes; streams nobody is watching are left out
+export interface ViewerCountsMessage {
+  type: "viewers";
+  counts: Record<string, number>;
+}
+
+// Sent after an admin changes the catalog, so clients refetch instead of waiting for a reload
+export type CatalogResource = "streams" | "studios" | "categories" | "programs" | "walls" | "videos";
+
+export interface CatalogChangeMessage {
+  type: "catalog";
+  resource: CatalogResource;
+  action: "created" | "updated" | "deleted" | "reordered" | "imported";
+  id?: string;
+}
+
+export type ViewerServerMessage = ViewerCountsMessage | CatalogChangeMessage;
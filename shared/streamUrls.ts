@@ -0,0 +1,92 @@
+// Stream URL helpers shared by the server services and the client players
+
+export type StreamTransport = 'webrtc' | 'hls';
+
+/**
+ * Detect stream transport from its URL: .m3u8 or hls:// is HLS, everything else WebRTC
+ */
+export function detectStreamType(url: string): StreamTransport {
+  if (!url) return 'webrtc';
+
+  const urlLower = url.toLowerCase();
+
+  // HLS detection: .m3u8 extension or hls:// protocol
+  if (urlLower.includes('.m3u8') || urlLower.startsWith('hls://')) {
+    return 'hls';
+  }
+
+  // Default to WebRTC for everything else
+  return 'webrtc';
+}
+
+/**
+ * Check whether a URL points at a WHEP / SRS rtc endpoint
+ */
+export function isWhepUrl(url: string): boolean {
+  return url.includes('whep') || url.includes('rtc/v1');
+}
+
+/**
+ * Normalize an HLS URL so it can be fetched over HTTP (hls:// -> http://)
+ */
+export function normalizeHlsUrl(url: string): string {
+  return url.startsWith('hls://') ? url.replace('hls://', 'http://') : url;
+}
+
+/**
+ * Convert a webrtc:// SRS URL into the WHEP endpoint the SRS SDK would use
+ */
+export function convertWebRtcToWhep(webrtcUrl: string): string | null {
+  try {
+    const url = new URL(webrtcUrl.replace(/^webrtc:\/\//, 'http://'));
+    const segments = url.pathname.split('/').filter(Boolean);
+    if (segments.length < 2) {
+      return null;
+    }
+
+    const stream = segments.pop() as string;
+    const app = segments.join('/');
+    const port = url.port || '1985';
+
+    return `http://${url.hostname}:${port}/rtc/v1/whep/?app=${app}&stream=${stream}`;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Convert WHEP URL to HTTP-HLS URL by parsing server info dynamically
+ */
+export function convertWhepToHttpHls(whepUrl: string, streamId: string, protocol: 'http' | 'https' = 'http'): string | null {
+  try {
+    const url = new URL(whepUrl);
+    const streamMatch = whepUrl.match(/[?&]stream=([^&]+)/);
+    const streamName = streamMatch ? streamMatch[1] : streamId;
+
+    // Use the same port as the WHEP URL for HTTP-HLS
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+    return `${protocol}://${url.hostname}:${port}/live/${streamName}.m3u8`;
+  } catch (error) {
+    // No fallback - return null if parsing fails
+    return null;
+  }
+}
+
+/**
+ * HLS URL to play when a WebRTC stream cannot connect: the stream's explicit fallback URL,
+ * otherwise the SRS HTTP-HLS mirror of its WHEP endpoint. Null for streams with neither.
+ */
+export function getHlsFallbackUrl(
+  streamUrl: string,
+  streamId: string,
+  fallbackUrl?: string | null,
+  protocol: 'http' | 'https' = 'http',
+): string | null {
+  if (fallbackUrl) return normalizeHlsUrl(fallbackUrl);
+
+  const whepUrl = streamUrl.startsWith('webrtc://') ? convertWebRtcToWhep(streamUrl) : streamUrl;
+  if (!whepUrl || !isWhepUrl(whepUrl)) return null;
+
+  return convertWhepToHttpHls(whepUrl, streamId, protocol);
+}